@@ -0,0 +1,13 @@
+CREATE TABLE `snapshots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`adapter_id` text NOT NULL,
+	`snapshot_type` text NOT NULL,
+	`ingest_log_id` text,
+	`document_id` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`captured_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `snap_adapter_type_time_idx` ON `snapshots` (`adapter_id`,`snapshot_type`,`captured_at`);--> statement-breakpoint
+CREATE INDEX `snap_adapter_time_idx` ON `snapshots` (`adapter_id`,`captured_at`);--> statement-breakpoint
+CREATE INDEX `snap_ingest_log_idx` ON `snapshots` (`ingest_log_id`);
\ No newline at end of file
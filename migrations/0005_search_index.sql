@@ -0,0 +1,26 @@
+-- Custom SQL migration file, put your code below! --
+-- Full-text index over api_data payloads, documents and locations (kept in sync by src/core/search-index.ts)
+CREATE VIRTUAL TABLE `search_index` USING fts5(
+	`kind` UNINDEXED,
+	`ref_id` UNINDEXED,
+	`adapter_id` UNINDEXED,
+	`payload_type` UNINDEXED,
+	`title`,
+	`body`,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+INSERT INTO `search_index` (`kind`, `ref_id`, `adapter_id`, `payload_type`, `title`, `body`)
+SELECT 'api_data', a.`id`, a.`api_source`, a.`payload_type`, l.`name`,
+	(SELECT group_concat(j.`value`, ' ') FROM json_tree(a.`payload`) j WHERE j.`type` = 'text')
+FROM `api_data` a LEFT JOIN `locations` l ON l.`id` = a.`location_id`;
+--> statement-breakpoint
+INSERT INTO `search_index` (`kind`, `ref_id`, `adapter_id`, `payload_type`, `title`, `body`)
+SELECT 'document', d.`id`, d.`adapter_id`, NULL, d.`name`,
+	d.`content_type` || ' ' || coalesce((SELECT group_concat(j.`value`, ' ') FROM json_tree(d.`metadata`) j WHERE j.`type` = 'text'), '')
+FROM `documents` d;
+--> statement-breakpoint
+INSERT INTO `search_index` (`kind`, `ref_id`, `adapter_id`, `payload_type`, `title`, `body`)
+SELECT 'location', l.`id`, NULL, NULL, l.`name`,
+	l.`type` || ' ' || coalesce((SELECT group_concat(j.`value`, ' ') FROM json_tree(l.`metadata`) j WHERE j.`type` = 'text'), '')
+FROM `locations` l;
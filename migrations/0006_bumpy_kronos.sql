@@ -0,0 +1,19 @@
+CREATE TABLE `exports` (
+	`id` text PRIMARY KEY NOT NULL,
+	`query_hash` text NOT NULL,
+	`format` text NOT NULL,
+	`filters` text NOT NULL,
+	`status` text NOT NULL,
+	`row_count` integer,
+	`size_bytes` integer,
+	`r2_key` text,
+	`error` text,
+	`created_at` integer NOT NULL,
+	`started_at` integer,
+	`finished_at` integer,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `export_query_hash_idx` ON `exports` (`query_hash`);--> statement-breakpoint
+CREATE INDEX `export_status_created_idx` ON `exports` (`status`,`created_at`);--> statement-breakpoint
+CREATE INDEX `export_expires_idx` ON `exports` (`expires_at`);
\ No newline at end of file
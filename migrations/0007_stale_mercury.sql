@@ -0,0 +1,5 @@
+ALTER TABLE `locations` ADD `grid_lat` integer;--> statement-breakpoint
+ALTER TABLE `locations` ADD `grid_lon` integer;--> statement-breakpoint
+CREATE INDEX `loc_grid_idx` ON `locations` (`grid_lat`,`grid_lon`);--> statement-breakpoint
+-- Backfill the 0.5° grid cells (GRID_CELL_DEGREES in src/core/geo.ts)
+UPDATE `locations` SET `grid_lat` = CAST((`latitude` + 90) * 2 AS INTEGER), `grid_lon` = CAST((`longitude` + 180) * 2 AS INTEGER) WHERE `latitude` IS NOT NULL AND `longitude` IS NOT NULL;
@@ -0,0 +1,4 @@
+ALTER TABLE `api_data` ADD `seq` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_api_data_seq` ON `api_data` (`seq`);--> statement-breakpoint
+-- Backfill the insertion sequence of existing rows in rowid (insertion) order
+UPDATE `api_data` SET `seq` = `rowid`;
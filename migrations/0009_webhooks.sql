@@ -0,0 +1,35 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`subscription_id` text NOT NULL,
+	`event` text NOT NULL,
+	`api_data_id` text,
+	`body` text NOT NULL,
+	`status` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` integer,
+	`last_attempt_at` integer,
+	`response_status` integer,
+	`error` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `delivery_subscription_created_idx` ON `webhook_deliveries` (`subscription_id`,`created_at`);--> statement-breakpoint
+CREATE UNIQUE INDEX `delivery_subscription_data_idx` ON `webhook_deliveries` (`subscription_id`,`api_data_id`);--> statement-breakpoint
+CREATE INDEX `delivery_status_next_idx` ON `webhook_deliveries` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE TABLE `webhook_subscriptions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`url` text NOT NULL,
+	`description` text,
+	`secret` text NOT NULL,
+	`secret_hash` text NOT NULL,
+	`filters` text NOT NULL,
+	`status` text NOT NULL,
+	`last_seq` integer NOT NULL,
+	`consecutive_failures` integer DEFAULT 0 NOT NULL,
+	`disabled_reason` text,
+	`created_at` integer NOT NULL,
+	`disabled_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_secret_idx` ON `webhook_subscriptions` (`secret_hash`);--> statement-breakpoint
+CREATE INDEX `webhook_status_idx` ON `webhook_subscriptions` (`status`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Custom SQL migration file, put your code below! --
+-- Location entries of search_index move to rowid = -locations.rowid, so reindexLocation deletes by rowid instead of scanning the UNINDEXED kind/ref_id columns
+DELETE FROM `search_index` WHERE `kind` = 'location';
+--> statement-breakpoint
+INSERT INTO `search_index` (`rowid`, `kind`, `ref_id`, `adapter_id`, `payload_type`, `title`, `body`)
+SELECT -l.`rowid`, 'location', l.`id`, NULL, NULL, l.`name`,
+	l.`type` || ' ' || coalesce((SELECT group_concat(j.`value`, ' ') FROM json_tree(l.`metadata`) j WHERE j.`type` = 'text'), '')
+FROM `locations` l;
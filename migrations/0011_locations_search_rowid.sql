@@ -0,0 +1,4 @@
+ALTER TABLE `locations` ADD `search_rowid` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_locations_search_rowid` ON `locations` (`search_rowid`);--> statement-breakpoint
+-- Backfill from rowid, which is what the location entries of search_index were keyed on until now (migration 0010)
+UPDATE `locations` SET `search_rowid` = `rowid`;
@@ -0,0 +1,3 @@
+DROP INDEX `webhook_secret_idx`;--> statement-breakpoint
+-- Subscriptions created before management tokens existed keep their signing secret as token
+ALTER TABLE `webhook_subscriptions` RENAME COLUMN `secret_hash` TO `token_hash`;
@@ -20,7 +20,7 @@ import { registry } from "../../core/registry";
 
 // Import your types — see types.ts for upstream schemas, payload interfaces,
 // and API response schemas.
-// import { MyUpstreamResponseSchema, type MyReadingPayload } from "./types";
+// import { MyUpstreamResponseSchema, MyReadingPayloadSchema, type MyReadingPayload } from "./types";
 
 // ---------------------------------------------------------------------------
 // TODO: Set the upstream API URL
@@ -39,6 +39,7 @@ const API_URL = "https://example.com/api/data";
  *   - `ctx.storeBatchApiData(adapterId, payloadType, items)` → batch-insert multiple rows (recommended for loops)
  *   - `ctx.uploadDocument(adapterId, doc)`       → upload a file to R2
  *   - `ctx.registerLocation(loc)`                → register a shared location
+ *   - `ctx.storeSnapshot(adapterId, type, data)` → capture a point-in-time JSON snapshot
  *   - `ctx.log(...)`                             → structured logging
  */
 async function fetchData(ctx: AdapterContext): Promise<void> {
@@ -93,6 +94,12 @@ async function fetchData(ctx: AdapterContext): Promise<void> {
   // };
   // await ctx.uploadDocument(adapter.id, doc);
 
+  // ── Example: Capture a snapshot of the raw upstream response ────────
+  // Snapshots are served by /v1/sources/{id}/snapshots, so users can ask
+  // "what did the source publish at time T" exactly.
+  //
+  // await ctx.storeSnapshot(adapter.id, "full-response", raw);
+
   ctx.log("Done.");
 }
 
@@ -159,6 +166,12 @@ const adapter: AdapterDefinition = {
 
   // Optional: set features.hasLocations: false if your data has no geographic locations
   // features: { hasLocations: false },
+
+  // Optional: Zod schema per payload type — rows are validated on store and the
+  // payload is typed in the OpenAPI docs. Invalid rows are rejected (default) or,
+  // with payloadValidation: "flag", stored with the "payload-invalido" tag.
+  // payloadSchemas: { "my-reading": MyReadingPayloadSchema },
+  // payloadValidation: "flag",
 };
 
 // Optional: if you have custom routes, add:
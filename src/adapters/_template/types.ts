@@ -11,9 +11,11 @@
  *      from the data source. Use these in your schedule handler to catch
  *      upstream format changes early.
  *
- *   2. **Payload interfaces** — TypeScript types describing what you store
- *      in `api_data.payload`. One adapter can have multiple payload types
- *      (e.g. "daily-forecast" and "hourly-observation").
+ *   2. **Payload schemas** — Zod schemas describing what you store in
+ *      `api_data.payload`, with the TypeScript types inferred from them.
+ *      One adapter can have multiple payload types (e.g. "daily-forecast"
+ *      and "hourly-observation"). Declared in `payloadSchemas`, they are
+ *      checked on store and typed in the OpenAPI docs.
  *
  *   3. **API response schemas** — Zod schemas for your custom route
  *      responses (used in @hono/zod-openapi for validation + docs).
@@ -49,33 +51,36 @@ export const MyUpstreamResponseSchema = z.object({
 export type MyUpstreamResponse = z.infer<typeof MyUpstreamResponseSchema>;
 
 // ---------------------------------------------------------------------------
-// 2. Payload interfaces (what goes into api_data.payload)
+// 2. Payload schemas (what goes into api_data.payload)
 // ---------------------------------------------------------------------------
 
 /**
  * Payload stored in api_data for payload_type = "my-reading".
  *
- * You have full freedom here — the core only sees JSON. Define whatever
- * structure makes sense for your data source. One adapter can have
- * multiple payload types with different interfaces.
+ * You have full freedom here — define whatever structure makes sense for
+ * your data source. List the schema in the adapter's `payloadSchemas` so
+ * storeApiData/storeBatchApiData validate each row and /v1/search etc.
+ * document the typed payload.
  */
-export interface MyReadingPayload {
+export const MyReadingPayloadSchema = z.object({
   // TODO: Define the shape stored in api_data.payload
-  value: number;
-  unit: string;
-  label: string;
+  value: z.number().openapi({ description: "The measured value", example: 22.5 }),
+  unit: z.string().openapi({ description: "Unit of measurement", example: "°C" }),
+  label: z.string().openapi({ description: "Human-readable label" }),
   // ... add more fields as needed
-}
+});
+
+export type MyReadingPayload = z.infer<typeof MyReadingPayloadSchema>;
 
 /**
  * Example of a second payload type for the same adapter.
  * Each payload type gets its own payload_type string in api_data.
  *
- * export interface MySummaryPayload {
- *   totalReadings: number;
- *   average: number;
- *   period: { from: string; to: string };
- * }
+ * export const MySummaryPayloadSchema = z.object({
+ *   totalReadings: z.number(),
+ *   average: z.number(),
+ *   period: z.object({ from: z.string(), to: z.string() }),
+ * });
  */
 
 // ---------------------------------------------------------------------------
@@ -15,8 +15,17 @@ import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import type { AdapterDefinition, AdapterContext } from "../../core/adapter";
 import { registry } from "../../core/registry";
 import { kvCache, cacheControl } from "../../core/cache";
+import { responseFormat, geoJsonResponse, featureCollection, payloadPoint } from "../../core/formats";
+import { FEED_MAX_ENTRIES, entryId, feedResponse, type FeedEntry } from "../../core/feeds";
+import { CAP_MEDIA_TYPE, capDateTime, capResponse, type CapAlert, type CapSeverity } from "../../core/cap";
+import { ColecaoGeoJsonSchema, ErroSchema, FormatoFeedSchema, RespostaCapSchema, conteudoFeed } from "../../api/schemas";
+import { apiData } from "../../db/schema";
+import { getDb, type Db } from "../../db/client";
+import { allTagsCondition, payloadField } from "../../api/filters";
+import { and, desc, eq, gte, lt, type SQL } from "drizzle-orm";
 import {
   IpmaSismosResponseSchema,
+  SismoPayloadSchema,
   SismoSchema,
   type IpmaSismoEvento,
   type SismoPayload,
@@ -114,6 +123,184 @@ async function obterSismos(ctx: AdapterContext): Promise<void> {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Auxiliar: resposta GeoJSON (um ponto por epicentro)
+// ---------------------------------------------------------------------------
+
+const FormatoSchema = z.enum(["json", "geojson"]).optional().openapi({
+  param: { name: "format", in: "query" },
+  description:
+    "Formato da resposta: `json` (omissão) ou `geojson` (também com `Accept: application/geo+json`) — um ponto por epicentro, para QGIS, Leaflet ou Mapbox",
+  example: "geojson",
+});
+
+function colecaoSismos(sismos: SismoPayload[]) {
+  const features = sismos.map((s) => ({
+    type: "Feature" as const,
+    id: s.sismoId,
+    geometry: payloadPoint({ ...s }),
+    properties: { ...s },
+  }));
+  return featureCollection(features, { total: sismos.length });
+}
+
+// ---------------------------------------------------------------------------
+// Auxiliar: sismos guardados (feed Atom/RSS e alertas CAP)
+// ---------------------------------------------------------------------------
+
+/** Página pública de sismologia no site do IPMA. */
+const PAGINA_SISMOLOGIA = "https://www.ipma.pt/pt/geofisica/sismologia/";
+
+interface FiltrosFeed {
+  area?: "todos" | "continental" | "acores";
+  magnitudeMinima?: number;
+  sentido?: boolean;
+}
+
+interface SismoGuardado {
+  /** Id do registo api_data. */
+  id: string;
+  dataEvento: Date;
+  recolhidoEm: Date;
+  etiquetas: string[];
+  sismo: SismoPayload;
+}
+
+/**
+ * Sismos guardados, do evento mais recente para o mais antigo. Cada registo
+ * api_data é uma entrada: uma revisão do IPMA (magnitude, intensidade)
+ * aparece como uma nova.
+ */
+async function sismosGuardados(db: Db, filtros: FiltrosFeed, condicoes: SQL[] = [], limite = FEED_MAX_ENTRIES) {
+  // Área e "sentido" são etiquetas do registo (ver obterSismos)
+  const etiquetas: string[] = [];
+  if (filtros.area && filtros.area !== "todos") etiquetas.push(filtros.area);
+  if (filtros.sentido !== undefined) etiquetas.push(filtros.sentido ? "sentido" : "nao-sentido");
+  if (filtros.magnitudeMinima !== undefined) {
+    condicoes = [...condicoes, gte(payloadField("magnitude"), filtros.magnitudeMinima)];
+  }
+
+  const linhas = await db
+    .select()
+    .from(apiData)
+    .where(
+      and(
+        eq(apiData.apiSource, adaptador.id),
+        eq(apiData.payloadType, "sismo"),
+        ...allTagsCondition(etiquetas),
+        ...condicoes,
+      ),
+    )
+    .orderBy(desc(apiData.timestamp), desc(apiData.seq))
+    .limit(limite);
+
+  return linhas.map(
+    (linha): SismoGuardado => ({
+      id: linha.id,
+      dataEvento: linha.timestamp,
+      recolhidoEm: linha.scrapedAt,
+      etiquetas: linha.tags ? (JSON.parse(linha.tags) as string[]) : [],
+      sismo: JSON.parse(linha.payload) as SismoPayload,
+    }),
+  );
+}
+
+function descricaoSismo(s: SismoPayload): string {
+  return [
+    `Magnitude ${s.magnitude} (${s.tipoMagnitude}) a ${s.profundidade} km de profundidade, ${s.regiao}, em ${s.dataEvento}.`,
+    s.intensidade ? `Intensidade máxima ${s.intensidade}.` : null,
+    s.sentido ? `Sentido${s.localSentido ? ` em ${s.localSentido}` : ""}.` : "Não sentido.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function entradaSismo({ id, dataEvento, recolhidoEm, etiquetas, sismo: s }: SismoGuardado): FeedEntry {
+  return {
+    id: entryId("api_data", id),
+    title: `M${s.magnitude} — ${s.regiao}`,
+    summary: descricaoSismo(s),
+    link: s.shakemapUrl ?? PAGINA_SISMOLOGIA,
+    published: dataEvento,
+    updated: recolhidoEm,
+    categories: etiquetas,
+    point: { latitude: s.latitude, longitude: s.longitude },
+  };
+}
+
+/** Gravidade CAP pela magnitude — uma aproximação, o IPMA não classifica os sismos. */
+function gravidadeSismo(magnitude: number): CapSeverity {
+  if (magnitude >= 6) return "Extreme";
+  if (magnitude >= 5) return "Severe";
+  if (magnitude >= 4) return "Moderate";
+  return "Minor";
+}
+
+/** Versões de um sismo lidas no máximo; o IPMA revê cada sismo poucas vezes. */
+const REVISOES_MAX_REGISTOS = 50;
+
+/** Versões guardadas antes desta do mesmo sismo (mesmo `sismoId`), da mais antiga para a mais recente. */
+async function versoesAnteriores(db: Db, g: SismoGuardado): Promise<SismoGuardado[]> {
+  const anteriores = await sismosGuardados(
+    db,
+    {},
+    [eq(payloadField("sismoId"), g.sismo.sismoId), lt(apiData.scrapedAt, g.recolhidoEm)],
+    REVISOES_MAX_REGISTOS,
+  );
+  return anteriores.sort((a, b) => a.recolhidoEm.getTime() - b.recolhidoEm.getTime());
+}
+
+/** Só a versão mais recente de cada sismo, pela ordem da lista. */
+function ultimasVersoes(sismos: SismoGuardado[]): SismoGuardado[] {
+  const ultimas = new Map<string, SismoGuardado>();
+  for (const g of sismos) {
+    const atual = ultimas.get(g.sismo.sismoId);
+    if (!atual || g.recolhidoEm > atual.recolhidoEm) ultimas.set(g.sismo.sismoId, g);
+  }
+  return sismos.filter((g) => ultimas.get(g.sismo.sismoId) === g);
+}
+
+/**
+ * Sismo como alerta CAP 1.2: um evento já ocorrido e observado, com o
+ * epicentro como área. Uma revisão é um Update que referencia as versões anteriores.
+ */
+function alertaCapSismo(g: SismoGuardado, anteriores: SismoGuardado[], sender: string, senderName: string): CapAlert {
+  const s = g.sismo;
+  const parametros = [
+    { valueName: "magnitude", value: String(s.magnitude) },
+    { valueName: "tipoMagnitude", value: s.tipoMagnitude },
+    { valueName: "profundidadeKm", value: String(s.profundidade) },
+  ];
+  if (s.intensidade) parametros.push({ valueName: "intensidade", value: s.intensidade });
+
+  return {
+    identifier: entryId("api_data", g.id),
+    sender,
+    sent: g.recolhidoEm,
+    references: anteriores.map((r) => ({ sender, identifier: entryId("api_data", r.id), sent: r.recolhidoEm })),
+    info: {
+      category: "Geo",
+      event: "Sismo",
+      urgency: "Past",
+      severity: gravidadeSismo(s.magnitude),
+      certainty: "Observed",
+      onset: capDateTime(g.dataEvento),
+      senderName,
+      headline: `Sismo de magnitude ${s.magnitude} — ${s.regiao}`,
+      description: descricaoSismo(s),
+      web: s.shakemapUrl ?? PAGINA_SISMOLOGIA,
+      parameters: parametros,
+      areas: [
+        {
+          areaDesc: s.localSentido ? `${s.regiao} (sentido em ${s.localSentido})` : s.regiao,
+          circles: [{ latitude: s.latitude, longitude: s.longitude, radiusKm: 0 }],
+          geocodes: [],
+        },
+      ],
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Rotas personalizadas
 // ---------------------------------------------------------------------------
@@ -146,6 +333,7 @@ function criarRotasSismos(def: AdapterDefinition) {
           .max(500)
           .default(100)
           .openapi({ description: "Número máximo de resultados", example: 100 }),
+        format: FormatoSchema,
       }),
     },
     responses: {
@@ -157,6 +345,7 @@ function criarRotasSismos(def: AdapterDefinition) {
               dados: z.array(SismoSchema),
             }),
           },
+          "application/geo+json": { schema: ColecaoGeoJsonSchema },
         },
         description: "Sismos recentes",
       },
@@ -193,6 +382,10 @@ function criarRotasSismos(def: AdapterDefinition) {
 
     const limitados = todos.slice(0, limite);
 
+    if (responseFormat(c) === "geojson") {
+      return geoJsonResponse(c, colecaoSismos(limitados));
+    }
+
     return c.json({
       total: limitados.length,
       dados: limitados,
@@ -206,6 +399,11 @@ function criarRotasSismos(def: AdapterDefinition) {
     path: "/sentidos",
     tags: [tag],
     summary: "Obter sismos sentidos pela população (últimos 30 dias)",
+    request: {
+      query: z.object({
+        format: FormatoSchema,
+      }),
+    },
     responses: {
       200: {
         content: {
@@ -215,6 +413,7 @@ function criarRotasSismos(def: AdapterDefinition) {
               dados: z.array(SismoSchema),
             }),
           },
+          "application/geo+json": { schema: ColecaoGeoJsonSchema },
         },
         description: "Sismos sentidos pela população",
       },
@@ -242,12 +441,162 @@ function criarRotasSismos(def: AdapterDefinition) {
 
     sentidos.sort((a, b) => new Date(b.dataEvento).getTime() - new Date(a.dataEvento).getTime());
 
+    if (responseFormat(c) === "geojson") {
+      return geoJsonResponse(c, colecaoSismos(sentidos));
+    }
+
     return c.json({
       total: sentidos.length,
       dados: sentidos,
     });
   });
 
+  // ── GET /feed ──────────────────────────────────────────────────────────
+
+  const rotaFeed = createRoute({
+    method: "get",
+    path: "/feed",
+    tags: [tag],
+    summary: "Feed Atom/RSS dos sismos recentes",
+    description: `Os ${FEED_MAX_ENTRIES} sismos guardados mais recentes, como feed Atom (predefinido) ou RSS, com o epicentro em GeoRSS. Cada entrada corresponde a um registo api_data e tem um identificador estável derivado do seu id.`,
+    request: {
+      query: z.object({
+        area: z
+          .enum(["todos", "continental", "acores"])
+          .optional()
+          .openapi({ description: "Filtrar por área geográfica (omissão: todos)", example: "acores" }),
+        magnitudeMinima: z.coerce
+          .number()
+          .optional()
+          .openapi({ description: "Magnitude mínima a incluir", example: 3 }),
+        sentido: z
+          .enum(["true", "false"])
+          .optional()
+          .openapi({ description: "Só sismos sentidos (`true`) ou não sentidos (`false`) pela população", example: "true" }),
+        format: FormatoFeedSchema.optional().openapi({ param: { name: "format", in: "query" } }),
+      }),
+    },
+    responses: {
+      200: {
+        content: conteudoFeed,
+        description: "Feed de sismos",
+      },
+    },
+  });
+
+  app.use("/feed", kvCache({ ttlSeconds: 600 }));
+  app.use("/feed", cacheControl(300, 600));
+
+  app.openapi(rotaFeed, async (c) => {
+    const { area, magnitudeMinima, sentido } = c.req.valid("query");
+
+    return feedResponse(c, {
+      title: "Sismos recentes (IPMA)",
+      subtitle: "Atividade sísmica em Portugal Continental, Madeira e Açores",
+      selfUrl: c.req.url,
+      link: PAGINA_SISMOLOGIA,
+      author: def.publisher!,
+      entries: (
+        await sismosGuardados(getDb(c.env), {
+          area,
+          magnitudeMinima,
+          sentido: sentido === undefined ? undefined : sentido === "true",
+        })
+      ).map(entradaSismo),
+    });
+  });
+
+  // ── GET /cap ───────────────────────────────────────────────────────────
+
+  const rotaCap = createRoute({
+    method: "get",
+    path: "/cap",
+    tags: [tag],
+    summary: "Índice CAP dos sismos sentidos",
+    description: `Índice (Atom, ou RSS com \`format=rss\`) dos ${FEED_MAX_ENTRIES} sismos sentidos pela população mais recentes, em que cada entrada liga ao alerta CAP 1.2 (Common Alerting Protocol) da versão mais recente do sismo em /cap/{id}, para agregadores de alertas.`,
+    request: {
+      query: z.object({
+        area: z
+          .enum(["todos", "continental", "acores"])
+          .optional()
+          .openapi({ description: "Filtrar por área geográfica (omissão: todos)", example: "acores" }),
+        magnitudeMinima: z.coerce
+          .number()
+          .optional()
+          .openapi({ description: "Magnitude mínima a incluir", example: 3 }),
+        format: FormatoFeedSchema.optional().openapi({ param: { name: "format", in: "query" } }),
+      }),
+    },
+    responses: {
+      200: {
+        content: conteudoFeed,
+        description: "Índice CAP de sismos sentidos",
+      },
+    },
+  });
+
+  app.use("/cap", kvCache({ ttlSeconds: 600 }));
+  app.use("/cap", cacheControl(300, 600));
+
+  app.openapi(rotaCap, async (c) => {
+    const { area, magnitudeMinima } = c.req.valid("query");
+    const base = `${new URL(c.req.url).origin}/v1/${def.id}/cap`;
+    const sismos = ultimasVersoes(await sismosGuardados(getDb(c.env), { area, magnitudeMinima, sentido: true }));
+
+    return feedResponse(c, {
+      title: "Alertas CAP — sismos sentidos (IPMA)",
+      subtitle: "Sismos sentidos em Portugal Continental, Madeira e Açores em Common Alerting Protocol 1.2",
+      selfUrl: c.req.url,
+      link: PAGINA_SISMOLOGIA,
+      author: def.publisher!,
+      entries: sismos.map((g) => ({ ...entradaSismo(g), link: `${base}/${encodeURIComponent(g.id)}`, linkType: CAP_MEDIA_TYPE })),
+    });
+  });
+
+  // ── GET /cap/{id} ──────────────────────────────────────────────────────
+
+  const rotaSismoCap = createRoute({
+    method: "get",
+    path: "/cap/{id}",
+    tags: [tag],
+    summary: "Sismo como alerta CAP 1.2",
+    description:
+      "Um sismo guardado como alerta CAP 1.2 (`category` Geo, `urgency` Past, `certainty` Observed), com `onset` na hora do evento, o epicentro como área e a magnitude, profundidade e intensidade em `parameter`. A `severity` é aproximada pela magnitude: abaixo de 4 Minor, 4 Moderate, 5 Severe, 6 ou mais Extreme. Uma revisão do IPMA (mesmo `sismoId`) é publicada com `msgType` Update e `references` para as versões anteriores do mesmo sismo.",
+    request: {
+      params: z.object({
+        id: z.string().openapi({
+          param: { name: "id", in: "path" },
+          description: "Identificador do registo api_data do sismo (ligação no índice /cap)",
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        content: { [CAP_MEDIA_TYPE]: { schema: RespostaCapSchema } },
+        description: "Alerta CAP 1.2",
+      },
+      404: {
+        content: { "application/json": { schema: ErroSchema } },
+        description: "Sismo não encontrado",
+      },
+    },
+  });
+
+  app.use("/cap/:id", kvCache({ ttlSeconds: 3600 }));
+  app.use("/cap/:id", cacheControl(1800, 3600));
+
+  app.openapi(rotaSismoCap, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = getDb(c.env);
+    const [sismo] = await sismosGuardados(db, {}, [eq(apiData.id, id)], 1);
+    if (!sismo) {
+      return c.json({ error: "Earthquake not found" } as const, 404);
+    }
+
+    const anteriores = await versoesAnteriores(db, sismo);
+    return capResponse(c, alertaCapSismo(sismo, anteriores, new URL(c.req.url).hostname, def.publisher!.name));
+  });
+
   // ── GET /resumo ────────────────────────────────────────────────────────
 
   const rotaResumo = createRoute({
@@ -347,8 +696,12 @@ const adaptador: AdapterDefinition = {
 
   openApiTag: "Sismos (IPMA)",
 
+  publisher: { name: "Instituto Português do Mar e da Atmosfera (IPMA)", url: "https://www.ipma.pt/" },
+
   features: { hasLocations: false },
 
+  payloadSchemas: { sismo: SismoPayloadSchema },
+
   schedules: [
     {
       frequency: "hourly",
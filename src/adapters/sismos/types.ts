@@ -1,7 +1,7 @@
 /**
  * ─── Tipos do Adaptador Sismos (IPMA) ─────────────────────────────────────
  *
- * Schemas upstream, interfaces de payload e schemas de resposta da API
+ * Schemas upstream, schemas de payload e schemas de resposta da API
  * para o adaptador de sismologia do IPMA.
  *
  * Abrange:
@@ -51,43 +51,31 @@ export const IpmaSismosResponseSchema = z.object({
 export type IpmaSismosResponse = z.infer<typeof IpmaSismosResponseSchema>;
 
 // ===========================================================================
-// 2. Interfaces de payload (o que fica em api_data.payload)
+// 2. Schemas de payload (o que fica em api_data.payload)
 // ===========================================================================
 
-export interface SismoPayload {
-  sismoId: string;
-  dataEvento: string;
-  latitude: number;
-  longitude: number;
-  profundidade: number;
-  magnitude: number;
-  tipoMagnitude: string;
-  regiao: string;
-  intensidade: string | null;
-  sentido: boolean;
-  localSentido: string | null;
-  fonte: string;
-  shakemapUrl: string | null;
-}
+/** Payload para payload_type = "sismo" — validado ao guardar (ver `payloadSchemas`). */
+export const SismoPayloadSchema = z.object({
+  sismoId: z.string().openapi({ description: "Identificador único do evento sísmico" }),
+  dataEvento: z.string().openapi({ description: "Data e hora do evento (ISO 8601)" }),
+  latitude: z.number().openapi({ description: "Latitude do epicentro", example: 38.72 }),
+  longitude: z.number().openapi({ description: "Longitude do epicentro", example: -9.14 }),
+  profundidade: z.number().openapi({ description: "Profundidade em km", example: 10 }),
+  magnitude: z.number().openapi({ description: "Magnitude do evento", example: 2.1 }),
+  tipoMagnitude: z.string().openapi({ description: "Tipo de magnitude (ex.: L = Richter local)", example: "L" }),
+  regiao: z.string().openapi({ description: "Região observada", example: "NE Arraiolos" }),
+  intensidade: z.string().nullable().openapi({ description: "Intensidade na escala de Mercalli (ex.: III/IV)" }),
+  sentido: z.boolean().openapi({ description: "Se o sismo foi sentido pela população" }),
+  localSentido: z.string().nullable().openapi({ description: "Locais onde o sismo foi sentido" }),
+  fonte: z.string().openapi({ description: "Fonte dos dados", example: "IPMA" }),
+  shakemapUrl: z.string().nullable().openapi({ description: "URL do mapa de intensidade (shakemap)" }),
+});
+
+export type SismoPayload = z.infer<typeof SismoPayloadSchema>;
 
 // ===========================================================================
 // 3. Schemas de resposta da API (para rotas personalizadas)
 // ===========================================================================
 
-export const SismoSchema = z
-  .object({
-    sismoId: z.string().openapi({ description: "Identificador único do evento sísmico" }),
-    dataEvento: z.string().openapi({ description: "Data e hora do evento (ISO 8601)" }),
-    latitude: z.number().openapi({ description: "Latitude do epicentro", example: 38.72 }),
-    longitude: z.number().openapi({ description: "Longitude do epicentro", example: -9.14 }),
-    profundidade: z.number().openapi({ description: "Profundidade em km", example: 10 }),
-    magnitude: z.number().openapi({ description: "Magnitude do evento", example: 2.1 }),
-    tipoMagnitude: z.string().openapi({ description: "Tipo de magnitude (ex.: L = Richter local)", example: "L" }),
-    regiao: z.string().openapi({ description: "Região observada", example: "NE Arraiolos" }),
-    intensidade: z.string().nullable().openapi({ description: "Intensidade na escala de Mercalli (ex.: III/IV)" }),
-    sentido: z.boolean().openapi({ description: "Se o sismo foi sentido pela população" }),
-    localSentido: z.string().nullable().openapi({ description: "Locais onde o sismo foi sentido" }),
-    fonte: z.string().openapi({ description: "Fonte dos dados", example: "IPMA" }),
-    shakemapUrl: z.string().nullable().openapi({ description: "URL do mapa de intensidade (shakemap)" }),
-  })
-  .openapi("Sismo");
+/** As rotas devolvem o payload tal como está guardado. */
+export const SismoSchema = SismoPayloadSchema.openapi("Sismo");
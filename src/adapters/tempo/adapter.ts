@@ -15,6 +15,10 @@
  * Dados de referência disponíveis como rotas personalizadas (tipos de
  * tempo, classes de vento, classes de precipitação, locais, estações).
  *
+ * A rota /condicoes-atuais responde a coordenadas com os dados já
+ * ingeridos das estações e da cidade mais próximas (com interpolação IDW
+ * opcional).
+ *
  * ──────────────────────────────────────────────────────────────────────────
  */
 
@@ -22,8 +26,16 @@ import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import { HTTPException } from "hono/http-exception";
 import type { AdapterDefinition, AdapterContext } from "../../core/adapter";
 import { registry } from "../../core/registry";
-import { locations } from "../../db/schema";
+import { locations, apiData } from "../../db/schema";
+import { getDb, type Db } from "../../db/client";
 import { kvCache, cacheControl } from "../../core/cache";
+import { nearestLocations, type GeoPoint, type RankedLocation } from "../../core/geo";
+import { FEED_MAX_ENTRIES, entryId, feedResponse, type FeedEntry } from "../../core/feeds";
+import { CAP_MEDIA_TYPE, capResponse, type CapAlert, type CapSeverity } from "../../core/cap";
+import { icsResponse, type CalendarEvent } from "../../core/ical";
+import { ErroSchema, FormatoFeedSchema, RespostaCapSchema, conteudoFeed } from "../../api/schemas";
+import { payloadField } from "../../api/filters";
+import { and, desc, eq, gt, gte, inArray, lte, sql, type SQL } from "drizzle-orm";
 import {
   // Schemas upstream
   IpmaLocaisResponseSchema,
@@ -50,6 +62,18 @@ import {
   ClassePrecipitacaoRefSchema,
   LocalIpmaRefSchema,
   EstacaoRefSchema,
+  CondicoesAtuaisSchema,
+  // Schemas de payload
+  PrevisaoDiariaPayloadSchema,
+  AvisoMeteorologicoPayloadSchema,
+  PrevisaoMarPayloadSchema,
+  RiscoIncendioPayloadSchema,
+  IndiceUvPayloadSchema,
+  ObservacaoEstacaoPayloadSchema,
+  type PrevisaoDiariaPayload,
+  type AvisoMeteorologicoPayload,
+  type IndiceUvPayload,
+  type ObservacaoEstacaoPayload,
 } from "./types";
 
 // ---------------------------------------------------------------------------
@@ -344,6 +368,9 @@ async function obterAvisos(ctx: AdapterContext): Promise<void> {
   ctx.log("A obter avisos meteorológicos...");
   const avisos = await ipmaFetch(URLS.avisos, IpmaAvisosResponseSchema);
 
+  // Snapshot da lista completa publicada pelo IPMA (incluindo avisos verdes)
+  await ctx.storeSnapshot(adaptador.id, "avisos", avisos);
+
   // Armazenar apenas avisos ativos (não verdes)
   const ativos = avisos.filter((a) => a.awarenessLevelID !== "green");
 
@@ -517,6 +544,508 @@ async function obterObservacoesEstacoes(ctx: AdapterContext): Promise<void> {
   ctx.log(`Armazenadas ${todosItens.length} observações de estações.`);
 }
 
+// ---------------------------------------------------------------------------
+// Auxiliar: condições atuais num ponto (estações e cidades mais próximas)
+// ---------------------------------------------------------------------------
+
+/** Uma observação com mais de 3 horas já não conta como "atual". */
+const OBSERVACAO_VALIDADE_MS = 3 * 60 * 60 * 1000;
+
+/** Estações candidatas por estação pedida (muitas estão offline a cada hora). */
+const ESTACOES_CANDIDATAS_POR_PEDIDA = 4;
+
+/** Cidades candidatas para previsão e índice UV (nem todas têm índice UV). */
+const CIDADES_CANDIDATAS = 10;
+
+/** Abaixo desta distância (km) a estação é usada diretamente, sem IDW. */
+const DISTANCIA_COINCIDENTE_KM = 0.05;
+
+const CAMPOS_INTERPOLAVEIS = [
+  "temperatura",
+  "humidade",
+  "pressao",
+  "intensidadeVento",
+  "intensidadeVentoKM",
+  "precipitacaoAcumulada",
+  "radiacao",
+] as const;
+
+/**
+ * Registos de um payload_type deste adaptador para os locais indicados,
+ * desde `desde`, agrupados por local (mais recentes primeiro).
+ */
+async function registosPorLocal<T>(
+  db: Db,
+  payloadType: string,
+  locais: RankedLocation[],
+  desde: Date,
+): Promise<Map<string, Array<{ timestamp: Date; payload: T }>>> {
+  const porLocal = new Map<string, Array<{ timestamp: Date; payload: T }>>();
+  if (locais.length === 0) return porLocal;
+
+  const linhas = await db
+    .select({ locationId: apiData.locationId, timestamp: apiData.timestamp, payload: apiData.payload })
+    .from(apiData)
+    .where(
+      and(
+        eq(apiData.apiSource, adaptador.id),
+        eq(apiData.payloadType, payloadType),
+        gte(apiData.timestamp, desde),
+        inArray(apiData.locationId, locais.map((l) => l.row.id)),
+      ),
+    )
+    .orderBy(desc(apiData.timestamp), desc(apiData.scrapedAt));
+
+  for (const linha of linhas) {
+    const lista = porLocal.get(linha.locationId!) ?? [];
+    lista.push({ timestamp: linha.timestamp, payload: JSON.parse(linha.payload) as T });
+    porLocal.set(linha.locationId!, lista);
+  }
+  return porLocal;
+}
+
+/**
+ * Dados diários (previsão, índice UV) do local mais próximo que os tem,
+ * a partir de hoje — um registo por dia, o mais recentemente ingerido.
+ */
+async function diariosDoLocalMaisProximo<T>(
+  db: Db,
+  payloadType: string,
+  cidades: RankedLocation[],
+  chaveDia: (payload: T) => string,
+) {
+  const hoje = new Date();
+  hoje.setUTCHours(0, 0, 0, 0);
+  const porLocal = await registosPorLocal<T>(db, payloadType, cidades, hoje);
+
+  const cidade = cidades.find((c) => porLocal.has(c.row.id));
+  if (!cidade) return null;
+
+  const porDia = new Map<string, T>();
+  for (const { payload } of porLocal.get(cidade.row.id)!) {
+    if (!porDia.has(chaveDia(payload))) porDia.set(chaveDia(payload), payload);
+  }
+  return {
+    cidade,
+    dados: [...porDia.entries()].sort(([a], [b]) => (a < b ? -1 : 1)).map(([, payload]) => payload),
+  };
+}
+
+/**
+ * Interpolação por inverso do quadrado da distância (IDW). Valores em falta
+ * no IPMA (-99) são ignorados campo a campo; uma estação praticamente no
+ * ponto pedido é usada diretamente.
+ */
+function interpolarIdw(leituras: Array<{ distanciaKm: number; observacao: ObservacaoEstacaoPayload }>) {
+  const coincidente = leituras.find((l) => l.distanciaKm < DISTANCIA_COINCIDENTE_KM);
+  const usadas = coincidente ? [coincidente] : leituras;
+  const pesos = usadas.map((l) => 1 / l.distanciaKm ** 2);
+  const somaPesos = pesos.reduce((a, b) => a + b, 0);
+
+  const valores = {} as Record<(typeof CAMPOS_INTERPOLAVEIS)[number], number | null>;
+  for (const campo of CAMPOS_INTERPOLAVEIS) {
+    let soma = 0;
+    let pesoCampo = 0;
+    usadas.forEach((l, i) => {
+      const valor = l.observacao[campo];
+      if (typeof valor !== "number" || valor === -99) return;
+      const peso = coincidente ? 1 : pesos[i];
+      soma += valor * peso;
+      pesoCampo += peso;
+    });
+    valores[campo] = pesoCampo > 0 ? Math.round((soma / pesoCampo) * 10) / 10 : null;
+  }
+
+  return {
+    valores,
+    pesos: new Map(
+      leituras.map((l) => [
+        l,
+        coincidente ? (l === coincidente ? 1 : 0) : Math.round((1 / l.distanciaKm ** 2 / somaPesos) * 1000) / 1000,
+      ]),
+    ),
+  };
+}
+
+/** Estações e cidades mais próximas de um ponto, com as respetivas leituras e previsões. */
+async function condicoesAtuais(db: Db, ponto: GeoPoint, numEstacoes: number, interpolar: boolean) {
+  const [candidatas, cidades] = await Promise.all([
+    nearestLocations(db, [eq(locations.type, "station")], ponto, numEstacoes * ESTACOES_CANDIDATAS_POR_PEDIDA),
+    nearestLocations(db, [eq(locations.type, "city")], ponto, CIDADES_CANDIDATAS),
+  ]);
+
+  const [observacoes, previsao, uv] = await Promise.all([
+    registosPorLocal<ObservacaoEstacaoPayload>(
+      db,
+      "observacao-estacao",
+      candidatas.slice(0, numEstacoes * ESTACOES_CANDIDATAS_POR_PEDIDA),
+      new Date(Date.now() - OBSERVACAO_VALIDADE_MS),
+    ),
+    diariosDoLocalMaisProximo<PrevisaoDiariaPayload>(db, "previsao-diaria", cidades, (p) => p.dataPrevisao),
+    diariosDoLocalMaisProximo<IndiceUvPayload>(db, "indice-uv", cidades, (p) => p.data),
+  ]);
+
+  // Estações com leitura recente, da mais próxima para a mais distante
+  const leituras = candidatas
+    .filter((e) => observacoes.has(e.row.id))
+    .slice(0, numEstacoes)
+    .map((e) => ({ estacao: e, distanciaKm: e.distanceKm, observacao: observacoes.get(e.row.id)![0].payload }));
+
+  const idw = interpolar && leituras.length > 1 ? interpolarIdw(leituras) : null;
+  const maisProxima = leituras[0];
+
+  const observacao = maisProxima
+    ? {
+        dataObservacao: leituras.map((l) => l.observacao.dataObservacao).sort().reverse()[0],
+        interpolada: idw !== null,
+        ...(idw
+          ? idw.valores
+          : Object.fromEntries(
+              CAMPOS_INTERPOLAVEIS.map((campo) => {
+                const valor = maisProxima.observacao[campo];
+                return [campo, valor === -99 ? null : valor];
+              }),
+            ) as Record<(typeof CAMPOS_INTERPOLAVEIS)[number], number | null>),
+        idDireccVento: maisProxima.observacao.idDireccVento === -99 ? null : maisProxima.observacao.idDireccVento,
+      }
+    : null;
+
+  const localUsado = (l: RankedLocation) => ({ localidade: l.row.id, nome: l.row.name, distanciaKm: l.distanceKm });
+
+  const estacoes = leituras.map((l) => ({
+    ...localUsado(l.estacao),
+    peso: idw ? idw.pesos.get(l)! : null,
+    observacao: { ...l.observacao, localidade: l.estacao.row.id },
+  }));
+
+  return {
+    latitude: ponto.latitude,
+    longitude: ponto.longitude,
+    observacao,
+    estacoes,
+    previsao: previsao
+      ? {
+          ...localUsado(previsao.cidade),
+          dados: previsao.dados.map((p) => ({ ...p, localidade: previsao.cidade.row.id })),
+        }
+      : null,
+    indiceUv: uv ? { ...localUsado(uv.cidade), dados: uv.dados } : null,
+    localidadesUsadas: [
+      ...new Set([
+        ...estacoes.map((e) => e.localidade),
+        ...(previsao ? [previsao.cidade.row.id] : []),
+        ...(uv ? [uv.cidade.row.id] : []),
+      ]),
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Auxiliar: avisos guardados (feed Atom/RSS e alertas CAP)
+// ---------------------------------------------------------------------------
+
+const NOMES_NIVEL: Record<string, string> = { yellow: "amarelo", orange: "laranja", red: "vermelho" };
+
+/** Gravidade CAP de cada nível, como no MeteoAlarm. */
+const GRAVIDADE_CAP: Record<string, CapSeverity> = { yellow: "Moderate", orange: "Severe", red: "Extreme" };
+
+/** Códigos MeteoAlarm (`awareness_level` / `awareness_type`) para agregadores europeus. */
+const NIVEL_METEOALARM: Record<string, string> = { yellow: "2; yellow; Moderate", orange: "3; orange; Severe", red: "4; red; Extreme" };
+const TIPO_METEOALARM: Record<string, string> = {
+  "Vento": "1; Wind",
+  "Neve": "2; snow-ice",
+  "Trovoada": "3; Thunderstorm",
+  "Nevoeiro": "4; Fog",
+  "Tempo Quente": "5; high-temperature",
+  "Tempo Frio": "6; low-temperature",
+  "Agitação Marítima": "7; coastalevent",
+  "Precipitação": "10; Rain",
+};
+
+/** Página pública dos avisos no site do IPMA. */
+const PAGINA_AVISOS = "https://www.ipma.pt/pt/otempo/prev-sam/";
+
+/**
+ * Hora atual em Lisboa, no formato das horas dos avisos do IPMA
+ * ("2026-10-20T16:29:47", hora local sem fuso), para comparar com `fim`.
+ */
+function agoraEmLisboa(): string {
+  return new Date()
+    .toLocaleString("sv-SE", { timeZone: "Europe/Lisbon", hour12: false })
+    .replace(" ", "T");
+}
+
+/** Hora local de um aviso com o desvio de Lisboa nessa data, como exige o CAP. */
+function horaLisboaCap(local: string): string {
+  // Perto da mudança de hora o desvio pode ser o da hora anterior; é a melhor aproximação sem fuso
+  const fuso = new Intl.DateTimeFormat("en-US", { timeZone: "Europe/Lisbon", timeZoneName: "longOffset" })
+    .formatToParts(new Date(`${local.slice(0, 19)}Z`))
+    .find((p) => p.type === "timeZoneName")?.value;
+  return `${local.slice(0, 19)}${fuso && fuso !== "GMT" ? fuso.slice(3) : "+00:00"}`;
+}
+
+interface AreaAviso {
+  nome: string;
+  /** Cidades da área com coordenadas. */
+  pontos: Array<{ latitude: number; longitude: number }>;
+}
+
+/** Cidades por área de aviso (idAreaAviso → "Lisboa" e as suas coordenadas). */
+async function areasAviso(db: Db, codigos: string[]): Promise<Map<string, AreaAviso>> {
+  const areas = new Map<string, AreaAviso>();
+  if (codigos.length === 0) return areas;
+
+  const codigo = sql<string>`json_extract(${locations.metadata}, '$.idAreaAviso')`;
+  const linhas = await db
+    .select({ codigo, nome: locations.name, latitude: locations.latitude, longitude: locations.longitude })
+    .from(locations)
+    .where(and(eq(locations.type, "city"), inArray(codigo, codigos)));
+  for (const linha of linhas) {
+    const area = areas.get(linha.codigo) ?? { nome: linha.nome, pontos: [] };
+    if (linha.latitude !== null && linha.longitude !== null) {
+      area.pontos.push({ latitude: linha.latitude, longitude: linha.longitude });
+    }
+    areas.set(linha.codigo, area);
+  }
+  return areas;
+}
+
+interface AvisoGuardado {
+  /** Id do registo api_data. */
+  id: string;
+  recolhidoEm: Date;
+  aviso: AvisoMeteorologicoPayload;
+  area: AreaAviso;
+}
+
+/**
+ * Avisos guardados, do mais recente para o mais antigo. Cada registo
+ * api_data é um aviso: um aviso revisto pelo IPMA aparece como um novo.
+ */
+async function avisosGuardados(db: Db, condicoes: SQL[], limite: number): Promise<AvisoGuardado[]> {
+  const linhas = await db
+    .select()
+    .from(apiData)
+    .where(and(eq(apiData.apiSource, adaptador.id), eq(apiData.payloadType, "aviso-meteorologico"), ...condicoes))
+    .orderBy(desc(apiData.scrapedAt), desc(apiData.seq))
+    .limit(limite);
+
+  const avisos = linhas.map((l) => ({ linha: l, aviso: JSON.parse(l.payload) as AvisoMeteorologicoPayload }));
+  const areas = await areasAviso(db, [...new Set(avisos.map((a) => a.aviso.idAreaAviso))]);
+
+  return avisos.map(({ linha, aviso }) => ({
+    id: linha.id,
+    recolhidoEm: linha.scrapedAt,
+    aviso,
+    area: areas.get(aviso.idAreaAviso) ?? { nome: aviso.idAreaAviso, pontos: [] },
+  }));
+}
+
+/** Registos lidos por consulta de avisos em vigor (avisos e as suas revisões). */
+const REVISOES_MAX_REGISTOS = 500;
+
+/** Um aviso com as revisões que o IPMA publicou dele. */
+interface AvisoRevisto {
+  /** A revisão mais recente. */
+  atual: AvisoGuardado;
+  /** Revisões anteriores, da mais recente para a primeira guardada. */
+  anteriores: AvisoGuardado[];
+}
+
+/** A primeira versão guardada de um aviso, que lhe dá identificadores estáveis. */
+function primeiraVersao(a: AvisoRevisto): AvisoGuardado {
+  return a.anteriores.at(-1) ?? a.atual;
+}
+
+/**
+ * Se `revisao`, guardada depois de `anterior`, é uma revisão do mesmo aviso.
+ * O IPMA não dá identificadores aos avisos e uma revisão pode mudar o nível,
+ * o texto e o período (início incluído); mantém a área e o tipo, e o novo
+ * período sobrepõe-se ao anterior. Avisos da mesma recolha nunca se revêem.
+ */
+function revisaoDe(revisao: AvisoGuardado, anterior: AvisoGuardado): boolean {
+  const a = anterior.aviso;
+  const r = revisao.aviso;
+  return (
+    revisao.recolhidoEm > anterior.recolhidoEm &&
+    r.idAreaAviso === a.idAreaAviso &&
+    r.tipoAviso === a.tipoAviso &&
+    r.inicio < a.fim &&
+    a.inicio < r.fim
+  );
+}
+
+/**
+ * Agrupa revisões (da mais recente para a mais antiga) por aviso, do aviso
+ * revisto mais recentemente para o mais antigo.
+ */
+function agruparRevisoes(revisoes: AvisoGuardado[]): AvisoRevisto[] {
+  const avisos: AvisoRevisto[] = [];
+  // Da mais antiga para a mais recente, cada versão revê o aviso cuja versão atual substitui
+  for (const a of [...revisoes].reverse()) {
+    const revisto = avisos.find((r) => revisaoDe(a, r.atual));
+    if (revisto) {
+      revisto.anteriores.unshift(revisto.atual);
+      revisto.atual = a;
+    } else {
+      avisos.push({ atual: a, anteriores: [] });
+    }
+  }
+  const posicao = new Map(revisoes.map((a, i) => [a, i]));
+  return avisos.sort((x, y) => posicao.get(x.atual)! - posicao.get(y.atual)!);
+}
+
+/**
+ * Avisos que ainda não terminaram, cada um uma só vez com a sua revisão
+ * mais recente, do mais recentemente revisto para o mais antigo.
+ * `condicoes` só devem restringir a área: um aviso encurtado ou baixado de
+ * nível pelo IPMA é decidido pela revisão mais recente, não pelas anteriores.
+ */
+async function avisosEmVigor(db: Db, condicoes: SQL[]): Promise<AvisoRevisto[]> {
+  const agora = agoraEmLisboa();
+  const ativos = await avisosGuardados(db, [...condicoes, gt(payloadField("fim"), agora)], REVISOES_MAX_REGISTOS);
+  if (ativos.length === 0) return [];
+
+  // Todas as revisões destes avisos, incluindo as que já não estão ativas: têm os
+  // mesmos tipos e terminam depois do início de algum deles
+  const tipos = [...new Set(ativos.map((a) => a.aviso.tipoAviso))];
+  const inicio = ativos.reduce((min, a) => (a.aviso.inicio < min ? a.aviso.inicio : min), ativos[0].aviso.inicio);
+  const revisoes = await avisosGuardados(
+    db,
+    [...condicoes, inArray(payloadField("tipoAviso"), tipos), gt(payloadField("fim"), inicio)],
+    REVISOES_MAX_REGISTOS,
+  );
+  return agruparRevisoes(revisoes).filter((a) => a.atual.aviso.fim > agora);
+}
+
+/** Um registo de aviso com as revisões que o precederam; null se não existir. */
+async function revisaoAviso(db: Db, id: string): Promise<AvisoRevisto | null> {
+  const [guardado] = await avisosGuardados(db, [eq(apiData.id, id)], 1);
+  if (!guardado) return null;
+
+  const { aviso } = guardado;
+  const revisoes = await avisosGuardados(
+    db,
+    [
+      eq(payloadField("idAreaAviso"), aviso.idAreaAviso),
+      eq(payloadField("tipoAviso"), aviso.tipoAviso),
+      lte(apiData.scrapedAt, guardado.recolhidoEm),
+    ],
+    REVISOES_MAX_REGISTOS,
+  );
+  // Só se leram versões até esta, pelo que é a atual do seu aviso
+  return agruparRevisoes(revisoes).find((g) => g.atual.id === id) ?? { atual: guardado, anteriores: [] };
+}
+
+/** Avisos em vigor, opcionalmente de um nível e de algumas áreas. */
+async function avisosAtivos(db: Db, nivel?: string, areas: string[] = []): Promise<AvisoRevisto[]> {
+  const condicoes = areas.length > 0 ? [inArray(payloadField("idAreaAviso"), areas)] : [];
+  const avisos = await avisosEmVigor(db, condicoes);
+  return avisos.filter((a) => !nivel || a.atual.aviso.nivelAviso === nivel).slice(0, FEED_MAX_ENTRIES);
+}
+
+function tituloAviso({ aviso, area }: AvisoGuardado): string {
+  return `Aviso ${NOMES_NIVEL[aviso.nivelAviso] ?? aviso.nivelAviso} — ${aviso.tipoAviso} — ${area.nome}`;
+}
+
+/** Entrada com o id e a data da primeira versão, para que uma revisão atualize a entrada em vez de a repetir. */
+function entradaAviso(a: AvisoRevisto): FeedEntry {
+  const { atual } = a;
+  const { aviso } = atual;
+  const primeira = primeiraVersao(a);
+  const periodo = `De ${aviso.inicio.replace("T", " ")} a ${aviso.fim.replace("T", " ")}.`;
+  return {
+    id: entryId("api_data", primeira.id),
+    title: tituloAviso(atual),
+    summary: aviso.texto ? `${periodo} ${aviso.texto}` : periodo,
+    link: PAGINA_AVISOS,
+    published: primeira.recolhidoEm,
+    updated: atual.recolhidoEm,
+    categories: [aviso.nivelAviso, aviso.tipoAviso, aviso.idAreaAviso],
+  };
+}
+
+/**
+ * Aviso como alerta CAP 1.2: nível → gravidade, tipo → evento, inicio/fim →
+ * onset/expires. Uma revisão é um Update que referencia as versões anteriores.
+ */
+function alertaCapAviso(revisto: AvisoRevisto, sender: string, senderName: string): CapAlert {
+  const { atual: a, anteriores } = revisto;
+  const { aviso, area } = a;
+  const parametros = [{ valueName: "awareness_level", value: NIVEL_METEOALARM[aviso.nivelAviso] ?? aviso.nivelAviso }];
+  if (TIPO_METEOALARM[aviso.tipoAviso]) {
+    parametros.push({ valueName: "awareness_type", value: TIPO_METEOALARM[aviso.tipoAviso] });
+  }
+
+  return {
+    identifier: entryId("api_data", a.id),
+    sender,
+    sent: a.recolhidoEm,
+    references: anteriores
+      .map((r) => ({ sender, identifier: entryId("api_data", r.id), sent: r.recolhidoEm }))
+      .reverse(),
+    info: {
+      category: "Met",
+      event: aviso.tipoAviso,
+      urgency: aviso.inicio <= agoraEmLisboa() ? "Immediate" : "Expected",
+      severity: GRAVIDADE_CAP[aviso.nivelAviso] ?? "Unknown",
+      certainty: "Likely",
+      onset: horaLisboaCap(aviso.inicio),
+      expires: horaLisboaCap(aviso.fim),
+      senderName,
+      headline: tituloAviso(a),
+      description: aviso.texto || tituloAviso(a),
+      web: PAGINA_AVISOS,
+      parameters: parametros,
+      areas: [
+        {
+          areaDesc: area.nome,
+          circles: area.pontos.map((p) => ({ ...p, radiusKm: 0 })),
+          geocodes: [{ valueName: "IPMA_AREA_AVISO", value: aviso.idAreaAviso }],
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * UID de um aviso no calendário: área, tipo e o registo da primeira versão,
+ * pelo que uma revisão do IPMA (nível, período ou texto) substitui o evento.
+ */
+function uidAviso(a: AvisoRevisto): string {
+  const { aviso, id } = primeiraVersao(a);
+  const tipo = aviso.tipoAviso.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  return `ipma-aviso-${aviso.idAreaAviso}-${tipo}-${id.slice(id.lastIndexOf(":") + 1)}@pt-apis`;
+}
+
+/**
+ * Eventos de calendário dos avisos em curso ou futuros de uma área: a
+ * revisão mais recente de cada aviso, com SEQUENCE igual ao número de
+ * revisões anteriores.
+ */
+async function eventosAvisos(db: Db, area: string): Promise<CalendarEvent[]> {
+  const avisos = await avisosEmVigor(db, [eq(payloadField("idAreaAviso"), area)]);
+
+  const eventos = avisos.map((revisto): CalendarEvent => {
+    const { atual: maisRecente, anteriores } = revisto;
+    const { aviso, area: local } = maisRecente;
+    return {
+      uid: uidAviso(revisto),
+      sequence: anteriores.length,
+      start: new Date(horaLisboaCap(aviso.inicio)),
+      end: new Date(horaLisboaCap(aviso.fim)),
+      updated: maisRecente.recolhidoEm,
+      summary: `Aviso ${NOMES_NIVEL[aviso.nivelAviso] ?? aviso.nivelAviso}: ${aviso.tipoAviso} (${local.nome})`,
+      description: aviso.texto || tituloAviso(maisRecente),
+      location: local.nome,
+      point: local.pontos[0] ?? null,
+      url: PAGINA_AVISOS,
+      categories: [aviso.tipoAviso, NOMES_NIVEL[aviso.nivelAviso] ?? aviso.nivelAviso],
+    };
+  });
+  return eventos.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
 // ---------------------------------------------------------------------------
 // Rotas personalizadas
 // ---------------------------------------------------------------------------
@@ -698,6 +1227,208 @@ function criarRotasTempo(def: AdapterDefinition) {
     });
   });
 
+  // ── GET /avisos/feed ───────────────────────────────────────────────────
+
+  const ConsultaFeedAvisos = z.object({
+    nivel: z
+      .enum(["yellow", "orange", "red"])
+      .optional()
+      .openapi({ description: "Filtrar por nível de aviso" }),
+    area: z
+      .string()
+      .optional()
+      .openapi({ description: "Códigos de área de aviso separados por vírgulas (ver /referencia/locais)", example: "LSB,PTO" }),
+    format: FormatoFeedSchema.optional().openapi({ param: { name: "format", in: "query" } }),
+  });
+
+  const areasPedidas = (area?: string) =>
+    area ? area.split(",").map((a) => a.trim().toUpperCase()).filter(Boolean) : [];
+
+  const rotaAvisosFeed = createRoute({
+    method: "get",
+    path: "/avisos/feed",
+    tags: [tag],
+    summary: "Feed Atom/RSS dos avisos meteorológicos ativos",
+    description: `Os avisos guardados que ainda não terminaram (até ${FEED_MAX_ENTRIES}, os mais recentes primeiro), como feed Atom (predefinido) ou RSS, para leitores de feeds e automações. Cada aviso aparece uma só vez, com a revisão mais recente do IPMA (mesma área e tipo, com um período que se sobrepõe ao anterior); o identificador da entrada vem do primeiro registo api_data do aviso, pelo que uma revisão atualiza a entrada (\`updated\`) em vez de criar outra.`,
+    request: { query: ConsultaFeedAvisos },
+    responses: {
+      200: {
+        content: conteudoFeed,
+        description: "Feed de avisos meteorológicos ativos",
+      },
+    },
+  });
+
+  app.use("/avisos/feed", kvCache({ ttlSeconds: 300 }));
+  app.use("/avisos/feed", cacheControl(300, 600));
+
+  app.openapi(rotaAvisosFeed, async (c) => {
+    const { nivel, area } = c.req.valid("query");
+
+    return feedResponse(c, {
+      title: "Avisos meteorológicos ativos (IPMA)",
+      subtitle: "Avisos meteorológicos do IPMA para Portugal que ainda não terminaram",
+      selfUrl: c.req.url,
+      link: PAGINA_AVISOS,
+      author: def.publisher!,
+      entries: (await avisosAtivos(getDb(c.env), nivel, areasPedidas(area))).map(entradaAviso),
+    });
+  });
+
+  // ── GET /avisos/cap ────────────────────────────────────────────────────
+
+  const rotaAvisosCap = createRoute({
+    method: "get",
+    path: "/avisos/cap",
+    tags: [tag],
+    summary: "Índice CAP dos avisos meteorológicos ativos",
+    description: `Índice (Atom, ou RSS com \`format=rss\`) dos avisos que ainda não terminaram, em que cada entrada liga ao alerta CAP 1.2 (Common Alerting Protocol) correspondente em /avisos/cap/{id}, para sistemas de emergência e agregadores de alertas. Aceita os filtros de /avisos/feed.`,
+    request: { query: ConsultaFeedAvisos },
+    responses: {
+      200: {
+        content: conteudoFeed,
+        description: "Índice CAP de avisos ativos",
+      },
+    },
+  });
+
+  app.use("/avisos/cap", kvCache({ ttlSeconds: 300 }));
+  app.use("/avisos/cap", cacheControl(300, 600));
+
+  app.openapi(rotaAvisosCap, async (c) => {
+    const { nivel, area } = c.req.valid("query");
+    const base = `${new URL(c.req.url).origin}/v1/${def.id}/avisos/cap`;
+    const avisos = await avisosAtivos(getDb(c.env), nivel, areasPedidas(area));
+
+    return feedResponse(c, {
+      title: "Alertas CAP — avisos meteorológicos ativos (IPMA)",
+      subtitle: "Avisos meteorológicos do IPMA em Common Alerting Protocol 1.2",
+      selfUrl: c.req.url,
+      link: PAGINA_AVISOS,
+      author: def.publisher!,
+      entries: avisos.map((a) => ({ ...entradaAviso(a), link: `${base}/${encodeURIComponent(a.atual.id)}`, linkType: CAP_MEDIA_TYPE })),
+    });
+  });
+
+  // ── GET /avisos/cap/{id} ───────────────────────────────────────────────
+
+  const rotaAvisoCap = createRoute({
+    method: "get",
+    path: "/avisos/cap/{id}",
+    tags: [tag],
+    summary: "Aviso meteorológico como alerta CAP 1.2",
+    description:
+      "Um aviso guardado como alerta CAP 1.2: `severity` a partir do nível (amarelo → Moderate, laranja → Severe, vermelho → Extreme), `event` do tipo de aviso, `onset`/`expires` do início e fim (hora de Lisboa) e a área com o código IPMA (`IPMA_AREA_AVISO`) e as coordenadas das cidades da área. Inclui os parâmetros `awareness_level`/`awareness_type` do MeteoAlarm. Uma revisão do IPMA é publicada com `msgType` Update e `references` para as versões anteriores do mesmo aviso.",
+    request: {
+      params: z.object({
+        id: z.string().openapi({
+          param: { name: "id", in: "path" },
+          description: "Identificador do registo api_data do aviso (ligação no índice /avisos/cap)",
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        content: { [CAP_MEDIA_TYPE]: { schema: RespostaCapSchema } },
+        description: "Alerta CAP 1.2",
+      },
+      404: {
+        content: { "application/json": { schema: ErroSchema } },
+        description: "Aviso não encontrado",
+      },
+    },
+  });
+
+  // Sem cache KV: `urgency` passa de Expected a Immediate no início do aviso, e a cache HTTP não pode ir além dele
+  app.openapi(rotaAvisoCap, async (c) => {
+    const { id } = c.req.valid("param");
+    const aviso = await revisaoAviso(getDb(c.env), id);
+    if (!aviso) {
+      return c.json({ error: "Warning not found" } as const, 404);
+    }
+
+    const ateInicio = Math.floor((Date.parse(horaLisboaCap(aviso.atual.aviso.inicio)) - Date.now()) / 1000);
+    c.header(
+      "Cache-Control",
+      ateInicio > 0 ? `public, max-age=${Math.min(ateInicio, 1800)}` : "public, max-age=1800, stale-while-revalidate=3600",
+    );
+    c.header("Vary", "Accept");
+    return capResponse(c, alertaCapAviso(aviso, new URL(c.req.url).hostname, def.publisher!.name));
+  });
+
+  // ── GET /avisos/calendario.ics ─────────────────────────────────────────
+
+  const rotaAvisosCalendario = createRoute({
+    method: "get",
+    path: "/avisos/calendario.ics",
+    tags: [tag],
+    summary: "Calendário iCalendar dos avisos de uma área",
+    description:
+      "Calendário `.ics` (RFC 5545) com um evento por aviso em curso ou futuro para uma área de aviso do IPMA — indicada diretamente (`area`) ou através de uma localização (`localidade`) — para subscrever em aplicações de calendário. Cada evento vai do início ao fim do aviso e tem um UID estável (área, tipo e primeira versão guardada) e um SEQUENCE que aumenta a cada revisão, pelo que as revisões do IPMA — mesmo as que mudam o início — atualizam o evento em vez de o duplicar.",
+    request: {
+      query: z.object({
+        area: z
+          .string()
+          .regex(/^[A-Za-z]{3}$/)
+          .optional()
+          .openapi({ description: "Código da área de aviso (ver /referencia/locais)", example: "LSB" }),
+        localidade: z
+          .string()
+          .optional()
+          .openapi({ description: "Identificador de uma localização com área de aviso (alternativa a `area`)", example: "ipma-1110600" }),
+      }),
+    },
+    responses: {
+      200: {
+        content: { "text/calendar": { schema: z.string().openapi({ description: "Calendário iCalendar" }) } },
+        description: "Calendário de avisos",
+      },
+      400: {
+        content: { "application/json": { schema: ErroSchema } },
+        description: "Sem área ou com área e localização em simultâneo",
+      },
+      404: {
+        content: { "application/json": { schema: ErroSchema } },
+        description: "Localização não encontrada",
+      },
+    },
+  });
+
+  app.use("/avisos/calendario.ics", kvCache({ ttlSeconds: 600 }));
+  app.use("/avisos/calendario.ics", cacheControl(600, 1800));
+
+  app.openapi(rotaAvisosCalendario, async (c) => {
+    const { area, localidade } = c.req.valid("query");
+    if ((area === undefined) === (localidade === undefined)) {
+      return c.json({ error: "Invalid query", details: "Pass exactly one of area or localidade" }, 400);
+    }
+
+    const db = getDb(c.env);
+    let codigo = area?.toUpperCase();
+    if (localidade !== undefined) {
+      const [local] = await db.select().from(locations).where(eq(locations.id, localidade)).limit(1);
+      if (!local) {
+        return c.json({ error: "Location not found" } as const, 404);
+      }
+      codigo = local.metadata ? (JSON.parse(local.metadata) as { idAreaAviso?: string }).idAreaAviso : undefined;
+      if (!codigo) {
+        return c.json({ error: "Invalid query", details: `Location ${localidade} has no IPMA warning area` }, 400);
+      }
+    }
+
+    const areaAviso = codigo!;
+    const nome = (await areasAviso(db, [areaAviso])).get(areaAviso)?.nome ?? areaAviso;
+    return icsResponse(
+      c,
+      {
+        name: `Avisos IPMA — ${nome}`,
+        description: `Avisos meteorológicos do IPMA em curso ou futuros para ${nome} (${areaAviso})`,
+        events: await eventosAvisos(db, areaAviso),
+      },
+      `avisos-${areaAviso.toLowerCase()}.ics`,
+    );
+  });
+
   // ── GET /mar ───────────────────────────────────────────────────────────
 
   const rotaMar = createRoute({
@@ -910,6 +1641,55 @@ function criarRotasTempo(def: AdapterDefinition) {
     return c.json({ total: itens.length, dados: itens });
   });
 
+  // ── GET /condicoes-atuais ──────────────────────────────────────────────
+
+  const rotaCondicoesAtuais = createRoute({
+    method: "get",
+    path: "/condicoes-atuais",
+    tags: [tag],
+    summary: "Obter condições atuais num ponto (estações e cidade mais próximas)",
+    description:
+      "A partir de coordenadas, devolve a observação recente (últimas 3 horas) da estação meteorológica mais próxima — ou, com `interpolar=true`, a interpolação por inverso do quadrado da distância (IDW) das `estacoes` estações mais próximas com leitura — e ainda a previsão diária e o índice UV da cidade mais próxima com dados. Indica as estações e localizações usadas.",
+    request: {
+      query: z.object({
+        latitude: z.coerce.number().min(-90).max(90).openapi({ description: "Latitude (graus decimais)", example: 38.7223 }),
+        longitude: z.coerce.number().min(-180).max(180).openapi({ description: "Longitude (graus decimais)", example: -9.1393 }),
+        interpolar: z
+          .enum(["true", "false"])
+          .default("false")
+          .openapi({ description: "Interpolar (IDW) a partir de várias estações em vez de usar só a mais próxima", example: "true" }),
+        estacoes: z.coerce
+          .number()
+          .int()
+          .min(2)
+          .max(10)
+          .default(3)
+          .openapi({ description: "Número de estações a usar na interpolação", example: 3 }),
+      }),
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: CondicoesAtuaisSchema,
+          },
+        },
+        description: "Condições atuais no ponto pedido",
+      },
+    },
+  });
+
+  app.use("/condicoes-atuais", kvCache({ ttlSeconds: 600 }));
+  app.use("/condicoes-atuais", cacheControl(300, 600));
+
+  app.openapi(rotaCondicoesAtuais, async (c) => {
+    const { latitude, longitude, interpolar, estacoes } = c.req.valid("query");
+    const db = getDb(c.env);
+    const interpolada = interpolar === "true";
+
+    return c.json(await condicoesAtuais(db, { latitude, longitude }, interpolada ? estacoes : 1, interpolada));
+  });
+
   // ── GET /referencia/tipos-tempo ────────────────────────────────────────
 
   const rotaTiposTempo = createRoute({
@@ -1098,6 +1878,17 @@ const adaptador: AdapterDefinition = {
 
   openApiTag: "Tempo (IPMA)",
 
+  publisher: { name: "Instituto Português do Mar e da Atmosfera (IPMA)", url: "https://www.ipma.pt/" },
+
+  payloadSchemas: {
+    "previsao-diaria": PrevisaoDiariaPayloadSchema,
+    "aviso-meteorologico": AvisoMeteorologicoPayloadSchema,
+    "previsao-mar": PrevisaoMarPayloadSchema,
+    "risco-incendio": RiscoIncendioPayloadSchema,
+    "indice-uv": IndiceUvPayloadSchema,
+    "observacao-estacao": ObservacaoEstacaoPayloadSchema,
+  },
+
   schedules: [
     {
       frequency: "daily",
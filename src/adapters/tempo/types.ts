@@ -1,7 +1,7 @@
 /**
  * ─── Tipos do Adaptador Tempo (IPMA) ─────────────────────────────────────
  *
- * Schemas upstream, interfaces de payload e schemas de resposta da API
+ * Schemas upstream, schemas de payload e schemas de resposta da API
  * para o adaptador meteorológico do IPMA (Instituto Português do Mar e
  * da Atmosfera).
  *
@@ -275,166 +275,169 @@ export const IpmaObservacoesResponseSchema = z.record(
 export type IpmaObservacao = z.infer<typeof IpmaObservacaoSchema>;
 
 // ===========================================================================
-// 2. Interfaces de payload (conteúdo de api_data.payload)
+// 2. Schemas de payload (conteúdo de api_data.payload, validado ao guardar)
 // ===========================================================================
 
 /** Payload para payload_type = "previsao-diaria" */
-export interface PrevisaoDiariaPayload {
-  dataPrevisao: string;
-  globalIdLocal: number;
-  probabilidadePrecipitacao: string;
-  temperaturaMinima: string;
-  temperaturaMaxima: string;
-  dirVentoPredominante: string;
-  idTipoTempo: number;
-  classeIntensidadeVento: number;
-  classeIntensidadePrecipitacao?: number;
-  dataAtualizacao: string;
-}
+export const PrevisaoDiariaPayloadSchema = z.object({
+  dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
+  globalIdLocal: z.number().openapi({ description: "Identificador do local no IPMA" }),
+  temperaturaMinima: z.string().openapi({ description: "Temperatura mínima (°C)", example: "7.6" }),
+  temperaturaMaxima: z.string().openapi({ description: "Temperatura máxima (°C)", example: "13.3" }),
+  probabilidadePrecipitacao: z.string().openapi({ description: "Probabilidade de precipitação (%)", example: "0.0" }),
+  dirVentoPredominante: z.string().openapi({ description: "Rumo predominante do vento", example: "N" }),
+  idTipoTempo: z.number().openapi({ description: "Código do tipo de tempo significativo" }),
+  classeIntensidadeVento: z.number().openapi({ description: "Classe da intensidade do vento" }),
+  classeIntensidadePrecipitacao: z.number().optional().openapi({ description: "Classe da intensidade da precipitação" }),
+  dataAtualizacao: z.string().openapi({ description: "Data/hora de atualização dos dados (ISO 8601)" }),
+});
+
+export type PrevisaoDiariaPayload = z.infer<typeof PrevisaoDiariaPayloadSchema>;
 
 /** Payload para payload_type = "aviso-meteorologico" */
-export interface AvisoMeteorologicoPayload {
-  texto: string;
-  tipoAviso: string;
-  idAreaAviso: string;
-  nivelAviso: string;
-  inicio: string;
-  fim: string;
-}
+export const AvisoMeteorologicoPayloadSchema = z.object({
+  texto: z.string().openapi({ description: "Texto descritivo do aviso" }),
+  tipoAviso: z.string().openapi({ description: "Tipo de parâmetro do aviso", example: "Precipitação" }),
+  nivelAviso: z.string().openapi({ description: "Nível do aviso (green, yellow, orange, red)", example: "yellow" }),
+  idAreaAviso: z.string().openapi({ description: "Identificador da área do aviso", example: "BGC" }),
+  inicio: z.string().openapi({ description: "Início do aviso (ISO 8601)" }),
+  fim: z.string().openapi({ description: "Fim do aviso (ISO 8601)" }),
+});
+
+export type AvisoMeteorologicoPayload = z.infer<typeof AvisoMeteorologicoPayloadSchema>;
 
 /** Payload para payload_type = "previsao-mar" */
-export interface PrevisaoMarPayload {
-  dataPrevisao: string;
-  globalIdLocal: number;
-  periodoOndulacaoMin: string;
-  periodoOndulacaoMax: string;
-  alturaOndulacaoMin: string;
-  alturaOndulacaoMax: string;
-  dirOndaPredominante: string;
-  alturaSignificativaMin: number;
-  alturaSignificativaMax: number;
-  tempSuperficieMarMin: string;
-  tempSuperficieMarMax: string;
-  dataAtualizacao: string;
-}
+export const PrevisaoMarPayloadSchema = z.object({
+  dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
+  globalIdLocal: z.number().openapi({ description: "Identificador do local costeiro no IPMA" }),
+  periodoOndulacaoMin: z.string().openapi({ description: "Período mínimo de ondulação (segundos)" }),
+  periodoOndulacaoMax: z.string().openapi({ description: "Período máximo de ondulação (segundos)" }),
+  alturaOndulacaoMin: z.string().openapi({ description: "Altura mínima de ondulação (metros)" }),
+  alturaOndulacaoMax: z.string().openapi({ description: "Altura máxima de ondulação (metros)" }),
+  dirOndaPredominante: z.string().openapi({ description: "Rumo predominante da onda" }),
+  alturaSignificativaMin: z.number().openapi({ description: "Mínimo diário da altura significativa das ondas (metros)" }),
+  alturaSignificativaMax: z.number().openapi({ description: "Máximo diário da altura significativa das ondas (metros)" }),
+  tempSuperficieMarMin: z.string().openapi({ description: "Temperatura mínima da superfície do mar (°C)" }),
+  tempSuperficieMarMax: z.string().openapi({ description: "Temperatura máxima da superfície do mar (°C)" }),
+  dataAtualizacao: z.string().openapi({ description: "Data/hora de atualização dos dados (ISO 8601)" }),
+});
+
+export type PrevisaoMarPayload = z.infer<typeof PrevisaoMarPayloadSchema>;
 
 /** Payload para payload_type = "risco-incendio" */
-export interface RiscoIncendioPayload {
-  dataPrevisao: string;
-  dico: string;
-  rcm: number;
-  latitude: number;
-  longitude: number;
-}
+export const RiscoIncendioPayloadSchema = z.object({
+  dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
+  dico: z.string().openapi({ description: "Código DICO do concelho" }),
+  rcm: z.number().openapi({ description: "Nível de risco de incêndio (1=reduzido, 2=moderado, 3=elevado, 4=muito elevado, 5=máximo)" }),
+  latitude: z.number().openapi({ description: "Latitude" }),
+  longitude: z.number().openapi({ description: "Longitude" }),
+});
+
+export type RiscoIncendioPayload = z.infer<typeof RiscoIncendioPayloadSchema>;
 
 /** Payload para payload_type = "indice-uv" */
-export interface IndiceUvPayload {
-  data: string;
-  globalIdLocal: number;
-  iUv: string;
-  intervaloHora: string;
-  idPeriodo: number;
-}
+export const IndiceUvPayloadSchema = z.object({
+  data: z.string().openapi({ description: "Data de referência (AAAA-MM-DD)" }),
+  globalIdLocal: z.number().openapi({ description: "Identificador do local no IPMA" }),
+  iUv: z.string().openapi({ description: "Valor do índice ultravioleta", example: "5.0" }),
+  intervaloHora: z.string().openapi({ description: "Intervalo horário do valor máximo de UV", example: "14h-14h" }),
+  idPeriodo: z.number().openapi({ description: "Código interno do período" }),
+});
+
+export type IndiceUvPayload = z.infer<typeof IndiceUvPayloadSchema>;
 
 /** Payload para payload_type = "observacao-estacao" */
-export interface ObservacaoEstacaoPayload {
-  dataObservacao: string;
-  idEstacao: string;
-  temperatura: number;
-  humidade: number;
-  pressao: number;
-  intensidadeVento: number;
-  intensidadeVentoKM: number;
-  idDireccVento: number;
-  precipitacaoAcumulada: number;
-  radiacao: number;
-}
+export const ObservacaoEstacaoPayloadSchema = z.object({
+  dataObservacao: z.string().openapi({ description: "Data/hora da observação (ISO 8601)" }),
+  idEstacao: z.string().openapi({ description: "Identificador da estação" }),
+  temperatura: z.number().openapi({ description: "Temperatura do ar (°C)", example: 22.5 }),
+  humidade: z.number().openapi({ description: "Humidade relativa do ar (%)", example: 65.0 }),
+  pressao: z.number().openapi({ description: "Pressão atmosférica ao nível médio do mar (hPa)", example: 1013.0 }),
+  intensidadeVento: z.number().openapi({ description: "Intensidade do vento (m/s)" }),
+  intensidadeVentoKM: z.number().openapi({ description: "Intensidade do vento (km/h)" }),
+  idDireccVento: z.number().openapi({ description: "Classe do rumo do vento (0-9)" }),
+  precipitacaoAcumulada: z.number().openapi({ description: "Precipitação acumulada na hora (mm)" }),
+  radiacao: z.number().openapi({ description: "Radiação solar (kJ/m²)" }),
+});
+
+export type ObservacaoEstacaoPayload = z.infer<typeof ObservacaoEstacaoPayloadSchema>;
 
 // ===========================================================================
 // 3. Schemas de resposta da API (para rotas Hono / documentação OpenAPI)
 // ===========================================================================
 
-export const PrevisaoDiariaSchema = z
-  .object({
-    dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
+export const PrevisaoDiariaSchema = PrevisaoDiariaPayloadSchema
+  .extend({
     localidade: z.string().nullable().openapi({ description: "Identificador do local (slug)" }),
-    globalIdLocal: z.number().openapi({ description: "Identificador do local no IPMA" }),
-    temperaturaMinima: z.string().openapi({ description: "Temperatura mínima (°C)", example: "7.6" }),
-    temperaturaMaxima: z.string().openapi({ description: "Temperatura máxima (°C)", example: "13.3" }),
-    probabilidadePrecipitacao: z.string().openapi({ description: "Probabilidade de precipitação (%)", example: "0.0" }),
-    dirVentoPredominante: z.string().openapi({ description: "Rumo predominante do vento", example: "N" }),
-    idTipoTempo: z.number().openapi({ description: "Código do tipo de tempo significativo" }),
-    classeIntensidadeVento: z.number().openapi({ description: "Classe da intensidade do vento" }),
-    classeIntensidadePrecipitacao: z.number().optional().openapi({ description: "Classe da intensidade da precipitação" }),
-    dataAtualizacao: z.string().openapi({ description: "Data/hora de atualização dos dados (ISO 8601)" }),
   })
   .openapi("PrevisaoDiaria");
 
-export const AvisoMeteorologicoSchema = z
-  .object({
-    texto: z.string().openapi({ description: "Texto descritivo do aviso" }),
-    tipoAviso: z.string().openapi({ description: "Tipo de parâmetro do aviso", example: "Precipitação" }),
-    nivelAviso: z.string().openapi({ description: "Nível do aviso (green, yellow, orange, red)", example: "yellow" }),
-    idAreaAviso: z.string().openapi({ description: "Identificador da área do aviso", example: "BGC" }),
-    inicio: z.string().openapi({ description: "Início do aviso (ISO 8601)" }),
-    fim: z.string().openapi({ description: "Fim do aviso (ISO 8601)" }),
-  })
-  .openapi("AvisoMeteorologico");
+export const AvisoMeteorologicoSchema = AvisoMeteorologicoPayloadSchema.openapi("AvisoMeteorologico");
 
-export const PrevisaoMarSchema = z
-  .object({
-    dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
+export const PrevisaoMarSchema = PrevisaoMarPayloadSchema
+  .extend({
     localidade: z.string().nullable().openapi({ description: "Identificador do local (slug)" }),
-    globalIdLocal: z.number().openapi({ description: "Identificador do local costeiro no IPMA" }),
-    periodoOndulacaoMin: z.string().openapi({ description: "Período mínimo de ondulação (segundos)" }),
-    periodoOndulacaoMax: z.string().openapi({ description: "Período máximo de ondulação (segundos)" }),
-    alturaOndulacaoMin: z.string().openapi({ description: "Altura mínima de ondulação (metros)" }),
-    alturaOndulacaoMax: z.string().openapi({ description: "Altura máxima de ondulação (metros)" }),
-    dirOndaPredominante: z.string().openapi({ description: "Rumo predominante da onda" }),
-    alturaSignificativaMin: z.number().openapi({ description: "Mínimo diário da altura significativa das ondas (metros)" }),
-    alturaSignificativaMax: z.number().openapi({ description: "Máximo diário da altura significativa das ondas (metros)" }),
-    tempSuperficieMarMin: z.string().openapi({ description: "Temperatura mínima da superfície do mar (°C)" }),
-    tempSuperficieMarMax: z.string().openapi({ description: "Temperatura máxima da superfície do mar (°C)" }),
-    dataAtualizacao: z.string().openapi({ description: "Data/hora de atualização dos dados (ISO 8601)" }),
   })
   .openapi("PrevisaoMar");
 
-export const RiscoIncendioSchema = z
-  .object({
-    dataPrevisao: z.string().openapi({ description: "Data da previsão (AAAA-MM-DD)" }),
-    dico: z.string().openapi({ description: "Código DICO do concelho" }),
-    rcm: z.number().openapi({ description: "Nível de risco de incêndio (1=reduzido, 2=moderado, 3=elevado, 4=muito elevado, 5=máximo)" }),
-    latitude: z.number().openapi({ description: "Latitude" }),
-    longitude: z.number().openapi({ description: "Longitude" }),
-  })
-  .openapi("RiscoIncendio");
+export const RiscoIncendioSchema = RiscoIncendioPayloadSchema.openapi("RiscoIncendio");
 
-export const IndiceUvSchema = z
-  .object({
-    data: z.string().openapi({ description: "Data de referência (AAAA-MM-DD)" }),
-    globalIdLocal: z.number().openapi({ description: "Identificador do local no IPMA" }),
-    iUv: z.string().openapi({ description: "Valor do índice ultravioleta", example: "5.0" }),
-    intervaloHora: z.string().openapi({ description: "Intervalo horário do valor máximo de UV", example: "14h-14h" }),
-    idPeriodo: z.number().openapi({ description: "Código interno do período" }),
-  })
-  .openapi("IndiceUV");
+export const IndiceUvSchema = IndiceUvPayloadSchema.openapi("IndiceUV");
 
-export const ObservacaoEstacaoSchema = z
-  .object({
-    dataObservacao: z.string().openapi({ description: "Data/hora da observação (ISO 8601)" }),
-    idEstacao: z.string().openapi({ description: "Identificador da estação" }),
+export const ObservacaoEstacaoSchema = ObservacaoEstacaoPayloadSchema
+  .extend({
     localidade: z.string().nullable().openapi({ description: "Identificador do local (slug)" }),
-    temperatura: z.number().openapi({ description: "Temperatura do ar (°C)", example: 22.5 }),
-    humidade: z.number().openapi({ description: "Humidade relativa do ar (%)", example: 65.0 }),
-    pressao: z.number().openapi({ description: "Pressão atmosférica ao nível médio do mar (hPa)", example: 1013.0 }),
-    intensidadeVento: z.number().openapi({ description: "Intensidade do vento (m/s)" }),
-    intensidadeVentoKM: z.number().openapi({ description: "Intensidade do vento (km/h)" }),
-    idDireccVento: z.number().openapi({ description: "Classe do rumo do vento (0-9)" }),
-    precipitacaoAcumulada: z.number().openapi({ description: "Precipitação acumulada na hora (mm)" }),
-    radiacao: z.number().openapi({ description: "Radiação solar (kJ/m²)" }),
   })
   .openapi("ObservacaoEstacao");
 
+// ─── Condições atuais num ponto ──────────────────────────────────────────
+
+const LocalUsadoSchema = z.object({
+  localidade: z.string().openapi({ description: "Identificador da localização usada (slug)", example: "ipma-1110600" }),
+  nome: z.string().openapi({ description: "Nome da localização", example: "Lisboa" }),
+  distanciaKm: z.number().openapi({ description: "Distância ao ponto pedido (km)", example: 3.2 }),
+});
+
+export const CondicoesAtuaisSchema = z
+  .object({
+    latitude: z.number().openapi({ description: "Latitude pedida" }),
+    longitude: z.number().openapi({ description: "Longitude pedida" }),
+    observacao: z
+      .object({
+        dataObservacao: z.string().openapi({ description: "Data/hora da observação mais recente usada (ISO 8601)" }),
+        interpolada: z.boolean().openapi({ description: "Se os valores foram interpolados (IDW) a partir de várias estações" }),
+        temperatura: z.number().nullable().openapi({ description: "Temperatura do ar (°C)", example: 22.5 }),
+        humidade: z.number().nullable().openapi({ description: "Humidade relativa do ar (%)", example: 65.0 }),
+        pressao: z.number().nullable().openapi({ description: "Pressão atmosférica ao nível médio do mar (hPa)", example: 1013.0 }),
+        intensidadeVento: z.number().nullable().openapi({ description: "Intensidade do vento (m/s)" }),
+        intensidadeVentoKM: z.number().nullable().openapi({ description: "Intensidade do vento (km/h)" }),
+        idDireccVento: z.number().nullable().openapi({ description: "Classe do rumo do vento (0-9), da estação mais próxima" }),
+        precipitacaoAcumulada: z.number().nullable().openapi({ description: "Precipitação acumulada na hora (mm)" }),
+        radiacao: z.number().nullable().openapi({ description: "Radiação solar (kJ/m²)" }),
+      })
+      .nullable()
+      .openapi({ description: "Condições observadas (null se nenhuma estação próxima tem leitura recente)" }),
+    estacoes: z
+      .array(
+        LocalUsadoSchema.extend({
+          peso: z.number().nullable().openapi({ description: "Peso na interpolação IDW (null sem interpolação)" }),
+          observacao: ObservacaoEstacaoSchema,
+        }),
+      )
+      .openapi({ description: "Estações usadas, da mais próxima para a mais distante" }),
+    previsao: LocalUsadoSchema.extend({ dados: z.array(PrevisaoDiariaSchema) })
+      .nullable()
+      .openapi({ description: "Previsão diária do local (cidade) mais próximo com previsão, a partir de hoje" }),
+    indiceUv: LocalUsadoSchema.extend({ dados: z.array(IndiceUvSchema) })
+      .nullable()
+      .openapi({ description: "Índice UV do local (cidade) mais próximo com dados, a partir de hoje" }),
+    localidadesUsadas: z.array(z.string()).openapi({
+      description: "Todas as localizações (estações e cidades) usadas na resposta",
+      example: ["ipma-estacao-1200579", "ipma-1110600"],
+    }),
+  })
+  .openapi("CondicoesAtuais");
+
 // ─── Schemas de dados de referência ──────────────────────────────────────
 
 export const TipoTempoRefSchema = z
@@ -0,0 +1,83 @@
+import { and, eq, gt, lt, or, type SQL } from "drizzle-orm";
+import { apiData } from "../db/schema";
+
+// ---------------------------------------------------------------------------
+// Encoding — JSON as UTF-8, then base64url
+// ---------------------------------------------------------------------------
+
+/**
+ * btoa only takes Latin-1 and throws on anything else (e.g. "—" or "€" in
+ * an id), so the JSON goes through its UTF-8 bytes.
+ */
+function encodeJson(value: unknown): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(JSON.stringify(value))) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Inverse of `encodeJson`; throws on malformed base64, UTF-8 or JSON. */
+function decodeJson(cursor: string): unknown {
+  const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(bytes));
+}
+
+// ---------------------------------------------------------------------------
+// Keyset cursors over api_data — (timestamp, id)
+// ---------------------------------------------------------------------------
+
+/** Decoded cursor: the (timestamp, id) of the last row of the previous page. */
+export interface ApiDataCursor {
+  /** Epoch milliseconds. */
+  t: number;
+  id: string;
+}
+
+/** Encode the last row of a page as an opaque base64url cursor. */
+export function encodeCursor(row: { timestamp: Date; id: string }): string {
+  return encodeJson({ t: row.timestamp.getTime(), id: row.id });
+}
+
+/** Decode an opaque cursor. Returns null if it is malformed. */
+export function decodeCursor(cursor: string): ApiDataCursor | null {
+  try {
+    const parsed = decodeJson(cursor) as Partial<ApiDataCursor>;
+    if (typeof parsed.t !== "number" || typeof parsed.id !== "string") return null;
+    return { t: parsed.t, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rows strictly after the cursor in `ORDER BY timestamp DESC, id DESC`
+ * (or ASC for both columns with `order = "asc"`).
+ * Served by the (…, timestamp) indexes, so deep pages cost the same as the first.
+ */
+export function afterCursor(cursor: ApiDataCursor, order: "asc" | "desc" = "desc"): SQL {
+  const t = new Date(cursor.t);
+  const beyond = order === "desc" ? lt : gt;
+  return or(
+    beyond(apiData.timestamp, t),
+    and(eq(apiData.timestamp, t), beyond(apiData.id, cursor.id)),
+  )!;
+}
+
+// ---------------------------------------------------------------------------
+// Change feed cursors — api_data.seq
+// ---------------------------------------------------------------------------
+
+/** Encode an insertion sequence position as an opaque base64url cursor. */
+export function encodeSeqCursor(seq: number): string {
+  return encodeJson({ s: seq });
+}
+
+/** Decode a change feed cursor. Returns null if it is malformed. */
+export function decodeSeqCursor(cursor: string): number | null {
+  try {
+    const parsed = decodeJson(cursor) as { s?: unknown };
+    return Number.isSafeInteger(parsed.s) && (parsed.s as number) >= 0 ? (parsed.s as number) : null;
+  } catch {
+    return null;
+  }
+}
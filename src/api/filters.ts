@@ -0,0 +1,234 @@
+import { sql, type SQL } from "drizzle-orm";
+import { apiData } from "../db/schema";
+import { ValidationError } from "../core/errors";
+import type { BoundingBox, GeoPoint } from "../core/geo";
+
+// ---------------------------------------------------------------------------
+// Payload field access — compiles dotted field paths to SQLite json_extract
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a dotted field path (already validated by `CampoPayloadSchema`)
+ * to a SQLite JSON path, e.g. "temperatura" → "$.temperatura".
+ */
+export function payloadPath(field: string): string {
+  return `$.${field}`;
+}
+
+/** `json_extract(payload, path)` — the path is bound as a parameter, never inlined. */
+export function payloadField(field: string): SQL {
+  return sql`json_extract(${apiData.payload}, ${payloadPath(field)})`;
+}
+
+/**
+ * Numeric view of a payload field. Many upstream values are numeric strings
+ * (e.g. IPMA's `temperaturaMaxima: "13.3"`), so text that looks like a number
+ * is cast to REAL; anything else (objects, free text, null) becomes NULL.
+ */
+export function numericPayloadField(field: string): SQL<number | null> {
+  const path = payloadPath(field);
+  const value = sql`json_extract(${apiData.payload}, ${path})`;
+  return sql<number | null>`(case json_type(${apiData.payload}, ${path})
+    when 'integer' then ${value}
+    when 'real' then ${value}
+    when 'text' then case
+      when trim(${value}) glob '*[0-9]*' and not trim(${value}) glob '*[^0-9.eE+-]*'
+      then cast(trim(${value}) as real)
+    end
+  end)`;
+}
+
+// ---------------------------------------------------------------------------
+// `where=` filter expressions — `field op value`, e.g. "magnitude>=3"
+// ---------------------------------------------------------------------------
+
+/** Maximum number of `where` expressions per request. */
+export const MAX_WHERE_FILTERS = 10;
+
+/** `field op value` — the field is a dotted path, operators are tried longest first. */
+export const WHERE_PATTERN =
+  /^([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)(>=|<=|!=|=|>|<|~)(.{1,200})$/;
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+type WhereOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+
+/** Literal on the right-hand side of an expression. */
+type WhereValue = string | number | boolean | null;
+
+/**
+ * Parse the right-hand side. Double quotes force a string (`codigo="0123"`);
+ * otherwise numbers, `true`, `false` and `null` are recognised.
+ */
+function parseWhereValue(raw: string): WhereValue {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) return raw.slice(1, -1);
+  if (raw === "null") return null;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  if (NUMBER_PATTERN.test(raw)) return Number(raw);
+  return raw;
+}
+
+function compare(left: SQL, op: Exclude<WhereOperator, "~">, right: unknown): SQL {
+  switch (op) {
+    case "=":
+      return sql`${left} = ${right}`;
+    case "!=":
+      return sql`${left} != ${right}`;
+    case ">":
+      return sql`${left} > ${right}`;
+    case ">=":
+      return sql`${left} >= ${right}`;
+    case "<":
+      return sql`${left} < ${right}`;
+    case "<=":
+      return sql`${left} <= ${right}`;
+  }
+}
+
+/**
+ * Compile one `where` expression to a SQL condition on api_data.payload.
+ * Values are always bound as parameters. Records without the field never
+ * match (except `field=null`).
+ *
+ * @throws ValidationError if the expression does not follow the grammar.
+ */
+export function compileWhere(expression: string): SQL {
+  const match = WHERE_PATTERN.exec(expression);
+  if (!match) {
+    throw new ValidationError(`'${expression}' is not a valid filter (expected field<op>value)`);
+  }
+
+  const [, field, op, raw] = match as unknown as [string, string, WhereOperator, string];
+  const path = payloadPath(field);
+  const value = parseWhereValue(raw);
+
+  if (op === "~") {
+    return sql`instr(lower(${payloadField(field)}), lower(${String(value ?? raw)})) > 0`;
+  }
+
+  if (value === null) {
+    if (op === "=") return sql`${payloadField(field)} is null`;
+    if (op === "!=") return sql`${payloadField(field)} is not null`;
+    throw new ValidationError(`'${expression}': null only supports = and !=`);
+  }
+
+  if (typeof value === "boolean") {
+    if (op !== "=" && op !== "!=") {
+      throw new ValidationError(`'${expression}': booleans only support = and !=`);
+    }
+    return compare(sql`json_type(${apiData.payload}, ${path})`, op, value ? "true" : "false");
+  }
+
+  if (typeof value === "number") {
+    return compare(numericPayloadField(field), op, value);
+  }
+
+  // Text: = / != match exactly, ranges compare lexicographically (ISO dates work)
+  return compare(payloadField(field), op, value);
+}
+
+/** Compile all `where` expressions of a request (a single value or repeated parameter). */
+export function compileWhereList(where: string | string[] | undefined): SQL[] {
+  if (where === undefined) return [];
+  const expressions = Array.isArray(where) ? where : [where];
+  if (expressions.length > MAX_WHERE_FILTERS) {
+    throw new ValidationError(`At most ${MAX_WHERE_FILTERS} where filters are allowed`);
+  }
+  return expressions.map(compileWhere);
+}
+
+// ---------------------------------------------------------------------------
+// Tag filters — api_data.tags is a JSON array of strings
+// ---------------------------------------------------------------------------
+
+/** Maximum number of tags in a `tags` / `anyTags` list. */
+export const MAX_TAGS = 20;
+
+/** Split a comma-separated tag list, e.g. "sismologia,acores". */
+export function parseTagList(list: string | undefined): string[] {
+  if (!list) return [];
+  const tags = [...new Set(list.split(",").map((t) => t.trim()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) {
+    throw new ValidationError(`At most ${MAX_TAGS} tags are allowed per filter`);
+  }
+  return tags;
+}
+
+/** Records carrying every one of `tags`. One EXISTS per tag over json_each. */
+export function allTagsCondition(tags: string[]): SQL[] {
+  return tags.map(
+    (tag) => sql`exists (select 1 from json_each(${apiData.tags}) where json_each.value = ${tag})`,
+  );
+}
+
+/** Records carrying at least one of `tags`. */
+export function anyTagsCondition(tags: string[]): SQL[] {
+  if (tags.length === 0) return [];
+  const list = sql.join(tags.map((tag) => sql`${tag}`), sql`, `);
+  return [sql`exists (select 1 from json_each(${apiData.tags}) where json_each.value in (${list}))`];
+}
+
+/** Conditions for the `tags` (all-of) and `anyTags` (any-of) query parameters. */
+export function compileTagFilters(tags: string | undefined, anyTags: string | undefined): SQL[] {
+  return [...allTagsCondition(parseTagList(tags)), ...anyTagsCondition(parseTagList(anyTags))];
+}
+
+// ---------------------------------------------------------------------------
+// Free-text queries — `q=` against the FTS5 search_index
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn free text into a safe FTS5 query: every word becomes a quoted term
+ * (so FTS5 operators and column filters in user input are inert) and all
+ * terms must match. A trailing `*` on a word keeps prefix matching,
+ * e.g. "arraio*".
+ *
+ * @throws ValidationError if the text has no searchable words.
+ */
+export function toFtsQuery(q: string): string {
+  const terms = (q.match(/[^\s"]+/g) ?? [])
+    .map((word) => {
+      const prefix = word.endsWith("*");
+      const term = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+      return term ? `"${term}"${prefix ? "*" : ""}` : "";
+    })
+    .filter(Boolean);
+  if (terms.length === 0) {
+    throw new ValidationError(`'${q}' has no searchable words`);
+  }
+  return terms.join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Geographic parameters — `near=lat,lon` and `bbox=minLon,minLat,maxLon,maxLat`
+// ---------------------------------------------------------------------------
+
+function parseNumberList(value: string, name: string, count: number): number[] {
+  const numbers = value.split(",").map((part) => Number(part.trim()));
+  if (numbers.length !== count || numbers.some((n) => !Number.isFinite(n))) {
+    throw new ValidationError(`${name} must be ${count} comma-separated numbers`);
+  }
+  return numbers;
+}
+
+/** Parse `near=lat,lon`. */
+export function parseNear(near: string): GeoPoint {
+  const [latitude, longitude] = parseNumberList(near, "near", 2);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new ValidationError("near is outside the valid latitude/longitude range");
+  }
+  return { latitude, longitude };
+}
+
+/** Parse `bbox=minLon,minLat,maxLon,maxLat` (GeoJSON order). Boxes crossing the antimeridian are rejected. */
+export function parseBbox(bbox: string): BoundingBox {
+  const [minLon, minLat, maxLon, maxLat] = parseNumberList(bbox, "bbox", 4);
+  if (Math.abs(minLat) > 90 || Math.abs(maxLat) > 90 || Math.abs(minLon) > 180 || Math.abs(maxLon) > 180) {
+    throw new ValidationError("bbox is outside the valid latitude/longitude range");
+  }
+  if (minLon > maxLon || minLat > maxLat) {
+    throw new ValidationError("bbox must be minLon,minLat,maxLon,maxLat");
+  }
+  return { minLon, minLat, maxLon, maxLat };
+}
@@ -0,0 +1,148 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { GraphQLError, execute, parse, validate, type DocumentNode } from "graphql";
+import { getDb } from "../../db/client";
+import { rateLimit } from "../../core/rate-limit";
+import { getSchema } from "./schema";
+import { createLoaders } from "./loaders";
+import { checkQueryLimits } from "./limits";
+
+// ---------------------------------------------------------------------------
+// Explorer
+// ---------------------------------------------------------------------------
+
+const EXPLORER_QUERY = `{
+  location(id: "ipma-1110600") {
+    name
+    data(limit: 5) {
+      payloadType
+      timestamp
+      payload
+      source { name }
+    }
+    documents(limit: 3) { name downloadUrl }
+  }
+}`;
+
+/** GraphiQL, loaded from a CDN like the Scalar reference at /reference. */
+const EXPLORER_HTML = `<!doctype html>
+<html lang="pt">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Portugal Public Data API — GraphQL</title>
+    <link rel="stylesheet" href="https://unpkg.com/graphiql@3/graphiql.min.css" />
+    <style>body { margin: 0; height: 100vh; } #graphiql { height: 100vh; }</style>
+  </head>
+  <body>
+    <div id="graphiql"></div>
+    <script crossorigin src="https://unpkg.com/react@18/umd/react.production.min.js"></script>
+    <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.production.min.js"></script>
+    <script crossorigin src="https://unpkg.com/graphiql@3/graphiql.min.js"></script>
+    <script>
+      ReactDOM.createRoot(document.getElementById("graphiql")).render(
+        React.createElement(GraphiQL, {
+          fetcher: GraphiQL.createFetcher({ url: "/graphql" }),
+          defaultQuery: ${JSON.stringify(EXPLORER_QUERY)},
+          defaultEditorToolsVisibility: true,
+        }),
+      );
+    </script>
+  </body>
+</html>`;
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+interface GraphQLRequest {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+/** Maximum query document size in characters. */
+const MAX_QUERY_LENGTH = 10_000;
+
+function errorBody(errors: readonly GraphQLError[]) {
+  return { errors: errors.map((e) => e.toJSON()) };
+}
+
+/**
+ * Parse, validate, check depth/complexity and execute one operation.
+ * Request errors (before execution) answer 400; execution errors are
+ * reported in `errors` next to the partial `data`, with 200.
+ */
+async function run(env: Env, request: GraphQLRequest) {
+  if (typeof request.query !== "string" || request.query.length === 0) {
+    return { status: 400 as const, body: errorBody([new GraphQLError("Missing query")]) };
+  }
+  if (request.query.length > MAX_QUERY_LENGTH) {
+    return { status: 400 as const, body: errorBody([new GraphQLError(`Query longer than ${MAX_QUERY_LENGTH} characters`)]) };
+  }
+  const variables =
+    request.variables && typeof request.variables === "object" ? (request.variables as Record<string, unknown>) : {};
+  const operationName = typeof request.operationName === "string" ? request.operationName : undefined;
+
+  const schema = getSchema();
+  let document: DocumentNode;
+  try {
+    document = parse(request.query);
+  } catch (err) {
+    if (err instanceof GraphQLError) return { status: 400 as const, body: errorBody([err]) };
+    throw err;
+  }
+
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) return { status: 400 as const, body: errorBody(validationErrors) };
+
+  const limitErrors = checkQueryLimits(schema, document, operationName, variables);
+  if (limitErrors.length > 0) return { status: 400 as const, body: errorBody(limitErrors) };
+
+  const db = getDb(env);
+  const result = await execute({
+    schema,
+    document,
+    variableValues: variables,
+    operationName,
+    contextValue: { db, loaders: createLoaders(db) },
+  });
+  return { status: 200 as const, body: result.errors ? { ...result, errors: result.errors.map((e) => e.toJSON()) } : result };
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/graphql", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "graphql" }));
+
+// GET: the explorer for browsers, otherwise `?query=&variables=&operationName=`
+app.get("/graphql", async (c) => {
+  const query = c.req.query("query");
+  if (query === undefined && (c.req.header("Accept") ?? "").includes("text/html")) {
+    return c.html(EXPLORER_HTML);
+  }
+
+  let variables: unknown;
+  try {
+    variables = c.req.query("variables") ? JSON.parse(c.req.query("variables")!) : undefined;
+  } catch {
+    return c.json(errorBody([new GraphQLError("Invalid variables JSON")]), 400);
+  }
+  const { status, body } = await run(c.env, { query, variables, operationName: c.req.query("operationName") });
+  return c.json(body, status);
+});
+
+app.post("/graphql", async (c) => {
+  let request: GraphQLRequest;
+  try {
+    request = await c.req.json<GraphQLRequest>();
+  } catch {
+    return c.json(errorBody([new GraphQLError("Invalid JSON body")]), 400);
+  }
+  const { status, body } = await run(c.env, request);
+  return c.json(body, status);
+});
+
+export default app;
@@ -0,0 +1,121 @@
+import {
+  GraphQLError,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isListType,
+  valueFromASTUntyped,
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type GraphQLCompositeType,
+  type GraphQLSchema,
+  type SelectionSetNode,
+} from "graphql";
+
+// ---------------------------------------------------------------------------
+// Query limits — checked before execution
+// ---------------------------------------------------------------------------
+
+/** Deepest field nesting allowed, counting root fields as depth 1. */
+export const MAX_QUERY_DEPTH = 8;
+
+/** Highest estimated cost allowed; see `queryCost`. */
+export const MAX_QUERY_COMPLEXITY = 5000;
+
+/** Largest `limit` accepted by list fields, and the default when omitted. */
+export const MAX_LIST_LIMIT = 100;
+export const DEFAULT_LIST_LIMIT = 20;
+
+interface Cost {
+  depth: number;
+  complexity: number;
+}
+
+/**
+ * Estimate the depth and cost of an operation. Every field costs 1; the
+ * fields below a list are multiplied by the list's `limit` argument (or
+ * the default), so `locations(limit: 50) { data(limit: 20) { … } }` costs
+ * about 50 × 20 per selected field — the worst case the resolvers can
+ * produce.
+ */
+function selectionCost(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLCompositeType,
+  fragments: Map<string, FragmentDefinitionNode>,
+  variables: Record<string, unknown>,
+  visited: Set<string>,
+): Cost {
+  let depth = 0;
+  let complexity = 0;
+
+  for (const selection of selectionSet.selections) {
+    let inner: Cost;
+    if (selection.kind === "Field") {
+      if (selection.name.value.startsWith("__")) continue;
+      const fields = "getFields" in parentType ? parentType.getFields() : {};
+      const field = fields[selection.name.value];
+      if (!field) continue;
+
+      const type = getNamedType(field.type);
+      const child =
+        selection.selectionSet && isCompositeType(type)
+          ? selectionCost(selection.selectionSet, type, fragments, variables, visited)
+          : { depth: 0, complexity: 0 };
+
+      let multiplier = 1;
+      if (isListType(getNullableType(field.type))) {
+        const limitArg = selection.arguments?.find((a) => a.name.value === "limit");
+        const limit = limitArg ? valueFromASTUntyped(limitArg.value, variables) : undefined;
+        // Out-of-range limits are rejected by the resolvers; clamp so they cannot lower the cost here
+        multiplier = typeof limit === "number" ? Math.min(Math.max(limit, 1), MAX_LIST_LIMIT) : DEFAULT_LIST_LIMIT;
+      }
+      inner = { depth: child.depth + 1, complexity: 1 + multiplier * child.complexity };
+    } else if (selection.kind === "InlineFragment") {
+      inner = selectionCost(selection.selectionSet, parentType, fragments, variables, visited);
+    } else {
+      const name = selection.name.value;
+      const fragment = fragments.get(name);
+      if (!fragment || visited.has(name)) continue;
+      inner = selectionCost(fragment.selectionSet, parentType, fragments, variables, new Set([...visited, name]));
+    }
+    depth = Math.max(depth, inner.depth);
+    complexity += inner.complexity;
+  }
+
+  return { depth, complexity };
+}
+
+/**
+ * Reject operations deeper than `MAX_QUERY_DEPTH` or costlier than
+ * `MAX_QUERY_COMPLEXITY`. Returns the errors; empty when within limits.
+ */
+export function checkQueryLimits(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName: string | undefined,
+  variables: Record<string, unknown>,
+): GraphQLError[] {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === "FragmentDefinition") fragments.set(definition.name.value, definition);
+  }
+
+  const errors: GraphQLError[] = [];
+  for (const definition of document.definitions) {
+    if (definition.kind !== "OperationDefinition") continue;
+    if (operationName && definition.name?.value !== operationName) continue;
+
+    const root = schema.getRootType(definition.operation);
+    if (!root) continue;
+    const { depth, complexity } = selectionCost(definition.selectionSet, root, fragments, variables, new Set());
+    if (depth > MAX_QUERY_DEPTH) {
+      errors.push(new GraphQLError(`Query depth ${depth} exceeds the maximum of ${MAX_QUERY_DEPTH}`, { nodes: definition }));
+    }
+    if (complexity > MAX_QUERY_COMPLEXITY) {
+      errors.push(
+        new GraphQLError(`Query complexity ${complexity} exceeds the maximum of ${MAX_QUERY_COMPLEXITY}`, { nodes: definition }),
+      );
+    }
+  }
+  return errors;
+}
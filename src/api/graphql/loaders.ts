@@ -0,0 +1,186 @@
+import DataLoader from "dataloader";
+import { and, asc, eq, getTableColumns, inArray, lte, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import type { Db } from "../../db/client";
+import { apiData, documents, ingestLog, locations, snapshots, sources } from "../../db/schema";
+import { registry } from "../../core/registry";
+import type { AdapterDefinition } from "../../core/adapter";
+
+// ---------------------------------------------------------------------------
+// Per-request batching — one D1 query per (relation, arguments) per tick
+// ---------------------------------------------------------------------------
+
+/** Keys per batched query; keeps `IN (…)` well under D1's bound-parameter limit. */
+const MAX_BATCH_KEYS = 80;
+
+type Row<T extends SQLiteTable> = T["$inferSelect"];
+
+/** A `sources` row merged with the adapter's registry definition. */
+export interface SourceView extends Row<typeof sources> {
+  openApiTag: string | null;
+  hasCustomRoutes: boolean;
+  hasLocations: boolean;
+  schedules: { frequency: string; description: string }[];
+}
+
+function toSourceView(id: string, adapter: AdapterDefinition | undefined, row: Row<typeof sources> | undefined): SourceView | null {
+  if (!adapter && !row) return null;
+  return {
+    id,
+    name: adapter?.name ?? row!.name,
+    description: adapter?.description ?? row?.description ?? null,
+    sourceUrl: adapter?.sourceUrl ?? row?.sourceUrl ?? null,
+    dataTypes: row?.dataTypes ?? JSON.stringify(adapter!.dataTypes),
+    status: row?.status ?? "active",
+    lastFetchedAt: row?.lastFetchedAt ?? null,
+    createdAt: row?.createdAt ?? new Date(0),
+    openApiTag: adapter?.openApiTag ?? null,
+    hasCustomRoutes: !!adapter?.routes,
+    hasLocations: adapter?.features?.hasLocations ?? true,
+    schedules: (adapter?.schedules ?? []).map((s) => ({ frequency: s.frequency, description: s.description })),
+  };
+}
+
+/** Rows by primary key; missing ids resolve to null. */
+function byId<T extends SQLiteTable & { id: SQLiteColumn }>(db: Db, table: T): DataLoader<string, Row<T> | null> {
+  return new DataLoader(
+    async (ids) => {
+      const rows = (await db
+        .select()
+        .from(table as SQLiteTable)
+        .where(inArray(table.id, [...ids]))) as Row<T>[];
+      const found = new Map(rows.map((r) => [(r as { id: string }).id, r]));
+      return ids.map((id) => found.get(id) ?? null);
+    },
+    { maxBatchSize: MAX_BATCH_KEYS },
+  );
+}
+
+/**
+ * The newest `limit` rows of `table` for each parent key, in one query:
+ * row_number() over the parent partition, ordered by `order` descending.
+ */
+function latestByParent<T extends SQLiteTable & { id: SQLiteColumn }>(
+  db: Db,
+  table: T,
+  parent: SQLiteColumn,
+  order: SQLiteColumn,
+  conditions: SQL[],
+  limit: number,
+): DataLoader<string, Row<T>[]> {
+  return new DataLoader(
+    async (keys) => {
+      const ranked = db
+        .select({
+          ...getTableColumns(table as SQLiteTable),
+          rn: sql<number>`row_number() over (partition by ${parent} order by ${order} desc, ${table.id} desc)`.as("rn"),
+        })
+        .from(table as SQLiteTable)
+        .where(and(inArray(parent, [...keys]), ...conditions))
+        .as("ranked");
+      const rows = await db.select().from(ranked).where(lte(ranked.rn, limit)).orderBy(asc(ranked.rn));
+
+      const key = parentKey(table, parent);
+      const grouped = new Map<string, Row<T>[]>(keys.map((k) => [k, []]));
+      for (const { rn: _rn, ...row } of rows) {
+        grouped.get((row as Record<string, unknown>)[key] as string)?.push(row as Row<T>);
+      }
+      return keys.map((k) => grouped.get(k)!);
+    },
+    { maxBatchSize: MAX_BATCH_KEYS },
+  );
+}
+
+/** TypeScript property name of a column in its table. */
+function parentKey(table: SQLiteTable, column: SQLiteColumn): string {
+  return Object.entries(getTableColumns(table)).find(([, c]) => c === column)![0];
+}
+
+export interface DataFilters {
+  apiSource?: string;
+  payloadType?: string;
+  locationId?: string;
+  limit: number;
+}
+
+/** Loaders for one GraphQL request. Never share them between requests. */
+export function createLoaders(db: Db) {
+  const memo = new Map<string, DataLoader<string, unknown>>();
+  function keyed<V>(name: string, args: object, create: () => DataLoader<string, V>): DataLoader<string, V> {
+    const key = `${name}:${JSON.stringify(args)}`;
+    let loader = memo.get(key) as DataLoader<string, V> | undefined;
+    if (!loader) {
+      loader = create();
+      memo.set(key, loader as DataLoader<string, unknown>);
+    }
+    return loader;
+  }
+
+  function dataConditions(filters: DataFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (filters.apiSource) conditions.push(eq(apiData.apiSource, filters.apiSource));
+    if (filters.payloadType) conditions.push(eq(apiData.payloadType, filters.payloadType));
+    if (filters.locationId) conditions.push(eq(apiData.locationId, filters.locationId));
+    return conditions;
+  }
+
+  return {
+    source: new DataLoader<string, SourceView | null>(
+      async (ids) => {
+        const rows = await db.select().from(sources).where(inArray(sources.id, [...ids]));
+        const found = new Map(rows.map((r) => [r.id, r]));
+        return ids.map((id) => toSourceView(id, registry.get(id), found.get(id)));
+      },
+      { maxBatchSize: MAX_BATCH_KEYS },
+    ),
+    location: byId(db, locations),
+    record: byId(db, apiData),
+    document: byId(db, documents),
+    ingestRun: byId(db, ingestLog),
+
+    dataByLocation: (filters: DataFilters) =>
+      keyed("dataByLocation", filters, () =>
+        latestByParent(db, apiData, apiData.locationId, apiData.timestamp, dataConditions(filters), filters.limit),
+      ),
+    dataBySource: (filters: DataFilters) =>
+      keyed("dataBySource", filters, () =>
+        latestByParent(db, apiData, apiData.apiSource, apiData.timestamp, dataConditions(filters), filters.limit),
+      ),
+    documentsByLocation: (limit: number) =>
+      keyed("documentsByLocation", { limit }, () =>
+        latestByParent(db, documents, documents.locationId, documents.capturedAt, [], limit),
+      ),
+    documentsBySource: (limit: number) =>
+      keyed("documentsBySource", { limit }, () =>
+        latestByParent(db, documents, documents.adapterId, documents.capturedAt, [], limit),
+      ),
+    ingestRunsBySource: (status: string | undefined, limit: number) =>
+      keyed("ingestRunsBySource", { status, limit }, () =>
+        latestByParent(db, ingestLog, ingestLog.adapterId, ingestLog.startedAt, status ? [eq(ingestLog.status, status)] : [], limit),
+      ),
+    snapshotsBySource: (snapshotType: string | undefined, limit: number) =>
+      keyed("snapshotsBySource", { snapshotType, limit }, () =>
+        latestByParent(
+          db,
+          snapshots,
+          snapshots.adapterId,
+          snapshots.capturedAt,
+          snapshotType ? [eq(snapshots.snapshotType, snapshotType)] : [],
+          limit,
+        ),
+      ),
+    snapshotsByIngestRun: (limit: number) =>
+      keyed("snapshotsByIngestRun", { limit }, () =>
+        latestByParent(db, snapshots, snapshots.ingestLogId, snapshots.capturedAt, [], limit),
+      ),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
+
+/** All registered sources, merged with their `sources` rows. */
+export async function listSources(db: Db): Promise<SourceView[]> {
+  const rows = await db.select().from(sources);
+  const found = new Map(rows.map((r) => [r.id, r]));
+  return registry.getAll().map((a) => toSourceView(a.id, a, found.get(a.id))!);
+}
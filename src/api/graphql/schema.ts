@@ -0,0 +1,415 @@
+import {
+  GraphQLBoolean,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  type GraphQLFieldConfig,
+  type GraphQLFieldConfigMap,
+  type GraphQLOutputType,
+} from "graphql";
+import { and, desc, eq, getTableColumns, like, type SQL } from "drizzle-orm";
+import type { SQLiteTable } from "drizzle-orm/sqlite-core";
+import type { Db } from "../../db/client";
+import { apiData, documents, ingestLog, locations, snapshots, sources } from "../../db/schema";
+import { exportConditions } from "../../core/export";
+import { notSnapshotDocument } from "../../core/storage";
+import { listSources, type Loaders } from "./loaders";
+import { DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT } from "./limits";
+
+// ---------------------------------------------------------------------------
+// Context & scalars
+// ---------------------------------------------------------------------------
+
+export interface GraphQLContext {
+  db: Db;
+  loaders: Loaders;
+}
+
+type Parent = Record<string, unknown>;
+
+const DateTimeScalar = new GraphQLScalarType<Date, string>({
+  name: "DateTime",
+  description: "Instante ISO 8601 (UTC)",
+  coerceOutputValue: (value) => (value instanceof Date ? value.toISOString() : String(value)),
+});
+
+const JsonScalar = new GraphQLScalarType({
+  name: "JSON",
+  description: "Valor JSON arbitrário (payloads e metadados)",
+  coerceOutputValue: (value) => value,
+});
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fields derived from Drizzle tables
+// ---------------------------------------------------------------------------
+
+/**
+ * One GraphQL field per column of a Drizzle table, named after the
+ * TypeScript property. Timestamp columns become DateTime, JSON text columns
+ * (listed in `json`) are parsed into the JSON scalar, `hidden` columns are
+ * internal and left out.
+ */
+function columnFields(
+  table: SQLiteTable,
+  opts: { json?: string[]; hidden?: string[] } = {},
+): GraphQLFieldConfigMap<Parent, GraphQLContext> {
+  const fields: GraphQLFieldConfigMap<Parent, GraphQLContext> = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (opts.hidden?.includes(key)) continue;
+
+    let type: GraphQLOutputType;
+    let resolve: GraphQLFieldConfig<Parent, GraphQLContext>["resolve"];
+    if (opts.json?.includes(key)) {
+      type = JsonScalar;
+      resolve = (parent) => parseJson(parent[key]);
+    } else if (key === "id") {
+      type = GraphQLID;
+    } else {
+      switch (column.columnType) {
+        case "SQLiteTimestamp":
+          type = DateTimeScalar;
+          break;
+        case "SQLiteInteger":
+          type = GraphQLInt;
+          break;
+        case "SQLiteReal":
+          type = GraphQLFloat;
+          break;
+        case "SQLiteBoolean":
+          type = GraphQLBoolean;
+          break;
+        default:
+          type = GraphQLString;
+      }
+    }
+    fields[key] = { type: column.notNull ? new GraphQLNonNull(type) : type, resolve };
+  }
+  return fields;
+}
+
+const limitArg = {
+  type: GraphQLInt,
+  defaultValue: DEFAULT_LIST_LIMIT,
+  description: `Número máximo de elementos (1–${MAX_LIST_LIMIT})`,
+};
+
+const offsetArg = { type: GraphQLInt, defaultValue: 0, description: "Desvio da paginação" };
+
+function checkLimit(limit: number, offset = 0): void {
+  if (limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new GraphQLError(`limit must be between 1 and ${MAX_LIST_LIMIT}`);
+  }
+  if (offset < 0) throw new GraphQLError("offset must not be negative");
+}
+
+function listOf(type: GraphQLObjectType) {
+  return new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface DataArgs {
+  sourceId?: string;
+  payloadType?: string;
+  limit: number;
+}
+
+const ScheduleType = new GraphQLObjectType({
+  name: "Schedule",
+  description: "Agendamento de recolha de um adapter",
+  fields: {
+    frequency: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: new GraphQLNonNull(GraphQLString) },
+  },
+});
+
+const SourceType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "Source",
+  description: "Fonte de dados (adapter registado), com o estado guardado na tabela sources",
+  fields: () => ({
+    ...columnFields(sources, { json: ["dataTypes"] }),
+    openApiTag: { type: GraphQLString },
+    hasCustomRoutes: { type: new GraphQLNonNull(GraphQLBoolean) },
+    hasLocations: { type: new GraphQLNonNull(GraphQLBoolean) },
+    schedules: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ScheduleType))) },
+    data: {
+      type: listOf(DataRecordType),
+      description: "Registos api_data mais recentes da fonte",
+      args: { payloadType: { type: GraphQLString }, locationId: { type: GraphQLString }, limit: limitArg },
+      resolve: (source, args: { payloadType?: string; locationId?: string; limit: number }, { loaders }) => {
+        checkLimit(args.limit);
+        return loaders.dataBySource(args).load(source.id as string);
+      },
+    },
+    documents: {
+      type: listOf(DocumentType),
+      description: "Documentos mais recentes da fonte",
+      args: { limit: limitArg },
+      resolve: (source, { limit }: { limit: number }, { loaders }) => {
+        checkLimit(limit);
+        return loaders.documentsBySource(limit).load(source.id as string);
+      },
+    },
+    ingestRuns: {
+      type: listOf(IngestRunType),
+      description: "Execuções de recolha mais recentes",
+      args: { status: { type: GraphQLString, description: "running, success ou error" }, limit: limitArg },
+      resolve: (source, { status, limit }: { status?: string; limit: number }, { loaders }) => {
+        checkLimit(limit);
+        return loaders.ingestRunsBySource(status, limit).load(source.id as string);
+      },
+    },
+    snapshots: {
+      type: listOf(SnapshotType),
+      description: "Snapshots mais recentes",
+      args: { snapshotType: { type: GraphQLString }, limit: limitArg },
+      resolve: (source, { snapshotType, limit }: { snapshotType?: string; limit: number }, { loaders }) => {
+        checkLimit(limit);
+        return loaders.snapshotsBySource(snapshotType, limit).load(source.id as string);
+      },
+    },
+  }),
+});
+
+const LocationType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "Location",
+  description: "Localização partilhada entre fontes",
+  fields: () => ({
+    ...columnFields(locations, { json: ["metadata"], hidden: ["gridLat", "gridLon"] }),
+    data: {
+      type: listOf(DataRecordType),
+      description: "Registos api_data mais recentes desta localização, de todas as fontes ou de uma",
+      args: { sourceId: { type: GraphQLString }, payloadType: { type: GraphQLString }, limit: limitArg },
+      resolve: (location, args: DataArgs, { loaders }) => {
+        checkLimit(args.limit);
+        return loaders
+          .dataByLocation({ apiSource: args.sourceId, payloadType: args.payloadType, limit: args.limit })
+          .load(location.id as string);
+      },
+    },
+    documents: {
+      type: listOf(DocumentType),
+      description: "Documentos mais recentes desta localização",
+      args: { limit: limitArg },
+      resolve: (location, { limit }: { limit: number }, { loaders }) => {
+        checkLimit(limit);
+        return loaders.documentsByLocation(limit).load(location.id as string);
+      },
+    },
+  }),
+});
+
+const DataRecordType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "DataRecord",
+  description: "Registo da tabela api_data",
+  fields: () => ({
+    ...columnFields(apiData, { json: ["payload", "tags"] }),
+    source: {
+      type: SourceType,
+      resolve: (record, _args, { loaders }) => loaders.source.load(record.apiSource as string),
+    },
+    location: {
+      type: LocationType,
+      resolve: (record, _args, { loaders }) =>
+        record.locationId ? loaders.location.load(record.locationId as string) : null,
+    },
+  }),
+});
+
+const DocumentType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "Document",
+  description: "Ficheiro guardado em R2",
+  fields: () => ({
+    ...columnFields(documents, { json: ["metadata"], hidden: ["r2Key"] }),
+    downloadUrl: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: (doc) => `/v1/sources/${doc.adapterId}/documents/${doc.id}`,
+    },
+    source: {
+      type: SourceType,
+      resolve: (doc, _args, { loaders }) => loaders.source.load(doc.adapterId as string),
+    },
+    location: {
+      type: LocationType,
+      resolve: (doc, _args, { loaders }) => (doc.locationId ? loaders.location.load(doc.locationId as string) : null),
+    },
+  }),
+});
+
+const IngestRunType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "IngestRun",
+  description: "Execução de recolha (tabela ingest_log)",
+  fields: () => ({
+    ...columnFields(ingestLog),
+    source: {
+      type: SourceType,
+      resolve: (run, _args, { loaders }) => loaders.source.load(run.adapterId as string),
+    },
+    snapshots: {
+      type: listOf(SnapshotType),
+      description: "Snapshots capturados nesta execução",
+      args: { limit: limitArg },
+      resolve: (run, { limit }: { limit: number }, { loaders }) => {
+        checkLimit(limit);
+        return loaders.snapshotsByIngestRun(limit).load(run.id as string);
+      },
+    },
+  }),
+});
+
+const SnapshotType: GraphQLObjectType<Parent, GraphQLContext> = new GraphQLObjectType<Parent, GraphQLContext>({
+  name: "Snapshot",
+  description: "Captura JSON do estado de uma fonte num instante",
+  fields: () => ({
+    ...columnFields(snapshots),
+    source: {
+      type: SourceType,
+      resolve: (snapshot, _args, { loaders }) => loaders.source.load(snapshot.adapterId as string),
+    },
+    document: {
+      type: DocumentType,
+      resolve: (snapshot, _args, { loaders }) => loaders.document.load(snapshot.documentId as string),
+    },
+    ingestRun: {
+      type: IngestRunType,
+      resolve: (snapshot, _args, { loaders }) =>
+        snapshot.ingestLogId ? loaders.ingestRun.load(snapshot.ingestLogId as string) : null,
+    },
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Query root
+// ---------------------------------------------------------------------------
+
+interface DataQueryArgs {
+  adapterId?: string;
+  payloadType?: string;
+  locationId?: string;
+  tags?: string;
+  anyTags?: string;
+  where?: string[];
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    sources: {
+      type: listOf(SourceType),
+      description: "Todas as fontes registadas",
+      resolve: (_root, _args, { db }) => listSources(db),
+    },
+    source: {
+      type: SourceType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_root, { id }: { id: string }, { loaders }) => loaders.source.load(id),
+    },
+    locations: {
+      type: listOf(LocationType),
+      description: "Localizações, filtradas por tipo ou nome",
+      args: { type: { type: GraphQLString }, q: { type: GraphQLString }, limit: limitArg, offset: offsetArg },
+      resolve: (_root, args: { type?: string; q?: string; limit: number; offset: number }, { db }) => {
+        checkLimit(args.limit, args.offset);
+        const conditions: SQL[] = [];
+        if (args.type) conditions.push(eq(locations.type, args.type));
+        if (args.q) conditions.push(like(locations.name, `%${args.q}%`));
+        return db
+          .select()
+          .from(locations)
+          .where(and(...conditions))
+          .orderBy(locations.name)
+          .limit(args.limit)
+          .offset(args.offset);
+      },
+    },
+    location: {
+      type: LocationType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_root, { id }: { id: string }, { loaders }) => loaders.location.load(id),
+    },
+    data: {
+      type: listOf(DataRecordType),
+      description: "Registos api_data, do mais recente para o mais antigo, com os filtros de /v1/search",
+      args: {
+        adapterId: { type: GraphQLString },
+        payloadType: { type: GraphQLString },
+        locationId: { type: GraphQLString },
+        tags: { type: GraphQLString, description: "Etiquetas separadas por vírgulas (todas)" },
+        anyTags: { type: GraphQLString, description: "Etiquetas separadas por vírgulas (pelo menos uma)" },
+        where: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)), description: "Filtros campo<op>valor sobre o payload" },
+        from: { type: GraphQLString, description: "Início do intervalo (ISO 8601)" },
+        to: { type: GraphQLString, description: "Fim do intervalo (ISO 8601)" },
+        limit: limitArg,
+        offset: offsetArg,
+      },
+      resolve: (_root, { limit, offset, ...filters }: DataQueryArgs, { db }) => {
+        checkLimit(limit, offset);
+        return db
+          .select()
+          .from(apiData)
+          .where(and(...exportConditions(filters)))
+          .orderBy(desc(apiData.timestamp), desc(apiData.id))
+          .limit(limit)
+          .offset(offset);
+      },
+    },
+    record: {
+      type: DataRecordType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_root, { id }: { id: string }, { loaders }) => loaders.record.load(id),
+    },
+    documents: {
+      type: listOf(DocumentType),
+      description: "Documentos, do mais recente para o mais antigo",
+      args: { adapterId: { type: GraphQLString }, locationId: { type: GraphQLString }, limit: limitArg, offset: offsetArg },
+      resolve: (_root, args: { adapterId?: string; locationId?: string; limit: number; offset: number }, { db }) => {
+        checkLimit(args.limit, args.offset);
+        const conditions: SQL[] = [notSnapshotDocument];
+        if (args.adapterId) conditions.push(eq(documents.adapterId, args.adapterId));
+        if (args.locationId) conditions.push(eq(documents.locationId, args.locationId));
+        return db
+          .select()
+          .from(documents)
+          .where(and(...conditions))
+          .orderBy(desc(documents.capturedAt))
+          .limit(args.limit)
+          .offset(args.offset);
+      },
+    },
+    document: {
+      type: DocumentType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_root, { id }: { id: string }, { loaders }) => loaders.document.load(id),
+    },
+  },
+});
+
+/** The schema is static for a deployment — adapters register at import time. */
+let schema: GraphQLSchema | undefined;
+
+export function getSchema(): GraphQLSchema {
+  schema ??= new GraphQLSchema({ query: QueryType });
+  return schema;
+}
@@ -13,7 +13,11 @@ export function mountDocs(app: import("@hono/zod-openapi").OpenAPIHono<{ Binding
     { name: "Sources", description: "Descobrir fontes de dados disponíveis (adapters)" },
     { name: "Documents", description: "PDFs, CSVs e outros ficheiros armazenados em R2" },
     { name: "Search", description: "Pesquisa entre todas as fontes (api_data)" },
+    { name: "Export", description: "Exportação em massa de api_data (NDJSON, CSV, Parquet)" },
+    { name: "Webhooks", description: "Notificações por POST de novos registos api_data que correspondem a filtros" },
     { name: "Locations", description: "Modelo de localizações partilhado e dados por local" },
+    { name: "Batch", description: "Várias consultas num só pedido" },
+    { name: "Catalog", description: "Catálogo DCAT-AP e API compatível com CKAN para portais de dados abertos" },
   ];
 
   const adapterTags = registry.getAll().map((a) => ({
@@ -1,4 +1,6 @@
 import { z } from "@hono/zod-openapi";
+import { WHERE_PATTERN, MAX_WHERE_FILTERS } from "./filters";
+import { registry } from "../core/registry";
 
 // ---------------------------------------------------------------------------
 // Shared schemas — used by core and adapter routes
@@ -22,6 +24,17 @@ export const PaginacaoSchema = z
   })
   .openapi("Pagination");
 
+/** Keyset pagination metadata — totals are opt-in (`includeTotal=true`). */
+export const PaginacaoCursorSchema = z
+  .object({
+    total: z.number().nullable().openapi({ description: "Número total de resultados (apenas com includeTotal=true)" }),
+    limit: z.number().openapi({ description: "Limite de resultados por página" }),
+    offset: z.number().openapi({ description: "Desvio atual (0 quando se usa cursor)" }),
+    hasMore: z.boolean().openapi({ description: "Se existem mais resultados" }),
+    nextCursor: z.string().nullable().openapi({ description: "Cursor opaco para obter a página seguinte" }),
+  })
+  .openapi("CursorPagination");
+
 /** Location summary — used in nested models. */
 export const LocalidadeResumoSchema = z
   .object({
@@ -33,3 +46,137 @@ export const LocalidadeResumoSchema = z
   .openapi("LocationSummary");
 
 export type LocalidadeResumo = z.infer<typeof LocalidadeResumoSchema>;
+
+/** Dotted path to a field inside api_data.payload, e.g. "temperatura" or "data.rcm". */
+export const CampoPayloadSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/, "Caminho de campo inválido");
+
+const FiltroExpressaoSchema = z.string().regex(WHERE_PATTERN, "Filtro inválido (esperado campo<op>valor)");
+
+/**
+ * `where` query parameter — one expression or the parameter repeated.
+ * Compile with `compileWhereList` from ../filters.
+ */
+export const FiltroPayloadSchema = z
+  .union([FiltroExpressaoSchema, z.array(FiltroExpressaoSchema).max(MAX_WHERE_FILTERS)])
+  .openapi({
+    description: [
+      "Filtro sobre campos do payload, na forma `campo<op>valor`. Pode ser repetido (até 10 filtros, combinados com AND).",
+      "",
+      "- `campo`: caminho com pontos dentro do payload (`magnitude`, `data.rcm`)",
+      "- operadores: `=`, `!=`, `>`, `>=`, `<`, `<=` e `~` (contém, sem distinção de maiúsculas)",
+      "- `valor`: números comparam numericamente (incluindo números guardados como texto); `true`/`false` comparam booleanos JSON; `null` só com `=`/`!=`; aspas forçam texto (`codigo=\"0123\"`); restante texto compara exatamente ou lexicograficamente (útil para datas ISO 8601)",
+      "",
+      "Registos sem o campo nunca correspondem, exceto com `campo=null`.",
+    ].join("\n"),
+    example: "magnitude>=3",
+  });
+
+/** `tags` query parameter — all listed tags must be present. */
+export const EtiquetasTodasSchema = z.string().max(1000).openapi({
+  description: "Etiquetas separadas por vírgulas; o registo tem de ter todas (até 20)",
+  example: "sismologia,acores",
+});
+
+/** `anyTags` query parameter — at least one listed tag must be present. */
+export const EtiquetasAlgumaSchema = z.string().max(1000).openapi({
+  description: "Etiquetas separadas por vírgulas; o registo tem de ter pelo menos uma (até 20)",
+  example: "rcm-4,rcm-5",
+});
+
+/** `format` query parameter — see responseFormat in core/formats. */
+export const FormatoRespostaSchema = z.enum(["json", "csv"]).openapi({
+  description:
+    "Formato da resposta: `json` (predefinido) ou `csv`. O CSV também pode ser pedido com `Accept: text/csv`; tem as mesmas colunas em todas as páginas e os objetos aninhados (ex.: metadata) ficam em JSON.",
+  example: "csv",
+});
+
+/** `text/csv` body of list endpoints that honour `format=csv`. */
+export const RespostaCsvSchema = z.string().openapi({
+  description:
+    "Uma linha por registo (RFC 4180), com linha de cabeçalho. A paginação segue nos cabeçalhos HTTP: `Link` com `rel=\"next\"` para a página seguinte, `X-Total-Count` quando o total é conhecido e `X-Next-Cursor` com o cursor seguinte.",
+});
+
+/** `format` of the Atom/RSS feed routes. */
+export const FormatoFeedSchema = z.enum(["atom", "rss"]).openapi({
+  description:
+    "Formato do feed: `atom` (predefinido, Atom 1.0) ou `rss` (RSS 2.0). O RSS também pode ser pedido com `Accept: application/rss+xml`.",
+  example: "rss",
+});
+
+/** Atom or RSS body of the feed routes. */
+export const RespostaFeedSchema = z.string().openapi({
+  description: "Documento XML do feed, com os registos mais recentes primeiro",
+});
+
+/** CAP 1.2 alert body of the CAP routes. */
+export const RespostaCapSchema = z.string().openapi({
+  description: "Alerta XML no formato Common Alerting Protocol 1.2 (OASIS)",
+});
+
+/** OpenAPI `content` of a feed route's 200 response. */
+export const conteudoFeed = {
+  "application/atom+xml": { schema: RespostaFeedSchema },
+  "application/rss+xml": { schema: RespostaFeedSchema },
+};
+
+/** `format` query parameter of endpoints that can also answer GeoJSON. */
+export const FormatoRespostaGeoSchema = z.enum(["json", "csv", "geojson"]).openapi({
+  description:
+    "Formato da resposta: `json` (predefinido), `csv` ou `geojson`. Também pode ser pedido com `Accept: text/csv` ou `Accept: application/geo+json`. Em GeoJSON cada registo é uma Feature com geometria Point (null quando não tem coordenadas).",
+  example: "geojson",
+});
+
+/** `application/geo+json` body — a GeoJSON FeatureCollection of points (RFC 7946). */
+export const ColecaoGeoJsonSchema = z
+  .object({
+    type: z.literal("FeatureCollection"),
+    features: z.array(
+      z.object({
+        type: z.literal("Feature"),
+        id: z.string().openapi({ description: "Identificador do registo" }),
+        geometry: z
+          .object({
+            type: z.literal("Point"),
+            coordinates: z.array(z.number()).openapi({ description: "[longitude, latitude]", example: [-9.1497, 38.7166] }),
+          })
+          .nullable(),
+        properties: z.record(z.string(), z.unknown()).openapi({ description: "Campos do registo" }),
+      }),
+    ),
+  })
+  .openapi("FeatureCollection");
+
+// ---------------------------------------------------------------------------
+// Typed payloads
+// ---------------------------------------------------------------------------
+
+type RegistoBase = z.ZodObject<{ payloadType: z.ZodString; payload: z.ZodType }>;
+
+/**
+ * Register `base` — an api_data record shape with `payloadType` and
+ * `payload` — as a union with one variant per payload type declared in an
+ * adapter's `payloadSchemas`, plus the generic variant for undeclared
+ * types. The OpenAPI document then shows the real payload for, e.g.,
+ * `payloadType: "sismo"` instead of `record<string, unknown>`.
+ *
+ * Reads the registry when called, so route modules must be imported after
+ * ./adapters/index (as in src/index.ts).
+ */
+export function comPayloadTipado<T extends RegistoBase>(base: T, nome: string): T {
+  const variantes = registry.getAll().flatMap((adapter) =>
+    Object.entries(adapter.payloadSchemas ?? {}).map(([payloadType, schema]) =>
+      base
+        .extend({
+          payloadType: z.literal(payloadType).openapi({ description: `Tipo do payload (${adapter.id})` }),
+          payload: schema,
+        })
+        .openapi(`${nome}-${adapter.id}-${payloadType}`),
+    ),
+  );
+  if (variantes.length === 0) return base.openapi(nome);
+  return z
+    .union([...variantes, base.openapi(`${nome}Generic`)])
+    .openapi(nome, { description: "Registo com o payload tipado segundo o payloadType" }) as unknown as T;
+}
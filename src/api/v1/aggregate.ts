@@ -0,0 +1,195 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { getDb } from "../../db/client";
+import { apiData } from "../../db/schema";
+import { eq, gte, lte, type SQL } from "drizzle-orm";
+import { kvCache, cacheControl } from "../../core/cache";
+import { rateLimit } from "../../core/rate-limit";
+import { ValidationError } from "../../core/errors";
+import {
+  AGGREGATE_GROUP_PATTERN,
+  MAX_AGGREGATE_FIELDS,
+  MAX_PERCENTILES,
+  aggregate,
+  parseFieldList,
+  parseGroupBy,
+  parsePercentiles,
+} from "../../core/aggregate";
+import { ErroSchema, FiltroPayloadSchema, EtiquetasTodasSchema, EtiquetasAlgumaSchema } from "../schemas";
+import { compileTagFilters, compileWhereList } from "../filters";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const EstatisticasCampoSchema = z
+  .object({
+    count: z.number().openapi({ description: "Número de registos com valor numérico neste campo", example: 31 }),
+    mean: z.number().nullable().openapi({ description: "Média", example: 21.4 }),
+    min: z.number().nullable().openapi({ description: "Mínimo", example: 16 }),
+    max: z.number().nullable().openapi({ description: "Máximo", example: 27 }),
+    stddev: z.number().nullable().openapi({ description: "Desvio-padrão (populacional)", example: 2.7 }),
+    percentiles: z.record(z.string(), z.number().nullable()).openapi({
+      description: "Percentis pedidos, com chave `p<n>` (interpolação linear entre as ordens mais próximas)",
+      example: { p50: 21, p90: 25 },
+    }),
+  })
+  .openapi("FieldStats");
+
+const GrupoAgregadoSchema = z
+  .object({
+    group: z.string().nullable().openapi({
+      description: "Chave do grupo (localização, valor de metadados, etiqueta, hora \"00\"–\"23\" ou dia \"AAAA-MM-DD\"); null para registos sem chave",
+      example: "11",
+    }),
+    fields: z.record(z.string(), EstatisticasCampoSchema).openapi({
+      description: "Estatísticas de cada campo pedido",
+    }),
+  })
+  .openapi("AggregateGroup");
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getAggregate = createRoute({
+  method: "get",
+  path: "/v1/aggregate",
+  tags: ["Search"],
+  summary: "Estatísticas de campos numéricos do payload por grupo",
+  description:
+    "Agrega campos numéricos do payload de um tipo de payload em api_data — contagem, média, mínimo, máximo, desvio-padrão e percentis — agrupados por localização, por um campo dos metadados da localização (`location.idDistrito`), por etiqueta, por hora do dia ou por dia (UTC). Exemplo: média da temperatura máxima por distrito no último mês — `payloadType=previsao-diaria&fields=temperaturaMaxima&groupBy=location.idDistrito&from=…`. Valores em texto numérico (\"13.3\") contam como números; registos sem o campo ficam de fora das estatísticas desse campo.",
+  request: {
+    query: z.object({
+      payloadType: z.string().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Tipo de payload",
+        example: "previsao-diaria",
+      }),
+      fields: z.string().max(500).openapi({
+        param: { name: "fields", in: "query" },
+        description: `Campos numéricos do payload a agregar (caminhos com pontos, separados por vírgulas, máx. ${MAX_AGGREGATE_FIELDS})`,
+        example: "temperaturaMaxima,temperaturaMinima",
+      }),
+      groupBy: z.string().regex(AGGREGATE_GROUP_PATTERN, "Agrupamento inválido").openapi({
+        param: { name: "groupBy", in: "query" },
+        description:
+          "Agrupamento: `location`, `location.<campo dos metadados>`, `tag` (um registo conta uma vez por etiqueta), `hourOfDay` ou `day`",
+        example: "location.idDistrito",
+      }),
+      percentiles: z.string().max(100).optional().openapi({
+        param: { name: "percentiles", in: "query" },
+        description: `Percentis inteiros entre 0 e 100, separados por vírgulas (máx. ${MAX_PERCENTILES}; por omissão 50,90)`,
+        example: "10,50,90",
+      }),
+      adapterId: z.string().optional().openapi({
+        param: { name: "adapterId", in: "query" },
+        description: "Filtrar por identificador do adapter",
+        example: "tempo",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+        example: "ipma-1110600",
+      }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      anyTags: EtiquetasAlgumaSchema.optional().openapi({
+        param: { name: "anyTags", in: "query" },
+      }),
+      where: FiltroPayloadSchema.optional().openapi({
+        param: { name: "where", in: "query", style: "form", explode: true },
+      }),
+      from: z.string().optional().openapi({
+        param: { name: "from", in: "query" },
+        description: "Início do intervalo (ISO 8601)",
+        example: "2026-09-01T00:00:00Z",
+      }),
+      to: z.string().optional().openapi({
+        param: { name: "to", in: "query" },
+        description: "Fim do intervalo (ISO 8601)",
+        example: "2026-10-01T00:00:00Z",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            data: z.array(GrupoAgregadoSchema),
+            meta: z.object({
+              payloadType: z.string(),
+              fields: z.array(z.string()),
+              groupBy: z.string(),
+              percentiles: z.array(z.number()),
+              adapterId: z.string().nullable(),
+              locationId: z.string().nullable(),
+            }),
+          }),
+        },
+      },
+      description: "Estatísticas por grupo, ordenadas pela chave",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Parâmetros inválidos",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/aggregate", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "aggregate" }));
+app.use("/v1/aggregate", kvCache({ ttlSeconds: 600, prefix: "aggregate" }));
+app.use("/v1/aggregate", cacheControl(300, 600));
+
+app.openapi(getAggregate, async (c) => {
+  const { payloadType, fields, groupBy, percentiles, adapterId, locationId, tags, anyTags, where, from, to } =
+    c.req.valid("query");
+
+  const conditions: SQL[] = [eq(apiData.payloadType, payloadType)];
+  if (adapterId) conditions.push(eq(apiData.apiSource, adapterId));
+  if (locationId) conditions.push(eq(apiData.locationId, locationId));
+  if (from) conditions.push(gte(apiData.timestamp, new Date(from)));
+  if (to) conditions.push(lte(apiData.timestamp, new Date(to)));
+
+  let query;
+  try {
+    conditions.push(...compileTagFilters(tags, anyTags), ...compileWhereList(where));
+    query = {
+      conditions,
+      fields: parseFieldList(fields),
+      groupBy: parseGroupBy(groupBy),
+      percentiles: parsePercentiles(percentiles),
+    };
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid aggregation", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  const data = await aggregate(getDb(c.env), query);
+
+  return c.json(
+    {
+      data,
+      meta: {
+        payloadType,
+        fields: query.fields,
+        groupBy,
+        percentiles: query.percentiles,
+        adapterId: adapterId ?? null,
+        locationId: locationId ?? null,
+      },
+    },
+    200,
+  );
+});
+
+export default app;
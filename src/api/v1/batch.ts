@@ -0,0 +1,166 @@
+import { createRoute, z, type OpenAPIHono } from "@hono/zod-openapi";
+import { rateLimit } from "../../core/rate-limit";
+import { ErroSchema } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+/** Maximum number of requests in one batch. */
+export const MAX_BATCH_REQUESTS = 10;
+
+/** Response headers copied into each batch item. */
+const ITEM_HEADERS = ["content-type", "cache-control", "x-cache", "etag", "last-modified", "location", "retry-after"];
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const PedidoLoteSchema = z
+  .object({
+    id: z.string().max(100).optional().openapi({
+      description: "Identificador opcional, devolvido na resposta correspondente",
+      example: "tempo",
+    }),
+    path: z
+      .string()
+      .max(2000)
+      .regex(/^\/v1\/[^#]*$/, "O caminho tem de ser relativo e começar por /v1/")
+      .openapi({
+        description: "Caminho GET relativo com query string, de uma rota core ou de um adapter",
+        example: "/v1/tempo/condicoes-atuais?latitude=38.72&longitude=-9.14",
+      }),
+  })
+  .openapi("BatchRequest");
+
+const RespostaLoteSchema = z
+  .object({
+    id: z.string().nullable().openapi({ description: "Identificador do pedido (se indicado)", example: "tempo" }),
+    path: z.string().openapi({ description: "Caminho pedido", example: "/v1/tempo/condicoes-atuais?latitude=38.72&longitude=-9.14" }),
+    status: z.number().openapi({ description: "Código HTTP da resposta", example: 200 }),
+    headers: z.record(z.string(), z.string()).openapi({
+      description: "Cabeçalhos relevantes da resposta (Content-Type, Cache-Control, X-Cache, …)",
+      example: { "content-type": "application/json", "x-cache": "HIT" },
+    }),
+    body: z.unknown().openapi({
+      description: "Corpo da resposta: JSON já interpretado, texto (CSV, XML, iCalendar) ou null para respostas binárias",
+    }),
+  })
+  .openapi("BatchResponse");
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const postBatch = createRoute({
+  method: "post",
+  path: "/v1/batch",
+  tags: ["Batch"],
+  summary: "Executar várias consultas GET num só pedido",
+  description: `Recebe até ${MAX_BATCH_REQUESTS} caminhos GET relativos (rotas core e rotas de adapters em \`/v1/{adapterId}/*\`) e executa-os em paralelo dentro da aplicação, com a mesma validação, cache KV e limites de pedidos de um pedido direto. As respostas vêm pela ordem dos pedidos, cada uma com o seu código HTTP — um pedido falhado não falha o lote.`,
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: z.object({
+            requests: z.array(PedidoLoteSchema).min(1).max(MAX_BATCH_REQUESTS).openapi({
+              description: "Pedidos a executar",
+              example: [
+                { id: "local", path: "/v1/locations/ipma-1110600" },
+                { id: "tempo", path: "/v1/tempo/condicoes-atuais?latitude=38.72&longitude=-9.14" },
+                { id: "sismos", path: "/v1/sources/sismos/realtime" },
+              ],
+            }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({ responses: z.array(RespostaLoteSchema) }),
+        },
+      },
+      description: "Respostas de cada pedido, pela ordem recebida",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Corpo do pedido inválido",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** JSON bodies, returned parsed (or as text if they do not parse): application/json and `+json` types (GeoJSON, JSON-LD). */
+const JSON_CONTENT_TYPES = /^application\/([\w.-]+\+)?json\b/i;
+
+/** Text bodies, returned as a string: text/* (CSV, iCalendar), XML and `+xml` types (Atom, RSS, CAP), NDJSON. */
+const TEXT_CONTENT_TYPES = /^(text\/|application\/(([\w.-]+\+)?xml|x-ndjson)\b)/i;
+
+async function readBody(res: Response): Promise<unknown> {
+  const contentType = res.headers.get("content-type") ?? "";
+  if (JSON_CONTENT_TYPES.test(contentType)) {
+    const text = await res.text();
+    if (!text) return null;
+    try {
+      return JSON.parse(text);
+    } catch {
+      // A JSON content type with a body that is not JSON: hand it over as text
+      return text;
+    }
+  }
+  if (TEXT_CONTENT_TYPES.test(contentType)) return res.text();
+  // Binary (Parquet, PDFs and other stored files)
+  await res.body?.cancel();
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Mount
+// ---------------------------------------------------------------------------
+
+/**
+ * Mounts POST /v1/batch. Each item is dispatched through `app.fetch`, so it
+ * passes the same middleware (rate limits, KV cache) and validation as a
+ * direct request. The client IP is forwarded so per-IP limits still apply.
+ *
+ * Usage:
+ *   import { mountBatch } from "./api/v1/batch";
+ *   mountBatch(app);
+ */
+export function mountBatch(app: OpenAPIHono<{ Bindings: Env }>) {
+  app.use("/v1/batch", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "batch" }));
+
+  app.openapi(postBatch, async (c) => {
+    const { requests } = c.req.valid("json");
+
+    const headers = new Headers();
+    for (const name of ["cf-connecting-ip", "accept-language"]) {
+      const value = c.req.header(name);
+      if (value) headers.set(name, value);
+    }
+
+    const responses = await Promise.all(
+      requests.map(async ({ id, path }) => {
+        const url = new URL(path, c.req.url);
+        const res = await app.fetch(new Request(url, { headers }), c.env, c.executionCtx);
+
+        const itemHeaders: Record<string, string> = {};
+        for (const name of ITEM_HEADERS) {
+          const value = res.headers.get(name);
+          if (value) itemHeaders[name] = value;
+        }
+
+        return { id: id ?? null, path, status: res.status, headers: itemHeaders, body: await readBody(res) };
+      }),
+    );
+
+    return c.json({ responses }, 200);
+  });
+}
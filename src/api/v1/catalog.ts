@@ -0,0 +1,441 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import type { Context } from "hono";
+import { getDb, type Db } from "../../db/client";
+import { apiData, locations } from "../../db/schema";
+import { and, eq, min, max } from "drizzle-orm";
+import { registry } from "../../core/registry";
+import { tagCounts } from "../../core/aggregate";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
+import { responseFormat } from "../../core/formats";
+import { ErroSchema } from "../schemas";
+import type { AdapterDefinition, AdapterPublisher, DatasetLicense } from "../../core/adapter";
+import {
+  catalogJsonLd,
+  datasetJsonLd,
+  toRdfXml,
+  ckanPackage,
+  JSONLD_CONTENT_TYPE,
+  RDF_XML_CONTENT_TYPE,
+  type Catalog,
+  type CatalogDataset,
+} from "../../core/dcat";
+
+// ---------------------------------------------------------------------------
+// Catalog metadata
+// ---------------------------------------------------------------------------
+
+const CATALOG_PUBLISHER: AdapterPublisher = { name: "PT APIs Contributors", url: "https://github.com/corrreia/pt-apis" };
+
+/** License used for adapters that do not declare one. */
+const DEFAULT_LICENSE: DatasetLicense = {
+  id: "CC-BY-4.0",
+  title: "Creative Commons Attribution 4.0",
+  url: "https://creativecommons.org/licenses/by/4.0/",
+};
+
+/** Most used tags listed as keywords per dataset. */
+const MAX_KEYWORDS = 10;
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const FormatoCatalogoSchema = z.enum(["jsonld", "rdf"]).openapi({
+  description:
+    "Serialização DCAT-AP: `jsonld` (predefinido) ou `rdf` (RDF/XML). Também pode ser pedida com `Accept: application/rdf+xml`.",
+  example: "rdf",
+});
+
+const DocumentoDcatSchema = z.record(z.string(), z.unknown()).openapi("DcatJsonLd", {
+  description: "Documento JSON-LD com os vocabulários DCAT-AP (dcat, dct, foaf)",
+});
+
+const RdfXmlSchema = z.string().openapi({ description: "O mesmo grafo serializado em RDF/XML" });
+
+const PacoteCkanSchema = z
+  .object({
+    id: z.string().openapi({ example: "tempo-previsao-diaria" }),
+    name: z.string().openapi({ description: "Nome do conjunto de dados (adapter + payloadType)", example: "tempo-previsao-diaria" }),
+    title: z.string(),
+    notes: z.string().openapi({ description: "Descrição" }),
+    url: z.string().openapi({ description: "Página da fonte original" }),
+    license_id: z.string().openapi({ example: "CC-BY-4.0" }),
+    license_url: z.string(),
+    organization: z.object({ name: z.string(), title: z.string() }),
+    metadata_modified: z.string().nullable().openapi({ description: "Última ingestão (ISO 8601)" }),
+    tags: z.array(z.object({ name: z.string() })),
+    resources: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        format: z.string().openapi({ example: "CSV" }),
+        mimetype: z.string().openapi({ example: "text/csv" }),
+        url: z.string().openapi({ description: "Endpoint que devolve os dados neste formato" }),
+      }),
+    ),
+    extras: z.array(z.object({ key: z.string(), value: z.string() })).openapi({
+      description: "temporal_start, temporal_end, spatial (GeoJSON), uri e conforms_to",
+    }),
+  })
+  .openapi("CkanPackage");
+
+const ErroCkanSchema = z
+  .object({
+    help: z.string(),
+    success: z.literal(false),
+    error: z.object({ __type: z.string().openapi({ example: "Not Found Error" }), message: z.string() }),
+  })
+  .openapi("CkanError");
+
+const datasetIdParam = z.string().openapi({
+  param: { name: "datasetId", in: "path" },
+  description: "Nome do conjunto de dados: `{adapterId}-{payloadType}`",
+  example: "tempo-previsao-diaria",
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const getCatalog = createRoute({
+  method: "get",
+  path: "/v1/catalog",
+  tags: ["Catalog"],
+  summary: "Catálogo DCAT-AP",
+  description:
+    "Catálogo DCAT-AP para portais como dados.gov.pt e data.europa.eu. Cada par adapter + payloadType é um `dcat:Dataset` com distribuições JSON, CSV e GeoJSON (as rotas de pesquisa), cobertura temporal a partir de api_data, cobertura espacial a partir das localizações, editor e licença.",
+  request: {
+    query: z.object({
+      format: FormatoCatalogoSchema.optional().openapi({ param: { name: "format", in: "query" } }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/ld+json": { schema: DocumentoDcatSchema },
+        "application/rdf+xml": { schema: RdfXmlSchema },
+      },
+      description: "Catálogo com todos os conjuntos de dados",
+    },
+  },
+});
+
+const getCatalogDataset = createRoute({
+  method: "get",
+  path: "/v1/catalog/datasets/{datasetId}",
+  tags: ["Catalog"],
+  summary: "Conjunto de dados DCAT-AP",
+  description: "Um `dcat:Dataset` do catálogo — o IRI de cada conjunto de dados aponta para aqui.",
+  request: {
+    params: z.object({ datasetId: datasetIdParam }),
+    query: z.object({
+      format: FormatoCatalogoSchema.optional().openapi({ param: { name: "format", in: "query" } }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/ld+json": { schema: DocumentoDcatSchema },
+        "application/rdf+xml": { schema: RdfXmlSchema },
+      },
+      description: "Conjunto de dados",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Conjunto de dados não encontrado",
+    },
+  },
+});
+
+const ckanPackageList = createRoute({
+  method: "get",
+  path: "/v1/ckan/api/3/action/package_list",
+  tags: ["Catalog"],
+  summary: "CKAN package_list",
+  description: "Nomes de todos os conjuntos de dados, como a Action API do CKAN. Use `/v1/ckan` como URL base num harvester CKAN.",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            help: z.string(),
+            success: z.literal(true),
+            result: z.array(z.string()).openapi({ example: ["sismos-sismo", "tempo-previsao-diaria"] }),
+          }),
+        },
+      },
+      description: "Lista de nomes",
+    },
+  },
+});
+
+const ckanPackageShow = createRoute({
+  method: "get",
+  path: "/v1/ckan/api/3/action/package_show",
+  tags: ["Catalog"],
+  summary: "CKAN package_show",
+  description: "Um conjunto de dados no formato de pacote CKAN, com os recursos JSON, CSV e GeoJSON.",
+  request: {
+    query: z.object({
+      id: z.string().openapi({
+        param: { name: "id", in: "query" },
+        description: "Nome do conjunto de dados",
+        example: "tempo-previsao-diaria",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: z.object({ help: z.string(), success: z.literal(true), result: PacoteCkanSchema }) },
+      },
+      description: "Pacote CKAN",
+    },
+    404: {
+      content: { "application/json": { schema: ErroCkanSchema } },
+      description: "Conjunto de dados não encontrado",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Catalog assembly
+// ---------------------------------------------------------------------------
+
+/** One adapter + payloadType, i.e. one dataset. */
+interface DatasetScope {
+  adapterId: string;
+  payloadType: string;
+}
+
+/** Coverage of one dataset in api_data. */
+interface DatasetStats {
+  apiSource: string;
+  payloadType: string;
+  firstTimestamp: Date | null;
+  lastTimestamp: Date | null;
+  lastScrapedAt: Date | null;
+  minLat: number | null;
+  maxLat: number | null;
+  minLon: number | null;
+  maxLon: number | null;
+  /** Most used tags, see MAX_KEYWORDS. */
+  keywords: string[];
+}
+
+/** KV key of the stats of every dataset, shared by all catalog routes and formats. */
+const STATS_CACHE_KEY = "catalog:stats";
+const STATS_TTL_SECONDS = 3600;
+
+/**
+ * Aggregate api_data per adapter and payloadType: time coverage, bbox of the
+ * locations its rows point to and the most used tags. With `scope` only one
+ * dataset is read, through the (api_source, payload_type) indexes.
+ */
+async function datasetStats(db: Db, scope?: DatasetScope): Promise<DatasetStats[]> {
+  const where = scope
+    ? and(eq(apiData.apiSource, scope.adapterId), eq(apiData.payloadType, scope.payloadType))
+    : undefined;
+
+  const rows = await db
+    .select({
+      apiSource: apiData.apiSource,
+      payloadType: apiData.payloadType,
+      firstTimestamp: min(apiData.timestamp),
+      lastTimestamp: max(apiData.timestamp),
+      lastScrapedAt: max(apiData.scrapedAt),
+      minLat: min(locations.latitude),
+      maxLat: max(locations.latitude),
+      minLon: min(locations.longitude),
+      maxLon: max(locations.longitude),
+    })
+    .from(apiData)
+    .leftJoin(locations, eq(apiData.locationId, locations.id))
+    .where(where)
+    .groupBy(apiData.apiSource, apiData.payloadType);
+
+  const tags = await tagCounts(db, where, MAX_KEYWORDS);
+  return rows.map((r) => ({ ...r, keywords: (tags.get(`${r.apiSource}:${r.payloadType}`) ?? []).map((t) => t.tag) }));
+}
+
+/**
+ * Stats of every dataset. The aggregate reads all of api_data, so it is kept
+ * in KV and computed at most once per STATS_TTL_SECONDS, whichever route or
+ * format asks first.
+ */
+async function allDatasetStats(c: Context<{ Bindings: Env }>): Promise<DatasetStats[]> {
+  const cached = await c.env.CACHE.get<DatasetStats[]>(STATS_CACHE_KEY, "json");
+  if (cached) {
+    const date = (value: Date | null) => (value ? new Date(value) : null);
+    return cached.map((s) => ({
+      ...s,
+      firstTimestamp: date(s.firstTimestamp),
+      lastTimestamp: date(s.lastTimestamp),
+      lastScrapedAt: date(s.lastScrapedAt),
+    }));
+  }
+  const stats = await datasetStats(getDb(c.env));
+  c.executionCtx.waitUntil(
+    c.env.CACHE.put(STATS_CACHE_KEY, JSON.stringify(stats), { expirationTtl: STATS_TTL_SECONDS }),
+  );
+  return stats;
+}
+
+/** Payload types of an adapter: those found in api_data plus those declared in `payloadSchemas`. */
+function payloadTypesOf(adapter: AdapterDefinition, found: string[]): string[] {
+  return [...new Set([...found, ...Object.keys(adapter.payloadSchemas ?? {})])].sort();
+}
+
+function buildDataset(adapter: AdapterDefinition, payloadType: string, s: DatasetStats | undefined, origin: string): CatalogDataset {
+  const name = `${adapter.id}-${payloadType}`;
+  const query = new URLSearchParams({ adapterId: adapter.id, payloadType });
+
+  return {
+    name,
+    iri: `${origin}/v1/catalog/datasets/${name}`,
+    title: `${adapter.name} — ${payloadType}`,
+    description: `${adapter.description} Registos do tipo "${payloadType}".`,
+    keywords: s?.keywords ?? [],
+    landingPage: adapter.sourceUrl,
+    publisher: adapter.publisher ?? CATALOG_PUBLISHER,
+    license: adapter.license ?? DEFAULT_LICENSE,
+    modified: s?.lastScrapedAt ?? null,
+    temporal: s?.firstTimestamp && s.lastTimestamp ? { start: s.firstTimestamp, end: s.lastTimestamp } : null,
+    bbox:
+      s?.minLat != null && s.maxLat != null && s.minLon != null && s.maxLon != null
+        ? { minLat: s.minLat, maxLat: s.maxLat, minLon: s.minLon, maxLon: s.maxLon }
+        : null,
+    conformsTo: `${origin}/v1/sources/${adapter.id}/payload-types`,
+    distributions: [
+      { key: "json", title: "JSON", fileType: "JSON", mediaType: "application/json", accessUrl: `${origin}/v1/search?${query}` },
+      { key: "csv", title: "CSV", fileType: "CSV", mediaType: "text/csv", accessUrl: `${origin}/v1/search?${query}&format=csv` },
+      {
+        key: "geojson",
+        title: "GeoJSON",
+        fileType: "GEOJSON",
+        mediaType: "application/geo+json",
+        accessUrl: `${origin}/v1/search?${query}&format=geojson`,
+      },
+    ],
+  };
+}
+
+/** One dataset per registered adapter and payload type, see `payloadTypesOf`. */
+function buildCatalog(stats: DatasetStats[], origin: string): Catalog {
+  const statsByKey = new Map(stats.map((r) => [`${r.apiSource}:${r.payloadType}`, r]));
+
+  const datasets: CatalogDataset[] = [];
+  for (const adapter of registry.getAll()) {
+    const found = stats.filter((r) => r.apiSource === adapter.id).map((r) => r.payloadType);
+    for (const payloadType of payloadTypesOf(adapter, found)) {
+      datasets.push(buildDataset(adapter, payloadType, statsByKey.get(`${adapter.id}:${payloadType}`), origin));
+    }
+  }
+
+  const modified = datasets.reduce<Date | null>(
+    (latest, d) => (d.modified && (!latest || d.modified > latest) ? d.modified : latest),
+    null,
+  );
+
+  return {
+    iri: `${origin}/v1/catalog`,
+    title: "Portugal Public Data API",
+    description:
+      "Dados públicos de fontes governamentais e institucionais portuguesas, recolhidos, normalizados e servidos por uma API aberta.",
+    homepage: `${origin}/reference`,
+    publisher: CATALOG_PUBLISHER,
+    modified,
+    datasets,
+  };
+}
+
+/**
+ * The dataset named `name` ("<adapterId>-<payloadType>"), aggregating only
+ * its own rows; null when no adapter has that payload type. Adapter ids may
+ * contain dashes, so every adapter whose id prefixes the name is tried.
+ */
+async function findDataset(db: Db, name: string, origin: string): Promise<CatalogDataset | null> {
+  for (const adapter of registry.getAll()) {
+    if (!name.startsWith(`${adapter.id}-`)) continue;
+    const payloadType = name.slice(adapter.id.length + 1);
+    const [s] = await datasetStats(db, { adapterId: adapter.id, payloadType });
+    if (s || adapter.payloadSchemas?.[payloadType]) return buildDataset(adapter, payloadType, s, origin);
+  }
+  return null;
+}
+
+/** Send a JSON-LD document, or its RDF/XML form when negotiated. */
+function dcatResponse(c: Context, document: Record<string, unknown>, modified: Date | null) {
+  setLastModified(c, [modified]);
+  if (responseFormat(c) === "rdf") {
+    return c.body(toRdfXml(document), 200, { "Content-Type": RDF_XML_CONTENT_TYPE });
+  }
+  return c.json(document, 200, { "Content-Type": JSONLD_CONTENT_TYPE });
+}
+
+function ckanHelp(origin: string, action: string): string {
+  return `${origin}/reference#tag/catalog/GET/v1/ckan/api/3/action/${action}`;
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/catalog", kvCache({ ttlSeconds: 3600, prefix: "catalog" }));
+app.use("/v1/catalog/*", kvCache({ ttlSeconds: 3600, prefix: "catalog" }));
+app.use("/v1/ckan/*", kvCache({ ttlSeconds: 3600, prefix: "ckan" }));
+app.use("/v1/catalog", cacheControl(1800, 3600));
+app.use("/v1/catalog/*", cacheControl(1800, 3600));
+app.use("/v1/ckan/*", cacheControl(1800, 3600));
+
+app.openapi(getCatalog, async (c) => {
+  const catalog = buildCatalog(await allDatasetStats(c), new URL(c.req.url).origin);
+  return dcatResponse(c, catalogJsonLd(catalog), catalog.modified);
+});
+
+app.openapi(getCatalogDataset, async (c) => {
+  const { datasetId } = c.req.valid("param");
+  const dataset = await findDataset(getDb(c.env), datasetId, new URL(c.req.url).origin);
+
+  if (!dataset) {
+    return c.json({ error: "Dataset not found", details: `No dataset named '${datasetId}'` } as const, 404);
+  }
+  return dcatResponse(c, datasetJsonLd(dataset), dataset.modified);
+});
+
+app.openapi(ckanPackageList, async (c) => {
+  const origin = new URL(c.req.url).origin;
+  // Names only: the distinct (api_source, payload_type) pairs come straight from their index
+  const found = await getDb(c.env)
+    .selectDistinct({ apiSource: apiData.apiSource, payloadType: apiData.payloadType })
+    .from(apiData);
+  const names = registry.getAll().flatMap((adapter) =>
+    payloadTypesOf(
+      adapter,
+      found.filter((r) => r.apiSource === adapter.id).map((r) => r.payloadType),
+    ).map((payloadType) => `${adapter.id}-${payloadType}`),
+  );
+  return c.json({ help: ckanHelp(origin, "package_list"), success: true as const, result: names }, 200);
+});
+
+app.openapi(ckanPackageShow, async (c) => {
+  const { id } = c.req.valid("query");
+  const origin = new URL(c.req.url).origin;
+  const dataset = await findDataset(getDb(c.env), id, origin);
+
+  if (!dataset) {
+    return c.json(
+      {
+        help: ckanHelp(origin, "package_show"),
+        success: false as const,
+        error: { __type: "Not Found Error", message: "Not found" },
+      },
+      404,
+    );
+  }
+  return c.json({ help: ckanHelp(origin, "package_show"), success: true as const, result: ckanPackage(dataset) }, 200);
+});
+
+export default app;
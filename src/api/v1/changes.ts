@@ -0,0 +1,130 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { getDb } from "../../db/client";
+import { apiData } from "../../db/schema";
+import { eq, and, asc, gt, lte, max, type SQL } from "drizzle-orm";
+import { rateLimit } from "../../core/rate-limit";
+import { changeRecord } from "../../core/storage";
+import { ErroSchema, comPayloadTipado } from "../schemas";
+import { encodeSeqCursor, decodeSeqCursor } from "../cursor";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const ChangeSchema = comPayloadTipado(
+  z.object({
+    seq: z.number().openapi({ description: "Posição na sequência de inserção (crescente)", example: 1042 }),
+    id: z.string().openapi({ description: "Identificador único do registo" }),
+    apiSource: z.string().openapi({ description: "Identificador do adapter", example: "sismos" }),
+    payloadType: z.string().openapi({ description: "Tipo do payload", example: "sismo" }),
+    locationId: z.string().nullable().openapi({ description: "Identificador da localização associada" }),
+    timestamp: z.string().openapi({ description: "Hora de observação (ISO 8601) — pode ser antiga em dados recuperados" }),
+    scrapedAt: z.string().openapi({ description: "Hora de ingestão (ISO 8601)" }),
+    payload: z.record(z.string(), z.unknown()).openapi({ description: "Payload JSON" }),
+    tags: z.array(z.string()).nullable().openapi({ description: "Etiquetas" }),
+  }),
+  "Change",
+);
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getChanges = createRoute({
+  method: "get",
+  path: "/v1/changes",
+  tags: ["Export"],
+  summary: "Registos novos desde a última sincronização",
+  description:
+    "Feed de alterações de api_data para sincronização incremental: devolve os registos pela ordem em que foram inseridos (`seq`), não pela hora de observação — previsões e dados recuperados com `timestamp` antigo também aparecem. Guarde o `cursor` da resposta e envie-o em `since` no pedido seguinte; repita enquanto `hasMore` for verdadeiro. Sem `since` o feed começa no primeiro registo.\n\nPayloads repetidos (mesmo conteúdo já guardado) não são inseridos e por isso não aparecem. O cursor avança também sobre registos que não passam nos filtros, pelo que pode ser reutilizado com os mesmos filtros sem voltar a percorrê-los.",
+  request: {
+    query: z.object({
+      since: z.string().optional().openapi({
+        param: { name: "since", in: "query" },
+        description: "Cursor opaco devolvido em `cursor` pelo pedido anterior",
+      }),
+      adapterId: z.string().optional().openapi({
+        param: { name: "adapterId", in: "query" },
+        description: "Filtrar por identificador do adapter",
+        example: "sismos",
+      }),
+      payloadType: z.string().optional().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Filtrar por tipo de payload",
+        example: "sismo",
+      }),
+      limit: z.coerce.number().int().min(1).max(1000).default(100).openapi({
+        param: { name: "limit", in: "query" },
+        description: "Número máximo de registos",
+        example: 100,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            data: z.array(ChangeSchema),
+            cursor: z.string().openapi({ description: "Cursor a enviar em `since` no próximo pedido" }),
+            hasMore: z.boolean().openapi({ description: "Se existem mais registos já disponíveis" }),
+          }),
+        },
+      },
+      description: "Registos inseridos depois do cursor, por ordem de inserção",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Cursor inválido",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/changes", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "changes" }));
+
+app.openapi(getChanges, async (c) => {
+  const { since, adapterId, payloadType, limit } = c.req.valid("query");
+
+  const after = since === undefined ? 0 : decodeSeqCursor(since);
+  if (after === null) {
+    return c.json({ error: "Invalid cursor", details: "since must be a cursor returned by /v1/changes" }, 400);
+  }
+
+  const db = getDb(c.env);
+
+  // High-water mark read first: every row up to it is already committed, so
+  // the cursor can move past it even when the filters match none of them
+  const [{ head }] = await db.select({ head: max(apiData.seq) }).from(apiData);
+
+  const conditions: SQL[] = [gt(apiData.seq, after), lte(apiData.seq, head ?? 0)];
+  if (adapterId) conditions.push(eq(apiData.apiSource, adapterId));
+  if (payloadType) conditions.push(eq(apiData.payloadType, payloadType));
+
+  const page = await db
+    .select()
+    .from(apiData)
+    .where(and(...conditions))
+    .orderBy(asc(apiData.seq))
+    .limit(limit + 1);
+
+  const hasMore = page.length > limit;
+  const rows = hasMore ? page.slice(0, limit) : page;
+  const position = hasMore ? rows[rows.length - 1].seq! : Math.max(after, head ?? 0);
+
+  return c.json(
+    {
+      data: rows.map(changeRecord),
+      cursor: encodeSeqCursor(position),
+      hasMore,
+    },
+    200,
+  );
+});
+
+export default app;
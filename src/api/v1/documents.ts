@@ -3,8 +3,11 @@ import { getDb } from "../../db/client";
 import { documents } from "../../db/schema";
 import { registry } from "../../core/registry";
 import { eq, and, desc } from "drizzle-orm";
-import { kvCache, cacheControl } from "../../core/cache";
-import { ErroSchema } from "../schemas";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
+import { ErroSchema, FormatoFeedSchema, FormatoRespostaSchema, RespostaCsvSchema, conteudoFeed } from "../schemas";
+import { responseFormat, csvResponse } from "../../core/formats";
+import { FEED_MAX_ENTRIES, entryId, feedResponse } from "../../core/feeds";
+import { notSnapshotDocument } from "../../core/storage";
 
 // ---------------------------------------------------------------------------
 // Schemas
@@ -22,6 +25,9 @@ const DocumentSchema = z
   })
   .openapi("Document");
 
+/** Header of `format=csv`, the same on every page; metadata is one JSON column. */
+const DOCUMENT_CSV_COLUMNS = Object.keys(DocumentSchema.shape);
+
 // ---------------------------------------------------------------------------
 // Routes
 // ---------------------------------------------------------------------------
@@ -52,6 +58,9 @@ const listDocuments = createRoute({
         description: "Desvio da paginação",
         example: 0,
       }),
+      format: FormatoRespostaSchema.optional().openapi({
+        param: { name: "format", in: "query" },
+      }),
     }),
   },
   responses: {
@@ -60,6 +69,7 @@ const listDocuments = createRoute({
         "application/json": {
           schema: z.object({ data: z.array(DocumentSchema) }),
         },
+        "text/csv": { schema: RespostaCsvSchema },
       },
       description: "Lista de documentos",
     },
@@ -70,6 +80,38 @@ const listDocuments = createRoute({
   },
 });
 
+const documentsFeed = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/documents/feed",
+  tags: ["Documents"],
+  summary: "Feed Atom/RSS dos novos documentos de uma fonte",
+  description: `Os ${FEED_MAX_ENTRIES} documentos capturados mais recentemente por esta fonte, como feed Atom (predefinido) ou RSS. Cada entrada liga ao download do documento (também como \`enclosure\`) e tem um identificador estável derivado do id do documento.`,
+  request: {
+    params: z.object({
+      sourceId: z.string().openapi({
+        param: { name: "sourceId", in: "path" },
+        description: "Identificador do adapter",
+        example: "dados-gov",
+      }),
+    }),
+    query: z.object({
+      format: FormatoFeedSchema.optional().openapi({
+        param: { name: "format", in: "query" },
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: conteudoFeed,
+      description: "Feed de documentos",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte não encontrada",
+    },
+  },
+});
+
 const getDocument = createRoute({
   method: "get",
   path: "/v1/sources/{sourceId}/documents/{docId}",
@@ -121,14 +163,16 @@ app.openapi(listDocuments, async (c) => {
   const { limit, offset } = c.req.valid("query");
   const db = getDb(c.env);
 
-  const rows = await db
+  const page = await db
     .select()
     .from(documents)
-    .where(eq(documents.adapterId, sourceId))
+    .where(and(eq(documents.adapterId, sourceId), notSnapshotDocument))
     .orderBy(desc(documents.capturedAt))
-    .limit(limit)
+    .limit(limit + 1)
     .offset(offset);
 
+  const hasMore = page.length > limit;
+  const rows = hasMore ? page.slice(0, limit) : page;
   const data = rows.map((r) => ({
     id: r.id,
     name: r.name,
@@ -138,10 +182,60 @@ app.openapi(listDocuments, async (c) => {
     capturedAt: r.capturedAt.toISOString(),
     downloadUrl: `/v1/sources/${sourceId}/documents/${r.id}`,
   }));
+  setLastModified(c, rows.map((r) => r.capturedAt));
+
+  if (responseFormat(c) === "csv") {
+    return csvResponse(c, data, DOCUMENT_CSV_COLUMNS, `${sourceId}-documents.csv`, {
+      total: null,
+      next: hasMore ? { offset: String(offset + limit) } : null,
+    });
+  }
 
   return c.json({ data }, 200);
 });
 
+app.use("/v1/sources/*/documents/feed", kvCache({ ttlSeconds: 600, prefix: "docs-feed" }));
+app.use("/v1/sources/*/documents/feed", cacheControl(300, 600));
+
+// Registered before getDocument, which would otherwise take "feed" as a docId
+app.openapi(documentsFeed, async (c) => {
+  const { sourceId } = c.req.valid("param");
+  const adapter = registry.get(sourceId);
+  if (!adapter) {
+    return c.json({ error: "Source not found" } as const, 404);
+  }
+
+  const db = getDb(c.env);
+  const rows = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.adapterId, sourceId), notSnapshotDocument))
+    .orderBy(desc(documents.capturedAt))
+    .limit(FEED_MAX_ENTRIES);
+
+  const origin = new URL(c.req.url).origin;
+  return feedResponse(c, {
+    title: `${adapter.name} — documentos`,
+    subtitle: `Novos documentos capturados pela fonte ${adapter.name}`,
+    selfUrl: c.req.url,
+    link: adapter.sourceUrl,
+    author: adapter.publisher ?? { name: adapter.name, url: adapter.sourceUrl },
+    entries: rows.map((r) => {
+      const downloadUrl = `${origin}/v1/sources/${sourceId}/documents/${r.id}`;
+      return {
+        id: entryId("document", r.id),
+        title: r.name,
+        summary: `${r.name} (${r.contentType})`,
+        link: downloadUrl,
+        published: r.capturedAt,
+        updated: r.capturedAt,
+        categories: [sourceId],
+        enclosure: { url: downloadUrl, type: r.contentType, length: r.sizeBytes },
+      };
+    }),
+  });
+});
+
 app.openapi(getDocument, async (c) => {
   const { sourceId, docId } = c.req.valid("param");
   const db = getDb(c.env);
@@ -164,6 +258,8 @@ app.openapi(getDocument, async (c) => {
   c.header("Content-Type", doc.contentType);
   c.header("Content-Disposition", `inline; filename="${doc.name}"`);
   if (doc.sizeBytes) c.header("Content-Length", String(doc.sizeBytes));
+  c.header("ETag", object.httpEtag);
+  setLastModified(c, [doc.capturedAt]);
 
   return c.body(object.body as ReadableStream);
 });
@@ -0,0 +1,272 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { getDb } from "../../db/client";
+import { exportJobs } from "../../db/schema";
+import { eq } from "drizzle-orm";
+import { rateLimit } from "../../core/rate-limit";
+import { setLastModified, skipBodyEtag } from "../../core/cache";
+import { ValidationError } from "../../core/errors";
+import {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_STREAM_MAX_ROWS,
+  EXPORT_COLUMN_SAMPLE_ROWS,
+  exportConditions,
+  countExportRows,
+  exportStream,
+  findOrCreateExportJob,
+  type ExportFilters,
+  type ExportFormat,
+  type ExportJob,
+} from "../../core/export";
+import { ErroSchema, FiltroPayloadSchema, EtiquetasTodasSchema, EtiquetasAlgumaSchema } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const ExportJobSchema = z
+  .object({
+    id: z.string().openapi({ description: "Identificador da exportação" }),
+    format: z.enum(EXPORT_FORMATS).openapi({ description: "Formato do ficheiro" }),
+    filters: z.record(z.string(), z.unknown()).openapi({ description: "Filtros aplicados a api_data" }),
+    status: z.enum(["pending", "running", "ready", "error"]).openapi({
+      description: "Estado: em fila, a correr, pronta ou com erro",
+      example: "pending",
+    }),
+    rowCount: z.number().nullable().openapi({ description: "Número de registos exportados" }),
+    sizeBytes: z.number().nullable().openapi({ description: "Tamanho do ficheiro em bytes" }),
+    error: z.string().nullable().openapi({ description: "Mensagem de erro (estado error)" }),
+    createdAt: z.string().openapi({ description: "Pedido em (ISO 8601)" }),
+    finishedAt: z.string().nullable().openapi({ description: "Concluída em (ISO 8601)" }),
+    expiresAt: z.string().openapi({ description: "O ficheiro é apagado depois deste instante (ISO 8601)" }),
+    statusUrl: z.string().openapi({ description: "URL para consultar o estado" }),
+    downloadUrl: z.string().nullable().openapi({ description: "URL para descarregar o ficheiro (estado ready)" }),
+  })
+  .openapi("ExportJob");
+
+const ExportIdParam = z.string().openapi({
+  param: { name: "exportId", in: "path" },
+  description: "Identificador da exportação",
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const createExport = createRoute({
+  method: "get",
+  path: "/v1/export",
+  tags: ["Export"],
+  summary: "Exportar api_data em massa",
+  description: `Exporta todos os registos api_data que correspondem aos filtros (os mesmos de /v1/search), por ordem cronológica, em NDJSON, CSV ou Parquet. Em CSV e Parquet cada campo do payload torna-se uma coluna \`payload.<caminho>\`; listas ficam em JSON. As colunas são as dos payloads dos ${EXPORT_COLUMN_SAMPLE_ROWS.toLocaleString("pt-PT")} registos mais recentes da seleção.
+
+Até ${EXPORT_STREAM_MAX_ROWS.toLocaleString("pt-PT")} registos a resposta é transmitida diretamente (200). Acima disso a exportação é escrita em R2 em segundo plano: a resposta é 202 com o estado da exportação, a consultar em \`statusUrl\` até estar pronta. Pedidos idênticos reutilizam o mesmo ficheiro.`,
+  request: {
+    query: z.object({
+      format: z.enum(EXPORT_FORMATS).default("ndjson").openapi({
+        param: { name: "format", in: "query" },
+        description: "Formato do ficheiro",
+        example: "csv",
+      }),
+      adapterId: z.string().optional().openapi({
+        param: { name: "adapterId", in: "query" },
+        description: "Filtrar por identificador do adapter",
+        example: "tempo",
+      }),
+      payloadType: z.string().optional().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Filtrar por tipo de payload",
+        example: "observacao-estacao",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+        example: "ipma-estacao-1200579",
+      }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      anyTags: EtiquetasAlgumaSchema.optional().openapi({
+        param: { name: "anyTags", in: "query" },
+      }),
+      where: FiltroPayloadSchema.optional().openapi({
+        param: { name: "where", in: "query", style: "form", explode: true },
+      }),
+      from: z.string().optional().openapi({
+        param: { name: "from", in: "query" },
+        description: "Início do intervalo (ISO 8601)",
+        example: "2025-01-01T00:00:00Z",
+      }),
+      to: z.string().optional().openapi({
+        param: { name: "to", in: "query" },
+        description: "Fim do intervalo (ISO 8601)",
+        example: "2026-01-01T00:00:00Z",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Ficheiro exportado (stream)",
+    },
+    202: {
+      content: { "application/json": { schema: z.object({ data: ExportJobSchema }) } },
+      description: "Exportação grande aceite — será escrita em R2",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Filtro inválido",
+    },
+  },
+});
+
+const getExport = createRoute({
+  method: "get",
+  path: "/v1/exports/{exportId}",
+  tags: ["Export"],
+  summary: "Estado de uma exportação",
+  description: "Devolve o estado de uma exportação escrita em R2 e, quando pronta, o URL de download.",
+  request: {
+    params: z.object({ exportId: ExportIdParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: ExportJobSchema }) } },
+      description: "Estado da exportação",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Exportação não encontrada ou expirada",
+    },
+  },
+});
+
+const downloadExport = createRoute({
+  method: "get",
+  path: "/v1/exports/{exportId}/download",
+  tags: ["Export"],
+  summary: "Descarregar uma exportação",
+  description: "Transmite o ficheiro de uma exportação pronta diretamente do armazenamento R2.",
+  request: {
+    params: z.object({ exportId: ExportIdParam }),
+  },
+  responses: {
+    200: {
+      description: "Ficheiro exportado (stream)",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Exportação não encontrada ou expirada",
+    },
+    409: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Exportação ainda não está pronta",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fileName(format: ExportFormat, filters: ExportFilters, date: Date): string {
+  const scope = [filters.adapterId, filters.payloadType].filter(Boolean).join("-") || "api-data";
+  return `${scope}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+function toExportJob(job: ExportJob) {
+  return {
+    id: job.id,
+    format: job.format as ExportFormat,
+    filters: JSON.parse(job.filters) as Record<string, unknown>,
+    status: job.status as "pending" | "running" | "ready" | "error",
+    rowCount: job.rowCount,
+    sizeBytes: job.sizeBytes,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+    expiresAt: job.expiresAt.toISOString(),
+    statusUrl: `/v1/exports/${job.id}`,
+    downloadUrl: job.status === "ready" ? `/v1/exports/${job.id}/download` : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/export", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "export" }));
+
+app.openapi(createExport, async (c) => {
+  const { format, where, ...rest } = c.req.valid("query");
+  const filters: ExportFilters = { ...rest, where: where === undefined ? undefined : [where].flat() };
+  const db = getDb(c.env);
+
+  let conditions;
+  try {
+    conditions = exportConditions(filters);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  const total = await countExportRows(db, conditions);
+  if (total > EXPORT_STREAM_MAX_ROWS) {
+    const job = await findOrCreateExportJob(db, format, filters);
+    c.header("Location", `/v1/exports/${job.id}`);
+    return c.json({ data: toExportJob(job) }, 202);
+  }
+
+  c.header("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  c.header("Content-Disposition", `attachment; filename="${fileName(format, filters, new Date())}"`);
+  c.header("X-Total-Count", String(total));
+  skipBodyEtag(c);
+  return c.body(exportStream(db, conditions, format));
+});
+
+app.openapi(getExport, async (c) => {
+  const { exportId } = c.req.valid("param");
+  const db = getDb(c.env);
+
+  const [job] = await db.select().from(exportJobs).where(eq(exportJobs.id, exportId)).limit(1);
+  if (!job) {
+    return c.json({ error: "Export not found" } as const, 404);
+  }
+
+  return c.json({ data: toExportJob(job) }, 200);
+});
+
+app.openapi(downloadExport, async (c) => {
+  const { exportId } = c.req.valid("param");
+  const db = getDb(c.env);
+
+  const [job] = await db.select().from(exportJobs).where(eq(exportJobs.id, exportId)).limit(1);
+  if (!job) {
+    return c.json({ error: "Export not found" } as const, 404);
+  }
+  if (job.status !== "ready" || !job.r2Key) {
+    return c.json({ error: "Export not ready", details: `Export is ${job.status}` }, 409);
+  }
+
+  const object = await c.env.DOCUMENTS.get(job.r2Key);
+  if (!object) {
+    return c.json({ error: "File missing from storage" } as const, 404);
+  }
+
+  const format = job.format as ExportFormat;
+  c.header("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="${fileName(format, JSON.parse(job.filters) as ExportFilters, job.createdAt)}"`,
+  );
+  if (job.sizeBytes) c.header("Content-Length", String(job.sizeBytes));
+  c.header("ETag", object.httpEtag);
+  setLastModified(c, [object.uploaded]);
+
+  return c.body(object.body as ReadableStream);
+});
+
+export default app;
@@ -0,0 +1,154 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { getDb } from "../../db/client";
+import { apiData } from "../../db/schema";
+import { eq, and, desc, asc, gte, lte, count, sql } from "drizzle-orm";
+import { kvCache, cacheControl } from "../../core/cache";
+import { rateLimit } from "../../core/rate-limit";
+import { ValidationError } from "../../core/errors";
+import { ErroSchema, EtiquetasTodasSchema } from "../schemas";
+import { parseTagList, allTagsCondition } from "../filters";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const TagFacetSchema = z
+  .object({
+    tag: z.string().openapi({ description: "Etiqueta", example: "sismologia" }),
+    count: z.number().openapi({ description: "Número de registos api_data com esta etiqueta", example: 128 }),
+  })
+  .openapi("TagFacet");
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getTagFacets = createRoute({
+  method: "get",
+  path: "/v1/facets/tags",
+  tags: ["Search"],
+  summary: "Contagem de registos por etiqueta",
+  description:
+    "Devolve as etiquetas presentes em api_data e quantos registos têm cada uma, da mais frequente para a menos frequente. Com `tags` devolve as etiquetas que coocorrem com as já escolhidas — útil para construir filtros progressivos.",
+  request: {
+    query: z.object({
+      adapterId: z.string().optional().openapi({
+        param: { name: "adapterId", in: "query" },
+        description: "Filtrar por identificador do adapter",
+        example: "sismos",
+      }),
+      payloadType: z.string().optional().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Filtrar por tipo de payload",
+        example: "sismo",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+        example: "lisboa",
+      }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      from: z.string().optional().openapi({
+        param: { name: "from", in: "query" },
+        description: "Início do intervalo (ISO 8601)",
+        example: "2026-01-01T00:00:00Z",
+      }),
+      to: z.string().optional().openapi({
+        param: { name: "to", in: "query" },
+        description: "Fim do intervalo (ISO 8601)",
+        example: "2026-02-05T00:00:00Z",
+      }),
+      limit: z.coerce.number().int().min(1).max(500).default(100).openapi({
+        param: { name: "limit", in: "query" },
+        description: "Número máximo de etiquetas",
+        example: 100,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            data: z.array(TagFacetSchema),
+            meta: z.object({
+              adapterId: z.string().nullable(),
+              payloadType: z.string().nullable(),
+              locationId: z.string().nullable(),
+              tags: z.array(z.string()),
+            }),
+          }),
+        },
+      },
+      description: "Etiquetas e respetivas contagens",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Filtro de etiquetas inválido",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/facets/*", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "facets" }));
+app.use("/v1/facets/*", kvCache({ ttlSeconds: 600, prefix: "facets" }));
+app.use("/v1/facets/*", cacheControl(300, 600));
+
+app.openapi(getTagFacets, async (c) => {
+  const { adapterId, payloadType, locationId, tags, from, to, limit } = c.req.valid("query");
+  const db = getDb(c.env);
+
+  const conditions = [];
+  if (adapterId) conditions.push(eq(apiData.apiSource, adapterId));
+  if (payloadType) conditions.push(eq(apiData.payloadType, payloadType));
+  if (locationId) conditions.push(eq(apiData.locationId, locationId));
+  if (from) conditions.push(gte(apiData.timestamp, new Date(from)));
+  if (to) conditions.push(lte(apiData.timestamp, new Date(to)));
+
+  let selected: string[];
+  try {
+    selected = parseTagList(tags);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+  conditions.push(...allTagsCondition(selected));
+
+  // One row per (record, tag) via json_each; records without tags produce no rows
+  const tag = sql<string>`je.value`.as("tag");
+  if (selected.length > 0) {
+    conditions.push(sql`je.value not in (${sql.join(selected.map((t) => sql`${t}`), sql`, `)})`);
+  }
+  const rows = await db
+    .select({ tag, count: count().as("count") })
+    .from(apiData)
+    .innerJoin(sql`json_each(${apiData.tags}) as je`, sql`true`)
+    .where(and(...conditions))
+    .groupBy(sql`tag`)
+    .orderBy(desc(sql`count`), asc(sql`tag`))
+    .limit(limit);
+
+  return c.json(
+    {
+      data: rows.map((r) => ({ tag: r.tag, count: r.count })),
+      meta: {
+        adapterId: adapterId ?? null,
+        payloadType: payloadType ?? null,
+        locationId: locationId ?? null,
+        tags: selected,
+      },
+    },
+    200,
+  );
+});
+
+export default app;
@@ -0,0 +1,245 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { registry } from "../../core/registry";
+import { getDb } from "../../db/client";
+import { apiData } from "../../db/schema";
+import { eq, and, gte, lte, asc, count, isNotNull, sql, type SQL } from "drizzle-orm";
+import { kvCache, cacheControl } from "../../core/cache";
+import { rateLimit } from "../../core/rate-limit";
+import { ErroSchema, PaginacaoSchema, CampoPayloadSchema } from "../schemas";
+import { numericPayloadField } from "../filters";
+
+// ---------------------------------------------------------------------------
+// Bucketing & aggregation
+// ---------------------------------------------------------------------------
+
+const INTERVALS = ["hour", "day", "week", "month"] as const;
+const AGGREGATIONS = ["avg", "min", "max", "sum", "last", "count"] as const;
+
+type Interval = (typeof INTERVALS)[number];
+type Aggregation = (typeof AGGREGATIONS)[number];
+
+/**
+ * Bucket start (UTC, ISO 8601) for each interval. `timestamp` is stored in
+ * epoch seconds. Weeks start on Monday.
+ */
+function bucketExpr(interval: Interval): SQL<string> {
+  switch (interval) {
+    case "hour":
+      return sql<string>`strftime('%Y-%m-%dT%H:00:00Z', ${apiData.timestamp}, 'unixepoch')`;
+    case "day":
+      return sql<string>`strftime('%Y-%m-%dT00:00:00Z', ${apiData.timestamp}, 'unixepoch')`;
+    case "week":
+      return sql<string>`strftime('%Y-%m-%dT00:00:00Z', ${apiData.timestamp}, 'unixepoch', '-6 days', 'weekday 1')`;
+    case "month":
+      return sql<string>`strftime('%Y-%m-01T00:00:00Z', ${apiData.timestamp}, 'unixepoch')`;
+  }
+}
+
+/**
+ * Aggregate expression over the numeric field. `last` relies on SQLite's
+ * bare-column rule: with a single max() aggregate, bare columns come from
+ * the row holding the maximum — here the newest row of the bucket.
+ */
+function aggregationExpr(aggregation: Aggregation, value: SQL<number | null>): SQL<number | null> {
+  switch (aggregation) {
+    case "avg":
+      return sql<number | null>`avg(${value})`;
+    case "min":
+      return sql<number | null>`min(${value})`;
+    case "max":
+      return sql<number | null>`max(${value})`;
+    case "sum":
+      return sql<number | null>`sum(${value})`;
+    case "last":
+      return value;
+    case "count":
+      return sql<number>`count(*)`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const HistoryPointSchema = z
+  .object({
+    bucket: z.string().openapi({ description: "Início do intervalo (ISO 8601, UTC)", example: "2026-02-01T00:00:00Z" }),
+    value: z.number().nullable().openapi({ description: "Valor agregado no intervalo", example: 14.2 }),
+    count: z.number().openapi({ description: "Número de registos que contribuíram para o valor", example: 24 }),
+  })
+  .openapi("HistoryPoint");
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getHistory = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/history",
+  tags: ["Sources"],
+  summary: "Timeseries históricas agregadas por intervalo",
+  description:
+    "Agrega os registos api_data de uma fonte e tipo de payload em intervalos de tempo (hora, dia, semana, mês), sobre um campo numérico do payload. Os intervalos são paginados por ordem cronológica.",
+  request: {
+    params: z.object({
+      sourceId: z.string().openapi({
+        param: { name: "sourceId", in: "path" },
+        description: "Identificador do adapter",
+        example: "tempo",
+      }),
+    }),
+    query: z.object({
+      payloadType: z.string().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Tipo de payload",
+        example: "observacao-estacao",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+        example: "ipma-estacao-1200579",
+      }),
+      field: CampoPayloadSchema.optional().openapi({
+        param: { name: "field", in: "query" },
+        description: "Campo numérico do payload a agregar (caminho com pontos). Obrigatório exceto para aggregation=count.",
+        example: "temperatura",
+      }),
+      interval: z.enum(INTERVALS).default("day").openapi({
+        param: { name: "interval", in: "query" },
+        description: "Tamanho do intervalo (semanas começam à segunda-feira)",
+        example: "day",
+      }),
+      aggregation: z.enum(AGGREGATIONS).default("avg").openapi({
+        param: { name: "aggregation", in: "query" },
+        description: "Função de agregação; `last` devolve o valor do registo mais recente do intervalo",
+        example: "avg",
+      }),
+      from: z.string().optional().openapi({
+        param: { name: "from", in: "query" },
+        description: "Início do intervalo (ISO 8601)",
+        example: "2026-01-01T00:00:00Z",
+      }),
+      to: z.string().optional().openapi({
+        param: { name: "to", in: "query" },
+        description: "Fim do intervalo (ISO 8601)",
+        example: "2026-02-05T00:00:00Z",
+      }),
+      limit: z.coerce.number().int().min(1).max(1000).default(200).openapi({
+        param: { name: "limit", in: "query" },
+        description: "Número máximo de intervalos",
+        example: 200,
+      }),
+      offset: z.coerce.number().int().min(0).default(0).openapi({
+        param: { name: "offset", in: "query" },
+        description: "Desvio da paginação",
+        example: 0,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            data: z.array(HistoryPointSchema),
+            meta: z.object({
+              sourceId: z.string(),
+              payloadType: z.string(),
+              locationId: z.string().nullable(),
+              field: z.string().nullable(),
+              interval: z.enum(INTERVALS),
+              aggregation: z.enum(AGGREGATIONS),
+            }),
+            pagination: PaginacaoSchema,
+          }),
+        },
+      },
+      description: "Série temporal agregada",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Parâmetros inválidos",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte não encontrada",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/sources/*/history", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "history" }));
+app.use("/v1/sources/*/history", kvCache({ ttlSeconds: 600, prefix: "history" }));
+app.use("/v1/sources/*/history", cacheControl(300, 600));
+
+app.openapi(getHistory, async (c) => {
+  const { sourceId } = c.req.valid("param");
+
+  if (!registry.has(sourceId)) {
+    return c.json({ error: "Source not found" } as const, 404);
+  }
+
+  const { payloadType, locationId, field, interval, aggregation, from, to, limit, offset } =
+    c.req.valid("query");
+
+  if (!field && aggregation !== "count") {
+    return c.json(
+      { error: "Missing field", details: `aggregation '${aggregation}' requires a numeric 'field'` },
+      400,
+    );
+  }
+
+  const db = getDb(c.env);
+
+  const conditions = [eq(apiData.apiSource, sourceId), eq(apiData.payloadType, payloadType)];
+  if (locationId) conditions.push(eq(apiData.locationId, locationId));
+  if (from) conditions.push(gte(apiData.timestamp, new Date(from)));
+  if (to) conditions.push(lte(apiData.timestamp, new Date(to)));
+
+  const value = field ? numericPayloadField(field) : sql<number | null>`null`;
+  if (field) conditions.push(isNotNull(value));
+
+  const bucket = bucketExpr(interval).as("bucket");
+  const grouped = db
+    .select({
+      bucket,
+      value: aggregationExpr(aggregation, value).as("value"),
+      count: count().as("count"),
+      ...(aggregation === "last" ? { newest: sql<number>`max(${apiData.timestamp})`.as("newest") } : {}),
+    })
+    .from(apiData)
+    .where(and(...conditions))
+    .groupBy(sql`bucket`);
+
+  const [rows, [{ total }]] = await Promise.all([
+    grouped.orderBy(asc(sql`bucket`)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(grouped.as("buckets")),
+  ]);
+
+  return c.json(
+    {
+      data: rows.map((r) => ({
+        bucket: r.bucket,
+        value: r.value === null ? null : Number(r.value),
+        count: r.count,
+      })),
+      meta: {
+        sourceId,
+        payloadType,
+        locationId: locationId ?? null,
+        field: field ?? null,
+        interval,
+        aggregation,
+      },
+      pagination: { total, limit, offset, hasMore: offset + rows.length < total },
+    },
+    200,
+  );
+});
+
+export default app;
@@ -1,10 +1,30 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import { getDb } from "../../db/client";
 import { locations, apiData, documents } from "../../db/schema";
-import { eq, and, like, desc, count } from "drizzle-orm";
-import { kvCache, cacheControl } from "../../core/cache";
+import { eq, and, like, desc, count, isNotNull, type SQL } from "drizzle-orm";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
 import { rateLimit } from "../../core/rate-limit";
-import { ErroSchema } from "../schemas";
+import {
+  ErroSchema,
+  PaginacaoCursorSchema,
+  EtiquetasTodasSchema,
+  EtiquetasAlgumaSchema,
+  FormatoRespostaGeoSchema,
+  RespostaCsvSchema,
+  ColecaoGeoJsonSchema,
+  comPayloadTipado,
+} from "../schemas";
+import { encodeCursor, decodeCursor, afterCursor } from "../cursor";
+import { compileTagFilters, parseNear, parseBbox } from "../filters";
+import { ValidationError } from "../../core/errors";
+import { responseFormat, csvResponse, geoJsonResponse, featureCollection, toPoint } from "../../core/formats";
+import {
+  withinBoundingBox,
+  locationsWithinRadius,
+  nearestLocations,
+  MAX_DISTANCE_KM,
+  type GeoPoint,
+} from "../../core/geo";
 
 // ---------------------------------------------------------------------------
 // Schemas
@@ -21,27 +41,40 @@ const LocationSchema = z
   })
   .openapi("Location");
 
+const LocationResultSchema = LocationSchema.extend({
+  distanceKm: z.number().nullable().openapi({
+    description: "Distância ao ponto `near` em km (null sem `near`)",
+    example: 2.4,
+  }),
+}).openapi("LocationResult");
+
+/** Header of `format=csv`, the same on every page; metadata is one JSON column. */
+const LOCATION_CSV_COLUMNS = Object.keys(LocationResultSchema.shape);
+
 const PaginationInfoSchema = z.object({
-  total: z.number(),
+  total: z.number().nullable(),
   limit: z.number(),
   offset: z.number(),
   hasMore: z.boolean(),
 });
 
+const LocationDataItemSchema = comPayloadTipado(
+  z.object({
+    id: z.string(),
+    apiSource: z.string().openapi({ description: "Identificador do adapter" }),
+    payloadType: z.string().openapi({ description: "Tipo do payload" }),
+    payload: z.record(z.string(), z.unknown()).openapi({ description: "Payload JSON" }),
+    timestamp: z.string().openapi({ description: "Hora de observação (ISO 8601)" }),
+    scrapedAt: z.string().openapi({ description: "Hora de ingestão (ISO 8601)" }),
+  }),
+  "LocationDataItem",
+);
+
 const LocationDataSchema = z
   .object({
     apiData: z.object({
-      items: z.array(
-        z.object({
-          id: z.string(),
-          apiSource: z.string().openapi({ description: "Identificador do adapter" }),
-          payloadType: z.string().openapi({ description: "Tipo do payload" }),
-          payload: z.record(z.string(), z.unknown()).openapi({ description: "Payload JSON" }),
-          timestamp: z.string().openapi({ description: "Hora de observação (ISO 8601)" }),
-          scrapedAt: z.string().openapi({ description: "Hora de ingestão (ISO 8601)" }),
-        }),
-      ),
-      pagination: PaginationInfoSchema,
+      items: z.array(LocationDataItemSchema),
+      pagination: PaginacaoCursorSchema,
     }).openapi({ description: "Dados api_data associados a esta localização" }),
     documents: z.object({
       items: z.array(
@@ -68,7 +101,7 @@ const listLocations = createRoute({
   tags: ["Locations"],
   summary: "Listar todas as localizações",
   description:
-    "Devolve todas as localizações partilhadas registadas pelos adapters. Suporta filtro por tipo, região, distrito ou pesquisa por nome.",
+    "Devolve todas as localizações partilhadas registadas pelos adapters. Suporta filtro por tipo, região, distrito ou pesquisa por nome.\n\nConsultas geográficas: `near` ordena por distância (haversine) e preenche `distanceKm`; combine com `radius` para limitar a um raio ou com `nearest` para as N mais próximas. `bbox` limita a um retângulo. Localizações sem coordenadas são excluídas destas consultas.",
   request: {
     query: z.object({
       type: z.string().optional().openapi({
@@ -81,6 +114,26 @@ const listLocations = createRoute({
         description: "Pesquisar por nome da localização",
         example: "lisb",
       }),
+      near: z.string().optional().openapi({
+        param: { name: "near", in: "query" },
+        description: "Ponto de referência `latitude,longitude`",
+        example: "38.7223,-9.1393",
+      }),
+      radius: z.coerce.number().positive().max(MAX_DISTANCE_KM).optional().openapi({
+        param: { name: "radius", in: "query" },
+        description: "Raio em km à volta de `near`",
+        example: 25,
+      }),
+      nearest: z.coerce.number().int().min(1).max(500).optional().openapi({
+        param: { name: "nearest", in: "query" },
+        description: "Devolver apenas as N localizações mais próximas de `near`",
+        example: 5,
+      }),
+      bbox: z.string().optional().openapi({
+        param: { name: "bbox", in: "query" },
+        description: "Retângulo `minLon,minLat,maxLon,maxLat` (ordem GeoJSON)",
+        example: "-9.5,38.6,-9.0,38.9",
+      }),
       limit: z.coerce.number().int().min(1).max(500).default(100).openapi({
         param: { name: "limit", in: "query" },
         description: "Número máximo de resultados",
@@ -91,6 +144,9 @@ const listLocations = createRoute({
         description: "Desvio da paginação",
         example: 0,
       }),
+      format: FormatoRespostaGeoSchema.optional().openapi({
+        param: { name: "format", in: "query" },
+      }),
     }),
   },
   responses: {
@@ -98,13 +154,19 @@ const listLocations = createRoute({
       content: {
         "application/json": {
           schema: z.object({
-            data: z.array(LocationSchema),
+            data: z.array(LocationResultSchema),
             total: z.number(),
           }),
         },
+        "text/csv": { schema: RespostaCsvSchema },
+        "application/geo+json": { schema: ColecaoGeoJsonSchema },
       },
       description: "Lista de localizações",
     },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Consulta geográfica inválida",
+    },
   },
 });
 
@@ -141,7 +203,7 @@ const getLocationData = createRoute({
   tags: ["Locations"],
   summary: "Todos os dados de uma localização",
   description:
-    "Consulta cross-source: devolve api_data e documentos associados a esta localização de todos os adapters. Suporta paginação independente para api_data e documentos.",
+    "Consulta cross-source: devolve api_data e documentos associados a esta localização de todos os adapters. Suporta paginação independente para api_data (por cursor ou offset) e documentos.",
   request: {
     params: z.object({
       locationId: z.string().openapi({
@@ -158,9 +220,19 @@ const getLocationData = createRoute({
       }),
       apiDataOffset: z.coerce.number().int().min(0).default(0).openapi({
         param: { name: "apiDataOffset", in: "query" },
-        description: "Offset de paginação para api_data",
+        description: "Offset de paginação para api_data (não combinável com apiDataCursor)",
         example: 0,
       }),
+      apiDataCursor: z.string().optional().openapi({
+        param: { name: "apiDataCursor", in: "query" },
+        description: "Cursor opaco devolvido em apiData.pagination.nextCursor",
+      }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      anyTags: EtiquetasAlgumaSchema.optional().openapi({
+        param: { name: "anyTags", in: "query" },
+      }),
       docLimit: z.coerce.number().int().min(1).max(100).default(20).openapi({
         param: { name: "docLimit", in: "query" },
         description: "Número máximo de documentos",
@@ -171,6 +243,11 @@ const getLocationData = createRoute({
         description: "Offset de paginação para documentos",
         example: 0,
       }),
+      includeTotal: z.enum(["true", "false"]).default("false").openapi({
+        param: { name: "includeTotal", in: "query" },
+        description: "Calcular o número total de registos api_data e documentos",
+        example: "false",
+      }),
     }),
   },
   responses: {
@@ -185,6 +262,10 @@ const getLocationData = createRoute({
       },
       description: "Todos os dados desta localização de todas as fontes",
     },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Cursor ou filtro de etiquetas inválido",
+    },
     404: {
       content: { "application/json": { schema: ErroSchema } },
       description: "Localização não encontrada",
@@ -206,26 +287,62 @@ app.use("/v1/locations/*/data", kvCache({ ttlSeconds: 300, prefix: "locdata" }))
 app.use("/v1/locations/*/data", cacheControl(60, 120));
 
 app.openapi(listLocations, async (c) => {
-  const { type, q, limit, offset } = c.req.valid("query");
+  const { type, q, near, radius, nearest, bbox, limit, offset } = c.req.valid("query");
   const db = getDb(c.env);
 
-  const conditions = [];
+  const conditions: SQL[] = [];
   if (type) conditions.push(eq(locations.type, type));
   if (q) conditions.push(like(locations.name, `%${q}%`));
 
-  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+  let point: GeoPoint | undefined;
+  try {
+    if (near) point = parseNear(near);
+    if (bbox) conditions.push(withinBoundingBox(parseBbox(bbox)));
+    if (!point && (radius !== undefined || nearest !== undefined)) {
+      throw new ValidationError("radius and nearest require near");
+    }
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid geo query", details: err.message }, 400);
+    }
+    throw err;
+  }
 
-  const [{ total }] = await db
-    .select({ total: count() })
-    .from(locations)
-    .where(whereClause);
+  let rows: (typeof locations.$inferSelect)[];
+  let total: number;
+  let distances = new Map<string, number>();
 
-  const rows = await db
-    .select()
-    .from(locations)
-    .where(whereClause)
-    .limit(limit)
-    .offset(offset);
+  if (point) {
+    // Distance-ordered: rank candidates in memory, then page
+    conditions.push(isNotNull(locations.latitude), isNotNull(locations.longitude));
+    const ranked =
+      radius !== undefined
+        ? await locationsWithinRadius(db, conditions, point, radius)
+        : await nearestLocations(db, conditions, point, nearest ?? offset + limit);
+    const selected = nearest !== undefined ? ranked.slice(0, nearest) : ranked;
+
+    if (radius !== undefined || nearest !== undefined) {
+      total = selected.length;
+    } else {
+      [{ total }] = await db.select({ total: count() }).from(locations).where(and(...conditions));
+    }
+    rows = selected.slice(offset, offset + limit).map((r) => r.row);
+    distances = new Map(selected.map((r) => [r.row.id, r.distanceKm]));
+  } else {
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    [{ total }] = await db
+      .select({ total: count() })
+      .from(locations)
+      .where(whereClause);
+
+    rows = await db
+      .select()
+      .from(locations)
+      .where(whereClause)
+      .limit(limit)
+      .offset(offset);
+  }
 
   const data = rows.map((r) => ({
     id: r.id,
@@ -234,8 +351,26 @@ app.openapi(listLocations, async (c) => {
     longitude: r.longitude,
     type: r.type,
     metadata: r.metadata ? JSON.parse(r.metadata) : null,
+    distanceKm: distances.get(r.id) ?? null,
   }));
 
+  const format = responseFormat(c);
+  if (format === "csv") {
+    return csvResponse(c, data, LOCATION_CSV_COLUMNS, "locations.csv", {
+      total,
+      next: offset + limit < total ? { offset: String(offset + limit) } : null,
+    });
+  }
+  if (format === "geojson") {
+    const features = data.map(({ id, latitude, longitude, ...properties }) => ({
+      type: "Feature" as const,
+      id,
+      geometry: toPoint(latitude, longitude),
+      properties,
+    }));
+    return geoJsonResponse(c, featureCollection(features, { total }));
+  }
+
   return c.json({ data, total });
 });
 
@@ -270,7 +405,8 @@ app.openapi(getLocation, async (c) => {
 
 app.openapi(getLocationData, async (c) => {
   const { locationId } = c.req.valid("param");
-  const { apiDataLimit, apiDataOffset, docLimit, docOffset } = c.req.valid("query");
+  const { apiDataLimit, apiDataOffset, apiDataCursor, tags, anyTags, docLimit, docOffset, includeTotal } =
+    c.req.valid("query");
   const db = getDb(c.env);
 
   const [loc] = await db
@@ -283,31 +419,62 @@ app.openapi(getLocationData, async (c) => {
     return c.json({ error: "Location not found" } as const, 404);
   }
 
-  const [apiDataRows, docRows, [{ apiDataTotal }], [{ docTotal }]] = await Promise.all([
+  const apiDataFilters = [eq(apiData.locationId, locationId)];
+  try {
+    apiDataFilters.push(...compileTagFilters(tags, anyTags));
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  const apiDataConditions = [...apiDataFilters];
+  if (apiDataCursor) {
+    if (apiDataOffset > 0) {
+      return c.json(
+        { error: "Invalid pagination", details: "apiDataCursor and apiDataOffset cannot be combined" },
+        400,
+      );
+    }
+    const decoded = decodeCursor(apiDataCursor);
+    if (!decoded) {
+      return c.json({ error: "Invalid cursor" } as const, 400);
+    }
+    apiDataConditions.push(afterCursor(decoded));
+  }
+
+  const withTotals = includeTotal === "true";
+  const [apiDataPage, docPage, apiDataCount, docCount] = await Promise.all([
     db
       .select()
       .from(apiData)
-      .where(eq(apiData.locationId, locationId))
-      .orderBy(desc(apiData.timestamp))
-      .limit(apiDataLimit)
+      .where(and(...apiDataConditions))
+      .orderBy(desc(apiData.timestamp), desc(apiData.id))
+      .limit(apiDataLimit + 1)
       .offset(apiDataOffset),
     db
       .select()
       .from(documents)
       .where(eq(documents.locationId, locationId))
       .orderBy(desc(documents.capturedAt))
-      .limit(docLimit)
+      .limit(docLimit + 1)
       .offset(docOffset),
-    db
-      .select({ apiDataTotal: count() })
-      .from(apiData)
-      .where(eq(apiData.locationId, locationId)),
-    db
-      .select({ docTotal: count() })
-      .from(documents)
-      .where(eq(documents.locationId, locationId)),
+    withTotals
+      ? db.select({ total: count() }).from(apiData).where(and(...apiDataFilters))
+      : Promise.resolve(null),
+    withTotals
+      ? db.select({ total: count() }).from(documents).where(eq(documents.locationId, locationId))
+      : Promise.resolve(null),
   ]);
 
+  // Each page fetches one extra row to know whether another page exists
+  const apiDataHasMore = apiDataPage.length > apiDataLimit;
+  const apiDataRows = apiDataHasMore ? apiDataPage.slice(0, apiDataLimit) : apiDataPage;
+  const docHasMore = docPage.length > docLimit;
+  const docRows = docHasMore ? docPage.slice(0, docLimit) : docPage;
+  setLastModified(c, [...apiDataRows.map((r) => r.scrapedAt), ...docRows.map((r) => r.capturedAt)]);
+
   return c.json(
     {
       location: {
@@ -329,10 +496,11 @@ app.openapi(getLocationData, async (c) => {
             scrapedAt: r.scrapedAt instanceof Date ? r.scrapedAt.toISOString() : String(r.scrapedAt),
           })),
           pagination: {
-            total: apiDataTotal,
+            total: apiDataCount ? apiDataCount[0].total : null,
             limit: apiDataLimit,
             offset: apiDataOffset,
-            hasMore: apiDataOffset + apiDataRows.length < apiDataTotal,
+            hasMore: apiDataHasMore,
+            nextCursor: apiDataHasMore ? encodeCursor(apiDataRows[apiDataRows.length - 1]) : null,
           },
         },
         documents: {
@@ -344,10 +512,10 @@ app.openapi(getLocationData, async (c) => {
             capturedAt: r.capturedAt.toISOString(),
           })),
           pagination: {
-            total: docTotal,
+            total: docCount ? docCount[0].total : null,
             limit: docLimit,
             offset: docOffset,
-            hasMore: docOffset + docRows.length < docTotal,
+            hasMore: docHasMore,
           },
         },
       },
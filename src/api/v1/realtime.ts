@@ -0,0 +1,164 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { registry } from "../../core/registry";
+import { getDb } from "../../db/client";
+import { apiData } from "../../db/schema";
+import { eq, and, asc, sql } from "drizzle-orm";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
+import { FREQUENCY_SECONDS } from "../../core/scheduler";
+import { ErroSchema, comPayloadTipado } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const RealtimeValueSchema = comPayloadTipado(
+  z.object({
+    id: z.string().openapi({ description: "Identificador único do registo" }),
+    payloadType: z.string().openapi({ description: "Tipo do payload", example: "observacao-estacao" }),
+    locationId: z.string().nullable().openapi({ description: "Identificador da localização associada" }),
+    timestamp: z.string().openapi({ description: "Hora de observação/captura (ISO 8601)" }),
+    scrapedAt: z.string().openapi({ description: "Hora de ingestão (ISO 8601)" }),
+    payload: z.record(z.string(), z.unknown()).openapi({ description: "Payload JSON" }),
+    tags: z.array(z.string()).nullable().openapi({ description: "Etiquetas" }),
+    freshness: z
+      .object({
+        ageSeconds: z.number().openapi({ description: "Segundos desde a ingestão deste valor", example: 1800 }),
+        expectedIntervalSeconds: z.number().openapi({
+          description: "Intervalo esperado entre recolhas, segundo o agendamento mais frequente do adapter (um dia se não tiver agendamentos)",
+          example: 3600,
+        }),
+        stale: z.boolean().openapi({
+          description: "Verdadeiro se não foi ingerido nenhum valor novo em mais do dobro do intervalo esperado",
+        }),
+      })
+      .openapi({ description: "Antiguidade do valor face à frequência de recolha" }),
+  }),
+  "RealtimeValue",
+);
+
+/** Expected interval for adapters that declare no schedule (data pushed or ingested by hand). */
+const DEFAULT_INTERVAL_SECONDS = FREQUENCY_SECONDS.daily;
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getRealtime = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/realtime",
+  tags: ["Sources"],
+  summary: "Valores mais recentes de uma fonte",
+  description:
+    "Devolve o registo api_data mais recente para cada par (payloadType, locationId) da fonte, com a antiguidade de cada valor face à frequência de recolha do adapter.",
+  request: {
+    params: z.object({
+      sourceId: z.string().openapi({
+        param: { name: "sourceId", in: "path" },
+        description: "Identificador do adapter",
+        example: "tempo",
+      }),
+    }),
+    query: z.object({
+      payloadType: z.string().optional().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Filtrar por tipo de payload",
+        example: "observacao-estacao",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+        example: "ipma-estacao-1200579",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({ data: z.array(RealtimeValueSchema) }),
+        },
+      },
+      description: "Valores mais recentes da fonte",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte não encontrada",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+// Registered before kvCache so KV hits also get max-age=60 instead of the KV TTL
+app.use("/v1/sources/*/realtime", cacheControl(60, 120));
+app.use("/v1/sources/*/realtime", kvCache({ ttlSeconds: 120, prefix: "realtime" }));
+
+app.openapi(getRealtime, async (c) => {
+  const { sourceId } = c.req.valid("param");
+  const adapter = registry.get(sourceId);
+
+  if (!adapter) {
+    return c.json({ error: "Source not found" } as const, 404);
+  }
+
+  const { payloadType, locationId } = c.req.valid("query");
+  const db = getDb(c.env);
+
+  const conditions = [eq(apiData.apiSource, sourceId)];
+  if (payloadType) conditions.push(eq(apiData.payloadType, payloadType));
+  if (locationId) conditions.push(eq(apiData.locationId, locationId));
+
+  // Rank rows within each (payloadType, locationId) pair, newest first
+  const ranked = db
+    .select({
+      id: apiData.id,
+      rn: sql<number>`row_number() over (partition by ${apiData.payloadType}, ${apiData.locationId} order by ${apiData.timestamp} desc, ${apiData.scrapedAt} desc)`.as("rn"),
+    })
+    .from(apiData)
+    .where(and(...conditions))
+    .as("ranked");
+
+  const rows = await db
+    .select({ row: apiData })
+    .from(apiData)
+    .innerJoin(ranked, eq(apiData.id, ranked.id))
+    .where(eq(ranked.rn, 1))
+    .orderBy(asc(apiData.payloadType), asc(apiData.locationId));
+
+  // Expected interval = the adapter's most frequent schedule (daily for adapters without one)
+  const expectedIntervalSeconds =
+    adapter.schedules.length > 0
+      ? Math.min(...adapter.schedules.map((s) => FREQUENCY_SECONDS[s.frequency]))
+      : DEFAULT_INTERVAL_SECONDS;
+  const now = Date.now();
+  setLastModified(c, rows.map(({ row }) => row.scrapedAt));
+
+  return c.json(
+    {
+      data: rows.map(({ row: r }) => {
+        const ageSeconds = Math.max(0, Math.round((now - r.scrapedAt.getTime()) / 1000));
+        return {
+          id: r.id,
+          payloadType: r.payloadType,
+          locationId: r.locationId,
+          timestamp: r.timestamp instanceof Date ? r.timestamp.toISOString() : String(r.timestamp),
+          scrapedAt: r.scrapedAt instanceof Date ? r.scrapedAt.toISOString() : String(r.scrapedAt),
+          payload: JSON.parse(r.payload) as Record<string, unknown>,
+          tags: r.tags ? (JSON.parse(r.tags) as string[]) : null,
+          freshness: {
+            ageSeconds,
+            expectedIntervalSeconds,
+            stale: ageSeconds > expectedIntervalSeconds * 2,
+          },
+        };
+      }),
+    },
+    200,
+  );
+});
+
+export default app;
@@ -1,17 +1,44 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import { getDb } from "../../db/client";
-import { apiData } from "../../db/schema";
-import { eq, and, desc, gte, lte, count } from "drizzle-orm";
-import { kvCache, cacheControl } from "../../core/cache";
+import { apiData, documents, locations } from "../../db/schema";
+import { eq, and, desc, gte, lte, count, inArray, sql, getTableColumns, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
 import { rateLimit } from "../../core/rate-limit";
-import { PaginacaoSchema } from "../schemas";
+import {
+  ErroSchema,
+  PaginacaoCursorSchema,
+  LocalidadeResumoSchema,
+  FiltroPayloadSchema,
+  EtiquetasTodasSchema,
+  EtiquetasAlgumaSchema,
+  FormatoRespostaGeoSchema,
+  RespostaCsvSchema,
+  ColecaoGeoJsonSchema,
+  comPayloadTipado,
+} from "../schemas";
+import { encodeCursor, decodeCursor, afterCursor } from "../cursor";
+import { compileWhereList, compileTagFilters, toFtsQuery } from "../filters";
+import { ValidationError } from "../../core/errors";
+import {
+  responseFormat,
+  csvResponse,
+  geoJsonResponse,
+  featureCollection,
+  payloadPoint,
+  toPoint,
+  schemaColumns,
+} from "../../core/formats";
+import { registry } from "../../core/registry";
+import type { SearchIndexKind } from "../../core/search-index";
+import { notSnapshotDocument } from "../../core/storage";
 
 // ---------------------------------------------------------------------------
 // Schemas
 // ---------------------------------------------------------------------------
 
-const SearchResultSchema = z
-  .object({
+const SearchResultSchema = comPayloadTipado(
+  z.object({
     id: z.string().openapi({ description: "Identificador único do registo" }),
     apiSource: z.string().openapi({ description: "Identificador do adapter", example: "ipma-weather" }),
     payloadType: z.string().openapi({ description: "Tipo do payload", example: "daily-forecast" }),
@@ -20,8 +47,72 @@ const SearchResultSchema = z
     payload: z.record(z.string(), z.unknown()).openapi({ description: "Payload JSON" }),
     tags: z.array(z.string()).nullable().openapi({ description: "Etiquetas" }),
     scrapedAt: z.string().openapi({ description: "Hora de ingestão (ISO 8601)" }),
+    snippet: z.string().nullable().openapi({
+      description: "Excerto com os termos de `q` destacados com <mark> (null sem `q`)",
+      example: "Sismo <mark>NE Arraiolos</mark>",
+    }),
+  }),
+  "SearchResult",
+);
+
+const DocumentMatchSchema = z
+  .object({
+    id: z.string().openapi({ description: "Identificador do documento" }),
+    adapterId: z.string().openapi({ description: "Identificador do adapter" }),
+    name: z.string().openapi({ description: "Nome do ficheiro" }),
+    contentType: z.string().openapi({ description: "Tipo MIME" }),
+    capturedAt: z.string().openapi({ description: "Hora de captura (ISO 8601)" }),
+    snippet: z.string().openapi({ description: "Excerto com os termos destacados" }),
+    downloadUrl: z.string().openapi({ description: "URL para descarregar o ficheiro" }),
   })
-  .openapi("SearchResult");
+  .openapi("DocumentMatch");
+
+const LocationMatchSchema = LocalidadeResumoSchema.extend({
+  type: z.string().openapi({ description: "Tipo de localização", example: "city" }),
+  snippet: z.string().openapi({ description: "Excerto com os termos destacados" }),
+}).openapi("LocationMatch");
+
+// ---------------------------------------------------------------------------
+// Full-text helpers
+// ---------------------------------------------------------------------------
+
+/** Documents and locations returned alongside api_data matches. */
+const RELATED_MATCHES_LIMIT = 10;
+
+/** FTS5 ranking — matches in the title (location / file name) weigh double. */
+const ftsRank = sql`bm25(search_index, 0, 0, 0, 0, 2.0, 1.0)`;
+
+const ftsSnippet = sql<string>`snippet(search_index, -1, '<mark>', '</mark>', '…', 16)`;
+
+/** Join condition between search_index and the table its `kind` points at. */
+function ftsJoin(kind: SearchIndexKind, id: SQLiteColumn): SQL {
+  return sql`search_index.kind = ${kind} and search_index.ref_id = ${id}`;
+}
+
+// ---------------------------------------------------------------------------
+// CSV columns
+// ---------------------------------------------------------------------------
+
+/**
+ * Columns of `format=csv`. The payload is split into `payload.<path>`
+ * columns only when adapterId and payloadType name a declared payload
+ * schema; otherwise rows of any shape can share a page, so it stays one
+ * JSON column.
+ */
+function csvColumns(adapterId: string | undefined, payloadType: string | undefined): string[] {
+  const schema = adapterId && payloadType ? registry.get(adapterId)?.payloadSchemas?.[payloadType] : undefined;
+  return [
+    "id",
+    "apiSource",
+    "payloadType",
+    "locationId",
+    "timestamp",
+    ...(schema ? schemaColumns(schema, "payload") : ["payload"]),
+    "tags",
+    "scrapedAt",
+    "snippet",
+  ];
+}
 
 // ---------------------------------------------------------------------------
 // Route
@@ -33,9 +124,15 @@ const search = createRoute({
   tags: ["Search"],
   summary: "Pesquisar em todas as fontes",
   description:
-    "Pesquisa em api_data por adapter, localização ou intervalo de tempo. Devolve registos com payload JSON.",
+    "Pesquisa em api_data por texto livre (`q`), adapter, localização, intervalo de tempo, etiquetas (`tags`, `anyTags`) ou campos do payload (`where`). Devolve registos com payload JSON, do mais recente para o mais antigo. Para percorrer grandes intervalos use `cursor` (paginação por keyset, estável durante a ingestão) em vez de `offset`.\n\nCom `q` os resultados são ordenados por relevância (paginação por `offset`), trazem um excerto destacado e a resposta inclui também os documentos e localizações que correspondem ao texto.",
   request: {
     query: z.object({
+      q: z.string().min(1).max(200).optional().openapi({
+        param: { name: "q", in: "query" },
+        description:
+          "Texto livre: todas as palavras têm de ocorrer (sem distinção de acentos ou maiúsculas). Termine uma palavra com `*` para pesquisa por prefixo.",
+        example: "arraiolos",
+      }),
       adapterId: z.string().optional().openapi({
         param: { name: "adapterId", in: "query" },
         description: "Filtrar por identificador do adapter",
@@ -51,6 +148,15 @@ const search = createRoute({
         description: "Filtrar por identificador da localização",
         example: "lisboa",
       }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      anyTags: EtiquetasAlgumaSchema.optional().openapi({
+        param: { name: "anyTags", in: "query" },
+      }),
+      where: FiltroPayloadSchema.optional().openapi({
+        param: { name: "where", in: "query", style: "form", explode: true },
+      }),
       from: z.string().optional().openapi({
         param: { name: "from", in: "query" },
         description: "Início do intervalo (ISO 8601)",
@@ -68,9 +174,23 @@ const search = createRoute({
       }),
       offset: z.coerce.number().int().min(0).default(0).openapi({
         param: { name: "offset", in: "query" },
-        description: "Desvio da paginação",
+        description: "Desvio da paginação (não combinável com cursor)",
         example: 0,
       }),
+      cursor: z.string().optional().openapi({
+        param: { name: "cursor", in: "query" },
+        description: "Cursor opaco devolvido em pagination.nextCursor",
+      }),
+      includeTotal: z.enum(["true", "false"]).default("false").openapi({
+        param: { name: "includeTotal", in: "query" },
+        description: "Calcular o número total de resultados (mais lento em intervalos grandes)",
+        example: "false",
+      }),
+      format: FormatoRespostaGeoSchema.optional().openapi({
+        param: { name: "format", in: "query" },
+        description:
+          "Formato da resposta: `json` (predefinido), `csv` ou `geojson`, também negociável com `Accept: text/csv` ou `Accept: application/geo+json`. Em CSV o payload fica numa coluna JSON, ou dividido em colunas `payload.<caminho>` quando `adapterId` e `payloadType` indicam um tipo de payload com esquema declarado.",
+      }),
     }),
   },
   responses: {
@@ -79,11 +199,23 @@ const search = createRoute({
         "application/json": {
           schema: z.object({
             data: z.array(SearchResultSchema),
-            pagination: PaginacaoSchema,
+            documents: z.array(DocumentMatchSchema).optional().openapi({
+              description: "Documentos que correspondem a `q` (apenas com `q`)",
+            }),
+            locations: z.array(LocationMatchSchema).optional().openapi({
+              description: "Localizações que correspondem a `q` (apenas com `q`)",
+            }),
+            pagination: PaginacaoCursorSchema,
           }),
         },
+        "text/csv": { schema: RespostaCsvSchema },
+        "application/geo+json": { schema: ColecaoGeoJsonSchema },
       },
-      description: "Resultados da pesquisa",
+      description: "Resultados da pesquisa (em CSV e GeoJSON apenas os registos api_data)",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Cursor ou filtro inválido",
     },
   },
 });
@@ -100,7 +232,21 @@ app.use("/v1/search", kvCache({ ttlSeconds: 120, prefix: "search" }));
 app.use("/v1/search", cacheControl(60, 120));
 
 app.openapi(search, async (c) => {
-  const { adapterId, payloadType, locationId, from, to, limit, offset } = c.req.valid("query");
+  const {
+    q,
+    adapterId,
+    payloadType,
+    locationId,
+    tags,
+    anyTags,
+    where,
+    from,
+    to,
+    limit,
+    offset,
+    cursor,
+    includeTotal,
+  } = c.req.valid("query");
   const db = getDb(c.env);
 
   const conditions = [];
@@ -109,35 +255,171 @@ app.openapi(search, async (c) => {
   if (locationId) conditions.push(eq(apiData.locationId, locationId));
   if (from) conditions.push(gte(apiData.timestamp, new Date(from)));
   if (to) conditions.push(lte(apiData.timestamp, new Date(to)));
+  let ftsQuery: string | undefined;
+  try {
+    conditions.push(...compileTagFilters(tags, anyTags), ...compileWhereList(where));
+    if (q) ftsQuery = toFtsQuery(q);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  if (ftsQuery) conditions.push(sql`search_index match ${ftsQuery}`);
+  const filterClause = conditions.length > 0 ? and(...conditions) : undefined;
 
-  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-  const [{ total }] = await db
-    .select({ total: count() })
-    .from(apiData)
-    .where(whereClause);
-
-  const rows = await db
-    .select()
-    .from(apiData)
-    .where(whereClause)
-    .orderBy(desc(apiData.timestamp))
-    .limit(limit)
-    .offset(offset);
-
-  return c.json({
-    data: rows.map((r) => ({
-      id: r.id,
-      apiSource: r.apiSource,
-      payloadType: r.payloadType,
-      locationId: r.locationId,
-      timestamp: r.timestamp instanceof Date ? r.timestamp.toISOString() : String(r.timestamp),
-      payload: JSON.parse(r.payload) as Record<string, unknown>,
-      tags: r.tags ? (JSON.parse(r.tags) as string[]) : null,
-      scrapedAt: r.scrapedAt instanceof Date ? r.scrapedAt.toISOString() : String(r.scrapedAt),
-    })),
-    pagination: { total, limit, offset, hasMore: offset + rows.length < total },
-  });
+  const pageConditions = [...conditions];
+  if (cursor) {
+    if (offset > 0) {
+      return c.json({ error: "Invalid pagination", details: "cursor and offset cannot be combined" }, 400);
+    }
+    if (ftsQuery) {
+      return c.json({ error: "Invalid pagination", details: "cursor cannot be combined with q" }, 400);
+    }
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      return c.json({ error: "Invalid cursor" } as const, 400);
+    }
+    pageConditions.push(afterCursor(decoded));
+  }
+
+  const selectPage = () => {
+    const base = db
+      .select({ ...getTableColumns(apiData), snippet: ftsQuery ? ftsSnippet : sql<string | null>`null` })
+      .from(apiData)
+      .$dynamic();
+    return ftsQuery
+      ? base.innerJoin(sql`search_index`, ftsJoin("api_data", apiData.id)).orderBy(ftsRank, desc(apiData.timestamp))
+      : base.orderBy(desc(apiData.timestamp), desc(apiData.id));
+  };
+  const selectTotal = () => {
+    const base = db.select({ total: count() }).from(apiData).$dynamic();
+    return ftsQuery ? base.innerJoin(sql`search_index`, ftsJoin("api_data", apiData.id)) : base;
+  };
+
+  // Fetch one extra row to know whether another page exists
+  const [page, totalRows, documentMatches, locationMatches] = await Promise.all([
+    selectPage()
+      .where(pageConditions.length > 0 ? and(...pageConditions) : undefined)
+      .limit(limit + 1)
+      .offset(offset),
+    includeTotal === "true" ? selectTotal().where(filterClause) : Promise.resolve(null),
+    ftsQuery
+      ? db
+          .select({
+            id: documents.id,
+            adapterId: documents.adapterId,
+            name: documents.name,
+            contentType: documents.contentType,
+            capturedAt: documents.capturedAt,
+            snippet: ftsSnippet,
+          })
+          .from(documents)
+          .innerJoin(sql`search_index`, ftsJoin("document", documents.id))
+          .where(
+            and(
+              sql`search_index match ${ftsQuery}`,
+              notSnapshotDocument,
+              adapterId ? eq(documents.adapterId, adapterId) : undefined,
+              locationId ? eq(documents.locationId, locationId) : undefined,
+            ),
+          )
+          .orderBy(ftsRank)
+          .limit(RELATED_MATCHES_LIMIT)
+      : Promise.resolve(null),
+    ftsQuery
+      ? db
+          .select({
+            id: locations.id,
+            name: locations.name,
+            latitude: locations.latitude,
+            longitude: locations.longitude,
+            type: locations.type,
+            snippet: ftsSnippet,
+          })
+          .from(locations)
+          .innerJoin(sql`search_index`, ftsJoin("location", locations.id))
+          .where(sql`search_index match ${ftsQuery}`)
+          .orderBy(ftsRank)
+          .limit(RELATED_MATCHES_LIMIT)
+      : Promise.resolve(null),
+  ]);
+
+  const hasMore = page.length > limit;
+  const rows = hasMore ? page.slice(0, limit) : page;
+  const data = rows.map((r) => ({
+    id: r.id,
+    apiSource: r.apiSource,
+    payloadType: r.payloadType,
+    locationId: r.locationId,
+    timestamp: r.timestamp instanceof Date ? r.timestamp.toISOString() : String(r.timestamp),
+    payload: JSON.parse(r.payload) as Record<string, unknown>,
+    tags: r.tags ? (JSON.parse(r.tags) as string[]) : null,
+    scrapedAt: r.scrapedAt instanceof Date ? r.scrapedAt.toISOString() : String(r.scrapedAt),
+    snippet: r.snippet,
+  }));
+  setLastModified(c, rows.map((r) => r.scrapedAt));
+
+  const pagination = {
+    total: totalRows ? totalRows[0].total : null,
+    limit,
+    offset,
+    hasMore,
+    // Relevance-ordered pages (q) are paginated by offset only
+    nextCursor: hasMore && !ftsQuery ? encodeCursor(rows[rows.length - 1]) : null,
+  };
+
+  const format = responseFormat(c);
+  if (format === "csv") {
+    return csvResponse(c, data, csvColumns(adapterId, payloadType), "search.csv", {
+      total: pagination.total,
+      next:
+        pagination.nextCursor ? { cursor: pagination.nextCursor, offset: null }
+        : hasMore ? { offset: String(offset + limit) }
+        : null,
+    });
+  }
+
+  if (format === "geojson") {
+    // Payloads without coordinates fall back to their location
+    const locationIds = [...new Set(data.filter((d) => d.locationId && !payloadPoint(d.payload)).map((d) => d.locationId!))];
+    const points = new Map(
+      locationIds.length > 0
+        ? (
+            await db
+              .select({ id: locations.id, latitude: locations.latitude, longitude: locations.longitude })
+              .from(locations)
+              .where(inArray(locations.id, locationIds))
+          ).map((l) => [l.id, toPoint(l.latitude, l.longitude)])
+        : [],
+    );
+    const features = data.map(({ id, payload, ...record }) => ({
+      type: "Feature" as const,
+      id,
+      geometry: payloadPoint(payload) ?? (record.locationId ? points.get(record.locationId) ?? null : null),
+      properties: { ...payload, ...record },
+    }));
+    return geoJsonResponse(c, featureCollection(features, { pagination }));
+  }
+
+  return c.json(
+    {
+      data,
+      ...(documentMatches
+        ? {
+            documents: documentMatches.map((d) => ({
+              ...d,
+              capturedAt: d.capturedAt.toISOString(),
+              downloadUrl: `/v1/sources/${d.adapterId}/documents/${d.id}`,
+            })),
+          }
+        : {}),
+      ...(locationMatches ? { locations: locationMatches } : {}),
+      pagination,
+    },
+    200,
+  );
 });
 
 export default app;
@@ -0,0 +1,337 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { registry } from "../../core/registry";
+import { getDb } from "../../db/client";
+import { snapshots, documents } from "../../db/schema";
+import { eq, and, asc, desc, gte, lte, count } from "drizzle-orm";
+import { kvCache, cacheControl } from "../../core/cache";
+import { ErroSchema, PaginacaoSchema } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const SnapshotSchema = z
+  .object({
+    id: z.string().openapi({ description: "Identificador único do snapshot" }),
+    snapshotType: z.string().openapi({ description: "Tipo de snapshot definido pelo adapter", example: "avisos" }),
+    ingestLogId: z.string().nullable().openapi({ description: "Execução (ingest_log) que capturou o snapshot" }),
+    contentHash: z.string().openapi({ description: "SHA-256 do conteúdo JSON — igual entre snapshots idênticos" }),
+    sizeBytes: z.number().nullable().openapi({ description: "Tamanho do conteúdo em bytes" }),
+    capturedAt: z.string().openapi({ description: "Hora de captura (ISO 8601)" }),
+    downloadUrl: z.string().openapi({ description: "URL para descarregar o JSON em bruto" }),
+  })
+  .openapi("Snapshot");
+
+const SnapshotDetailSchema = SnapshotSchema.extend({
+  content: z.unknown().openapi({ description: "Conteúdo JSON capturado da fonte upstream" }),
+}).openapi("SnapshotDetail");
+
+const SourceIdParam = z.string().openapi({
+  param: { name: "sourceId", in: "path" },
+  description: "Identificador do adapter",
+  example: "tempo",
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const listSnapshots = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/snapshots",
+  tags: ["Sources"],
+  summary: "Listar snapshots de uma fonte",
+  description:
+    "Devolve os metadados dos snapshots JSON capturados pela fonte, do mais recente para o mais antigo.",
+  request: {
+    params: z.object({ sourceId: SourceIdParam }),
+    query: z.object({
+      snapshotType: z.string().optional().openapi({
+        param: { name: "snapshotType", in: "query" },
+        description: "Filtrar por tipo de snapshot",
+        example: "avisos",
+      }),
+      from: z.string().optional().openapi({
+        param: { name: "from", in: "query" },
+        description: "Início do intervalo (ISO 8601)",
+        example: "2026-01-01T00:00:00Z",
+      }),
+      to: z.string().optional().openapi({
+        param: { name: "to", in: "query" },
+        description: "Fim do intervalo (ISO 8601)",
+        example: "2026-02-05T00:00:00Z",
+      }),
+      limit: z.coerce.number().int().min(1).max(100).default(50).openapi({
+        param: { name: "limit", in: "query" },
+        description: "Número máximo de resultados",
+        example: 50,
+      }),
+      offset: z.coerce.number().int().min(0).default(0).openapi({
+        param: { name: "offset", in: "query" },
+        description: "Desvio da paginação",
+        example: 0,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({ data: z.array(SnapshotSchema), pagination: PaginacaoSchema }),
+        },
+      },
+      description: "Lista de snapshots",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte não encontrada",
+    },
+  },
+});
+
+const getNearestSnapshot = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/snapshots/nearest",
+  tags: ["Sources"],
+  summary: "Snapshot mais próximo de um instante",
+  description:
+    "Devolve o snapshot (com conteúdo) capturado mais perto do instante `at`. Com `direction=before` devolve o último snapshot capturado até esse instante — o que a fonte tinha publicado nesse momento.",
+  request: {
+    params: z.object({ sourceId: SourceIdParam }),
+    query: z.object({
+      at: z.string().openapi({
+        param: { name: "at", in: "query" },
+        description: "Instante de referência (ISO 8601)",
+        example: "2026-02-04T14:00:00Z",
+      }),
+      snapshotType: z.string().optional().openapi({
+        param: { name: "snapshotType", in: "query" },
+        description: "Filtrar por tipo de snapshot",
+        example: "avisos",
+      }),
+      direction: z.enum(["nearest", "before", "after"]).default("nearest").openapi({
+        param: { name: "direction", in: "query" },
+        description: "Procurar o mais próximo em qualquer sentido, só antes ou só depois do instante",
+        example: "nearest",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: SnapshotDetailSchema }) } },
+      description: "Snapshot mais próximo",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Instante inválido",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte ou snapshot não encontrado",
+    },
+  },
+});
+
+const getSnapshot = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/snapshots/{snapshotId}",
+  tags: ["Sources"],
+  summary: "Obter um snapshot",
+  description: "Devolve os metadados e o conteúdo JSON de um snapshot.",
+  request: {
+    params: z.object({
+      sourceId: SourceIdParam,
+      snapshotId: z.string().openapi({
+        param: { name: "snapshotId", in: "path" },
+        description: "Identificador do snapshot",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: SnapshotDetailSchema }) } },
+      description: "Snapshot",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Snapshot não encontrado",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const snapshotColumns = {
+  id: snapshots.id,
+  adapterId: snapshots.adapterId,
+  snapshotType: snapshots.snapshotType,
+  ingestLogId: snapshots.ingestLogId,
+  contentHash: snapshots.contentHash,
+  capturedAt: snapshots.capturedAt,
+  documentId: snapshots.documentId,
+  sizeBytes: documents.sizeBytes,
+  r2Key: documents.r2Key,
+};
+
+type SnapshotRow = {
+  id: string;
+  adapterId: string;
+  snapshotType: string;
+  ingestLogId: string | null;
+  contentHash: string;
+  capturedAt: Date;
+  documentId: string;
+  sizeBytes: number | null;
+  r2Key: string;
+};
+
+function toSnapshot(r: SnapshotRow) {
+  return {
+    id: r.id,
+    snapshotType: r.snapshotType,
+    ingestLogId: r.ingestLogId,
+    contentHash: r.contentHash,
+    sizeBytes: r.sizeBytes,
+    capturedAt: r.capturedAt.toISOString(),
+    downloadUrl: `/v1/sources/${r.adapterId}/documents/${r.documentId}`,
+  };
+}
+
+/** Read the JSON body of a snapshot from R2. Returns undefined if missing. */
+async function readContent(r2: R2Bucket, r: SnapshotRow): Promise<unknown> {
+  const object = await r2.get(r.r2Key);
+  if (!object) return undefined;
+  return object.json();
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+// cacheControl first so KV hits also get max-age=120 instead of the KV TTL
+app.use("/v1/sources/*/snapshots", cacheControl(120, 300));
+app.use("/v1/sources/*/snapshots", kvCache({ ttlSeconds: 300, prefix: "snapshots" }));
+app.use("/v1/sources/*/snapshots/*", cacheControl(120, 300));
+app.use("/v1/sources/*/snapshots/*", kvCache({ ttlSeconds: 300, prefix: "snapshot" }));
+
+app.openapi(listSnapshots, async (c) => {
+  const { sourceId } = c.req.valid("param");
+
+  if (!registry.has(sourceId)) {
+    return c.json({ error: "Source not found" } as const, 404);
+  }
+
+  const { snapshotType, from, to, limit, offset } = c.req.valid("query");
+  const db = getDb(c.env);
+
+  const conditions = [eq(snapshots.adapterId, sourceId)];
+  if (snapshotType) conditions.push(eq(snapshots.snapshotType, snapshotType));
+  if (from) conditions.push(gte(snapshots.capturedAt, new Date(from)));
+  if (to) conditions.push(lte(snapshots.capturedAt, new Date(to)));
+  const whereClause = and(...conditions);
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select(snapshotColumns)
+      .from(snapshots)
+      .innerJoin(documents, eq(documents.id, snapshots.documentId))
+      .where(whereClause)
+      .orderBy(desc(snapshots.capturedAt))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(snapshots).where(whereClause),
+  ]);
+
+  return c.json(
+    {
+      data: rows.map(toSnapshot),
+      pagination: { total, limit, offset, hasMore: offset + rows.length < total },
+    },
+    200,
+  );
+});
+
+app.openapi(getNearestSnapshot, async (c) => {
+  const { sourceId } = c.req.valid("param");
+
+  if (!registry.has(sourceId)) {
+    return c.json({ error: "Source not found" } as const, 404);
+  }
+
+  const { at, snapshotType, direction } = c.req.valid("query");
+  const instant = new Date(at);
+  if (isNaN(instant.getTime())) {
+    return c.json({ error: "Invalid instant", details: `'${at}' is not an ISO 8601 date` }, 400);
+  }
+
+  const db = getDb(c.env);
+  const base = [eq(snapshots.adapterId, sourceId)];
+  if (snapshotType) base.push(eq(snapshots.snapshotType, snapshotType));
+
+  const findBefore = () =>
+    db
+      .select(snapshotColumns)
+      .from(snapshots)
+      .innerJoin(documents, eq(documents.id, snapshots.documentId))
+      .where(and(...base, lte(snapshots.capturedAt, instant)))
+      .orderBy(desc(snapshots.capturedAt))
+      .limit(1);
+  const findAfter = () =>
+    db
+      .select(snapshotColumns)
+      .from(snapshots)
+      .innerJoin(documents, eq(documents.id, snapshots.documentId))
+      .where(and(...base, gte(snapshots.capturedAt, instant)))
+      .orderBy(asc(snapshots.capturedAt))
+      .limit(1);
+
+  const [[before], [after]] = await Promise.all([
+    direction !== "after" ? findBefore() : Promise.resolve([]),
+    direction !== "before" ? findAfter() : Promise.resolve([]),
+  ]);
+
+  const distance = (r: SnapshotRow) => Math.abs(r.capturedAt.getTime() - instant.getTime());
+  const row = before && after
+    ? (distance(before) <= distance(after) ? before : after)
+    : (before ?? after);
+
+  if (!row) {
+    return c.json({ error: "Snapshot not found" } as const, 404);
+  }
+
+  const content = await readContent(c.env.DOCUMENTS, row);
+  if (content === undefined) {
+    return c.json({ error: "File missing from storage" } as const, 404);
+  }
+
+  return c.json({ data: { ...toSnapshot(row), content } }, 200);
+});
+
+app.openapi(getSnapshot, async (c) => {
+  const { sourceId, snapshotId } = c.req.valid("param");
+  const db = getDb(c.env);
+
+  const [row] = await db
+    .select(snapshotColumns)
+    .from(snapshots)
+    .innerJoin(documents, eq(documents.id, snapshots.documentId))
+    .where(and(eq(snapshots.adapterId, sourceId), eq(snapshots.id, snapshotId)))
+    .limit(1);
+
+  if (!row) {
+    return c.json({ error: "Snapshot not found" } as const, 404);
+  }
+
+  const content = await readContent(c.env.DOCUMENTS, row);
+  if (content === undefined) {
+    return c.json({ error: "File missing from storage" } as const, 404);
+  }
+
+  return c.json({ data: { ...toSnapshot(row), content } }, 200);
+});
+
+export default app;
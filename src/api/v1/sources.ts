@@ -1,15 +1,20 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import { registry } from "../../core/registry";
+import { tagCounts } from "../../core/aggregate";
 import { getDb } from "../../db/client";
-import { sources, ingestLog } from "../../db/schema";
-import { eq, desc } from "drizzle-orm";
-import { kvCache, cacheControl } from "../../core/cache";
-import { ErroSchema } from "../schemas";
+import { sources, ingestLog, apiData } from "../../db/schema";
+import { eq, desc, and, count, countDistinct, min, max, sql } from "drizzle-orm";
+import { kvCache, cacheControl, setLastModified } from "../../core/cache";
+import { ErroSchema, FormatoRespostaSchema, RespostaCsvSchema } from "../schemas";
+import { responseFormat, csvResponse } from "../../core/formats";
 
 // ---------------------------------------------------------------------------
 // Schemas
 // ---------------------------------------------------------------------------
 
+/** Tags listed per payload type in /payload-types. */
+const MAX_TAGS_PER_TYPE = 20;
+
 const SourceSchema = z
   .object({
     id: z.string().openapi({ description: "Identificador único do adapter", example: "ipma-weather" }),
@@ -26,6 +31,9 @@ const SourceSchema = z
   })
   .openapi("Source");
 
+/** Header of `format=csv`; dataTypes is written as a JSON array. */
+const SOURCE_CSV_COLUMNS = Object.keys(SourceSchema.shape);
+
 const SourceDetailSchema = SourceSchema.extend({
   schedules: z.array(
     z.object({
@@ -45,6 +53,28 @@ const SourceDetailSchema = SourceSchema.extend({
   ).openapi({ description: "Ingestões recentes" }),
 }).openapi("SourceDetail");
 
+const PayloadTypeSchema = z
+  .object({
+    payloadType: z.string().openapi({ description: "Tipo do payload", example: "sismo" }),
+    count: z.number().openapi({ description: "Número de registos em api_data", example: 1250 }),
+    firstTimestamp: z.string().nullable().openapi({ description: "Hora de observação mais antiga (ISO 8601)" }),
+    lastTimestamp: z.string().nullable().openapi({ description: "Hora de observação mais recente (ISO 8601)" }),
+    distinctLocations: z.number().openapi({ description: "Número de localizações distintas com registos deste tipo", example: 0 }),
+    tags: z
+      .array(
+        z.object({
+          tag: z.string().openapi({ example: "sismologia" }),
+          count: z.number().openapi({ description: "Registos com esta etiqueta", example: 1250 }),
+        }),
+      )
+      .openapi({ description: `Etiquetas em uso, da mais frequente para a menos frequente (até ${MAX_TAGS_PER_TYPE})` }),
+    example: z.record(z.string(), z.unknown()).nullable().openapi({ description: "Payload do registo mais recente" }),
+    jsonSchema: z.record(z.string(), z.unknown()).nullable().openapi({
+      description: "JSON Schema (OpenAPI 3.1) do payload, se o adapter o declarar em payloadSchemas",
+    }),
+  })
+  .openapi("PayloadType");
+
 // ---------------------------------------------------------------------------
 // Routes
 // ---------------------------------------------------------------------------
@@ -56,9 +86,19 @@ const listSources = createRoute({
   summary: "Listar todas as fontes de dados",
   description:
     "Devolve todos os adapters (fontes) registados, incluindo estado, tipos de dados e se têm rotas personalizadas.",
+  request: {
+    query: z.object({
+      format: FormatoRespostaSchema.optional().openapi({
+        param: { name: "format", in: "query" },
+      }),
+    }),
+  },
   responses: {
     200: {
-      content: { "application/json": { schema: z.object({ data: z.array(SourceSchema) }) } },
+      content: {
+        "application/json": { schema: z.object({ data: z.array(SourceSchema) }) },
+        "text/csv": { schema: RespostaCsvSchema },
+      },
       description: "Lista de todas as fontes",
     },
   },
@@ -92,6 +132,57 @@ const getSource = createRoute({
   },
 });
 
+const getPayloadTypes = createRoute({
+  method: "get",
+  path: "/v1/sources/{sourceId}/payload-types",
+  tags: ["Sources"],
+  summary: "Catálogo de tipos de payload de uma fonte",
+  description:
+    "Lista os tipos de payload que a fonte guarda em api_data — com número de registos, intervalo temporal, localizações distintas, etiquetas em uso e um payload de exemplo — e o JSON Schema de cada tipo declarado pelo adapter. Os tipos declarados ainda sem registos aparecem com `count: 0`. Útil para saber que valores usar em `payloadType`, `where` e `fields` nas rotas de pesquisa.",
+  request: {
+    params: z.object({
+      sourceId: z.string().openapi({
+        param: { name: "sourceId", in: "path" },
+        description: "Identificador do adapter",
+        example: "sismos",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: z.array(PayloadTypeSchema) }) } },
+      description: "Tipos de payload da fonte, por ordem alfabética",
+    },
+    404: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Fonte não encontrada",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const jsonSchemaCache = new Map<string, Record<string, unknown>>();
+
+/**
+ * JSON Schema for a declared payload schema, produced by the same generator
+ * as /doc so descriptions and examples from `.openapi()` are kept.
+ */
+function payloadJsonSchema(adapterId: string, payloadType: string, schema: z.ZodType): Record<string, unknown> {
+  const key = `${adapterId}:${payloadType}`;
+  let cached = jsonSchemaCache.get(key);
+  if (!cached) {
+    const generator = new OpenAPIHono();
+    generator.openAPIRegistry.register("Payload", schema);
+    const doc = generator.getOpenAPI31Document({ openapi: "3.1.0", info: { title: key, version: "1.0.0" } });
+    cached = doc.components!.schemas!.Payload as Record<string, unknown>;
+    jsonSchemaCache.set(key, cached);
+  }
+  return cached;
+}
+
 // ---------------------------------------------------------------------------
 // App
 // ---------------------------------------------------------------------------
@@ -101,7 +192,9 @@ const app = new OpenAPIHono<{ Bindings: Env }>();
 // KV cache + HTTP cache headers for sources list
 app.use("/v1/sources", kvCache({ ttlSeconds: 600, prefix: "sources" }));
 app.use("/v1/sources", cacheControl(300, 600));
-app.use("/v1/sources/*", cacheControl(300, 600));
+// Only this file's routes: the other /v1/sources/:sourceId/* apps (realtime, snapshots, …) set their own
+app.use("/v1/sources/:sourceId", cacheControl(300, 600));
+app.use("/v1/sources/:sourceId/payload-types", cacheControl(300, 600));
 
 app.openapi(listSources, async (c) => {
   const adapters = registry.getAll();
@@ -122,6 +215,12 @@ app.openapi(listSources, async (c) => {
     hasLocations: a.features?.hasLocations ?? true,
   }));
 
+  setLastModified(c, sourceRows.map((r) => r.lastFetchedAt));
+
+  if (responseFormat(c) === "csv") {
+    return csvResponse(c, data, SOURCE_CSV_COLUMNS, "sources.csv", { total: data.length, next: null });
+  }
+
   return c.json({ data });
 });
 
@@ -169,6 +268,72 @@ app.openapi(getSource, async (c) => {
     })),
   };
 
+  setLastModified(c, [sourceRow?.lastFetchedAt]);
+
+  return c.json({ data }, 200);
+});
+
+app.use("/v1/sources/*/payload-types", kvCache({ ttlSeconds: 600, prefix: "payloadtypes" }));
+
+app.openapi(getPayloadTypes, async (c) => {
+  const { sourceId } = c.req.valid("param");
+  const adapter = registry.get(sourceId);
+
+  if (!adapter) {
+    return c.json(
+      { error: "Source not found", details: `No adapter with id '${sourceId}'` } as const,
+      404,
+    );
+  }
+
+  const db = getDb(c.env);
+  const stats = await db
+    .select({
+      payloadType: apiData.payloadType,
+      count: count(),
+      firstTimestamp: min(apiData.timestamp),
+      lastTimestamp: max(apiData.timestamp),
+      distinctLocations: countDistinct(apiData.locationId),
+    })
+    .from(apiData)
+    .where(eq(apiData.apiSource, sourceId))
+    .groupBy(apiData.payloadType);
+
+  const tags = await tagCounts(db, eq(apiData.apiSource, sourceId), MAX_TAGS_PER_TYPE);
+
+  // Newest row of each payload type
+  const ranked = db
+    .select({
+      payload: apiData.payload,
+      payloadType: apiData.payloadType,
+      rn: sql<number>`row_number() over (partition by ${apiData.payloadType} order by ${apiData.timestamp} desc, ${apiData.scrapedAt} desc)`.as("rn"),
+    })
+    .from(apiData)
+    .where(eq(apiData.apiSource, sourceId))
+    .as("ranked");
+  const examples = await db.select({ payloadType: ranked.payloadType, payload: ranked.payload }).from(ranked).where(eq(ranked.rn, 1));
+
+  const exampleByType = new Map(examples.map((r) => [r.payloadType, JSON.parse(r.payload) as Record<string, unknown>]));
+  const statsByType = new Map(stats.map((r) => [r.payloadType, r]));
+
+  const declared = adapter.payloadSchemas ?? {};
+  const payloadTypes = [...new Set([...statsByType.keys(), ...Object.keys(declared)])].sort();
+
+  const data = payloadTypes.map((payloadType) => {
+    const s = statsByType.get(payloadType);
+    const schema = declared[payloadType];
+    return {
+      payloadType,
+      count: s?.count ?? 0,
+      firstTimestamp: s?.firstTimestamp?.toISOString() ?? null,
+      lastTimestamp: s?.lastTimestamp?.toISOString() ?? null,
+      distinctLocations: s?.distinctLocations ?? 0,
+      tags: tags.get(`${sourceId}:${payloadType}`) ?? [],
+      example: exampleByType.get(payloadType) ?? null,
+      jsonSchema: schema ? payloadJsonSchema(sourceId, payloadType, schema) : null,
+    };
+  });
+
   return c.json({ data }, 200);
 });
 
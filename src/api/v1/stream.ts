@@ -0,0 +1,99 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { rateLimit } from "../../core/rate-limit";
+import { ValidationError } from "../../core/errors";
+import { STREAM_REPLAY_MAX, streamHub, streamHubUrl, type StreamFilters } from "../../core/stream";
+import { parseTagList } from "../filters";
+import { ErroSchema, EtiquetasTodasSchema } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+const getStream = createRoute({
+  method: "get",
+  path: "/v1/stream",
+  tags: ["Export"],
+  summary: "Novos registos em tempo real (Server-Sent Events)",
+  description: `Stream \`text/event-stream\` que envia cada novo registo api_data logo que termina a execução do adapter que o guardou, para mapas e painéis em direto. Cada evento tem \`event: api_data\`, \`id\` igual ao \`seq\` do registo (a mesma sequência de inserção de /v1/changes) e em \`data\` o registo em JSON. Um comentário \`: heartbeat\` é enviado a cada 15 segundos para manter a ligação aberta.
+
+Ao reconectar, o \`EventSource\` do browser envia o cabeçalho \`Last-Event-ID\` e recebe primeiro os registos que perdeu (até ${STREAM_REPLAY_MAX.toLocaleString("pt-PT")}; acima disso a resposta é 409 e deve sincronizar com /v1/changes). Sem \`Last-Event-ID\` nem \`lastEventId\`, o stream começa nos registos seguintes.`,
+  request: {
+    query: z.object({
+      adapterId: z.string().optional().openapi({
+        param: { name: "adapterId", in: "query" },
+        description: "Filtrar por identificador do adapter",
+        example: "sismos",
+      }),
+      payloadType: z.string().optional().openapi({
+        param: { name: "payloadType", in: "query" },
+        description: "Filtrar por tipo de payload",
+        example: "sismo",
+      }),
+      locationId: z.string().optional().openapi({
+        param: { name: "locationId", in: "query" },
+        description: "Filtrar por identificador da localização",
+      }),
+      tags: EtiquetasTodasSchema.optional().openapi({
+        param: { name: "tags", in: "query" },
+      }),
+      lastEventId: z.coerce.number().int().min(0).optional().openapi({
+        param: { name: "lastEventId", in: "query" },
+        description: "Retomar depois deste `seq` — alternativa ao cabeçalho `Last-Event-ID`, que tem prioridade",
+        example: 1042,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { "text/event-stream": { schema: z.string() } },
+      description: "Stream de eventos",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Filtro ou Last-Event-ID inválido",
+    },
+    409: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Demasiados registos perdidos desde o Last-Event-ID",
+    },
+    503: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "Limite de ligações atingido",
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.use("/v1/stream", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "stream" }));
+
+app.openapi(getStream, async (c) => {
+  const { adapterId, payloadType, locationId, tags, lastEventId } = c.req.valid("query");
+
+  const header = c.req.header("Last-Event-ID");
+  if (header !== undefined && !/^\d+$/.test(header.trim())) {
+    return c.json({ error: "Invalid Last-Event-ID", details: "Last-Event-ID must be an event id sent by /v1/stream" }, 400);
+  }
+
+  let filters: StreamFilters;
+  try {
+    filters = { adapterId, payloadType, locationId, tags: parseTagList(tags) };
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  const resumeAfter = header !== undefined ? Number(header.trim()) : (lastEventId ?? null);
+  const res = await streamHub(c.env).fetch(streamHubUrl(filters, resumeAfter));
+
+  // The hub's response headers are immutable; copy so middleware can add its own
+  return new Response(res.body, res);
+});
+
+export default app;
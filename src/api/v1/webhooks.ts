@@ -0,0 +1,386 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import type { Context } from "hono";
+import { getDb } from "../../db/client";
+import { rateLimit } from "../../core/rate-limit";
+import { registry } from "../../core/registry";
+import { ValidationError } from "../../core/errors";
+import {
+  WEBHOOK_HEADERS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  createWebhookSubscription,
+  getWebhookSubscription,
+  deleteWebhookSubscription,
+  sendTestWebhook,
+  listWebhookDeliveries,
+  type WebhookFilters,
+  type WebhookSubscription,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from "../../core/webhooks";
+import { ErroSchema, FiltroPayloadSchema, EtiquetasTodasSchema, EtiquetasAlgumaSchema } from "../schemas";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const DELIVERY_STATUSES = ["pending", "sending", "delivered", "failed"] as const;
+
+const FiltrosWebhookSchema = z
+  .object({
+    adapterId: z.string().optional().openapi({ description: "Identificador do adapter", example: "sismos" }),
+    payloadType: z.string().optional().openapi({ description: "Tipo de payload", example: "sismo" }),
+    locationId: z.string().optional().openapi({ description: "Identificador da localização" }),
+    tags: EtiquetasTodasSchema.optional(),
+    anyTags: EtiquetasAlgumaSchema.optional(),
+    where: FiltroPayloadSchema.optional(),
+  })
+  .openapi("WebhookFilters");
+
+/** HTTPS only; plain HTTP is accepted for localhost during development. */
+const UrlWebhookSchema = z
+  .url()
+  .max(2000)
+  .refine((value) => {
+    const url = new URL(value);
+    return url.protocol === "https:" || (url.protocol === "http:" && ["localhost", "127.0.0.1"].includes(url.hostname));
+  }, "URL tem de usar HTTPS")
+  .openapi({ description: "Endpoint HTTPS que recebe os POST", example: "https://exemplo.pt/hooks/sismos" });
+
+const SubscricaoSchema = z
+  .object({
+    id: z.string().openapi({ description: "Identificador da subscrição" }),
+    url: z.string().openapi({ description: "Endpoint que recebe os POST" }),
+    description: z.string().nullable().openapi({ description: "Descrição livre" }),
+    filters: FiltrosWebhookSchema,
+    status: z.enum(["active", "disabled"]).openapi({
+      description: "Estado: ativa, ou desativada depois de falhas repetidas",
+      example: "active",
+    }),
+    consecutiveFailures: z.number().openapi({ description: "Entregas falhadas seguidas desde o último sucesso" }),
+    disabledReason: z.string().nullable().openapi({ description: "Motivo da desativação" }),
+    disabledAt: z.string().nullable().openapi({ description: "Desativada em (ISO 8601)" }),
+    createdAt: z.string().openapi({ description: "Criada em (ISO 8601)" }),
+    deliveriesUrl: z.string().openapi({ description: "URL do registo de entregas" }),
+  })
+  .openapi("WebhookSubscription");
+
+const EntregaSchema = z
+  .object({
+    id: z.string().openapi({ description: "Identificador da entrega (cabeçalho X-Webhook-Id)" }),
+    event: z.enum(["api_data.created", "ping"]).openapi({ description: "Tipo de evento" }),
+    apiDataId: z.string().nullable().openapi({ description: "Registo api_data entregue" }),
+    status: z.enum(DELIVERY_STATUSES).openapi({
+      description: "Estado: em fila (inclui novas tentativas), a enviar, entregue ou falhada",
+      example: "delivered",
+    }),
+    attempts: z.number().openapi({ description: "Tentativas feitas" }),
+    nextAttemptAt: z.string().nullable().openapi({ description: "Próxima tentativa (ISO 8601)" }),
+    lastAttemptAt: z.string().nullable().openapi({ description: "Última tentativa (ISO 8601)" }),
+    responseStatus: z.number().nullable().openapi({ description: "Código HTTP da última resposta" }),
+    error: z.string().nullable().openapi({ description: "Erro da última tentativa" }),
+    createdAt: z.string().openapi({ description: "Criada em (ISO 8601)" }),
+  })
+  .openapi("WebhookDelivery");
+
+const WebhookIdParam = z.string().openapi({
+  param: { name: "webhookId", in: "path" },
+  description: "Identificador da subscrição",
+});
+
+const ERRO_401 = {
+  content: { "application/json": { schema: ErroSchema } },
+  description: "Falta o token de gestão da subscrição (Authorization: Bearer)",
+};
+
+const ERRO_404 = {
+  content: { "application/json": { schema: ErroSchema } },
+  description: "Subscrição não encontrada ou token errado",
+};
+
+const security = [{ WebhookToken: [] }];
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const createWebhook = createRoute({
+  method: "post",
+  path: "/v1/webhooks",
+  tags: ["Webhooks"],
+  summary: "Criar uma subscrição de webhook",
+  description: `Regista um endpoint que recebe um POST por cada novo registo api_data que passe nos filtros (os mesmos de /v1/search), por exemplo todos os \`sismo\` com \`magnitude>=3.5\` ou os \`aviso-meteorologico\` com \`nivelAviso=red\`. Os registos são comparados com os filtros depois de cada execução do agendador; só recebe registos inseridos depois da criação.
+
+Cada POST leva o corpo \`{ id, event, subscriptionId, createdAt, data }\` e os cabeçalhos \`${WEBHOOK_HEADERS.id}\`, \`${WEBHOOK_HEADERS.event}\`, \`${WEBHOOK_HEADERS.timestamp}\` e \`${WEBHOOK_HEADERS.signature}\`: \`sha256=\` seguido do HMAC-SHA256 em hexadecimal de \`<timestamp>.<corpo>\` com o segredo da subscrição. Respostas fora de 2xx (ou sem resposta em 10 s) são repetidas com espera exponencial (1, 2, 4… minutos) até ${WEBHOOK_MAX_ATTEMPTS} tentativas; após ${WEBHOOK_DISABLE_AFTER_FAILURES} entregas falhadas seguidas a subscrição é desativada.
+
+A resposta devolve o segredo de assinatura e um \`token\` de gestão, gerado pelo servidor e distinto do segredo, que dá acesso apenas a esta subscrição (\`Authorization: Bearer <token>\`). O token não é mostrado de novo nem pode ser recuperado.`,
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: z.object({
+            url: UrlWebhookSchema,
+            description: z.string().max(500).optional().openapi({
+              description: "Descrição livre",
+              example: "Sismos sentidos",
+            }),
+            secret: z.string().min(32).max(200).optional().openapi({
+              description: "Segredo de assinatura (mínimo 32 caracteres); gerado se omitido",
+            }),
+            filters: FiltrosWebhookSchema.default({}).openapi({
+              example: { payloadType: "sismo", where: ["magnitude>=3.5"] },
+            }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            data: SubscricaoSchema.extend({
+              secret: z.string().openapi({ description: "Segredo de assinatura — guarde-o, não é mostrado de novo" }),
+              token: z.string().openapi({ description: "Token de gestão desta subscrição — guarde-o, não é mostrado de novo" }),
+            }),
+          }),
+        },
+      },
+      description: "Subscrição criada",
+    },
+    400: {
+      content: { "application/json": { schema: ErroSchema } },
+      description: "URL ou filtros inválidos",
+    },
+  },
+});
+
+const getWebhook = createRoute({
+  method: "get",
+  path: "/v1/webhooks/{webhookId}",
+  tags: ["Webhooks"],
+  summary: "Detalhe de uma subscrição",
+  description: "Estado de uma subscrição, incluindo falhas seguidas e o motivo de uma desativação automática.",
+  security,
+  request: {
+    params: z.object({ webhookId: WebhookIdParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: SubscricaoSchema }) } },
+      description: "Subscrição",
+    },
+    401: ERRO_401,
+    404: ERRO_404,
+  },
+});
+
+const deleteWebhook = createRoute({
+  method: "delete",
+  path: "/v1/webhooks/{webhookId}",
+  tags: ["Webhooks"],
+  summary: "Apagar uma subscrição",
+  description: "Apaga a subscrição e o seu registo de entregas; entregas em fila deixam de ser enviadas.",
+  security,
+  request: {
+    params: z.object({ webhookId: WebhookIdParam }),
+  },
+  responses: {
+    204: { description: "Subscrição apagada" },
+    401: ERRO_401,
+    404: ERRO_404,
+  },
+});
+
+const testWebhook = createRoute({
+  method: "post",
+  path: "/v1/webhooks/{webhookId}/test",
+  tags: ["Webhooks"],
+  summary: "Enviar um evento de teste",
+  description:
+    "Envia de imediato um evento `ping`, assinado como os restantes, com o registo mais recente que a subscrição receberia (ou `data: null`), e devolve o resultado da entrega. O ping não é repetido. Um ping entregue com sucesso reativa uma subscrição desativada, retomando as entregas em fila.",
+  security,
+  request: {
+    params: z.object({ webhookId: WebhookIdParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: EntregaSchema }) } },
+      description: "Resultado da entrega de teste",
+    },
+    401: ERRO_401,
+    404: ERRO_404,
+  },
+});
+
+const listDeliveries = createRoute({
+  method: "get",
+  path: "/v1/webhooks/{webhookId}/deliveries",
+  tags: ["Webhooks"],
+  summary: "Registo de entregas",
+  description: "Entregas da subscrição, da mais recente para a mais antiga. Entregas concluídas são mantidas durante 30 dias.",
+  security,
+  request: {
+    params: z.object({ webhookId: WebhookIdParam }),
+    query: z.object({
+      status: z.enum(DELIVERY_STATUSES).optional().openapi({
+        param: { name: "status", in: "query" },
+        description: "Filtrar por estado",
+        example: "failed",
+      }),
+      limit: z.coerce.number().int().min(1).max(200).default(50).openapi({
+        param: { name: "limit", in: "query" },
+        description: "Número máximo de entregas",
+        example: 50,
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.object({ data: z.array(EntregaSchema) }) } },
+      description: "Entregas",
+    },
+    401: ERRO_401,
+    404: ERRO_404,
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The management token from `Authorization: Bearer <token>`. */
+function bearerToken(c: Context): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(c.req.header("Authorization") ?? "");
+  return match ? match[1] : null;
+}
+
+function missingToken(c: Context) {
+  c.header("WWW-Authenticate", 'Bearer realm="webhooks"');
+  return c.json({ error: "Missing webhook token", details: "Send Authorization: Bearer <token>" }, 401);
+}
+
+function toSubscription(subscription: WebhookSubscription) {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    description: subscription.description,
+    filters: JSON.parse(subscription.filters) as WebhookFilters,
+    status: subscription.status as "active" | "disabled",
+    consecutiveFailures: subscription.consecutiveFailures,
+    disabledReason: subscription.disabledReason,
+    disabledAt: subscription.disabledAt ? subscription.disabledAt.toISOString() : null,
+    createdAt: subscription.createdAt.toISOString(),
+    deliveriesUrl: `/v1/webhooks/${subscription.id}/deliveries`,
+  };
+}
+
+function toDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    event: delivery.event as WebhookEvent,
+    apiDataId: delivery.apiDataId,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt ? delivery.nextAttemptAt.toISOString() : null,
+    lastAttemptAt: delivery.lastAttemptAt ? delivery.lastAttemptAt.toISOString() : null,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = new OpenAPIHono<{ Bindings: Env }>();
+
+app.openAPIRegistry.registerComponent("securitySchemes", "WebhookToken", {
+  type: "http",
+  scheme: "bearer",
+  description: "Token de gestão devolvido ao criar a subscrição",
+});
+
+app.use("/v1/webhooks", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "webhooks" }));
+app.use("/v1/webhooks/*", rateLimit({ binding: "RATE_LIMITER_SEARCH", keyPrefix: "webhooks" }));
+
+app.openapi(createWebhook, async (c) => {
+  const { url, description, secret, filters } = c.req.valid("json");
+  const { where, ...rest } = filters;
+  const normalised: WebhookFilters = { ...rest, where: where === undefined ? undefined : [where].flat() };
+
+  if (normalised.adapterId && !registry.has(normalised.adapterId)) {
+    return c.json({ error: "Invalid filter", details: `Unknown adapter '${normalised.adapterId}'` }, 400);
+  }
+
+  let created;
+  try {
+    created = await createWebhookSubscription(getDb(c.env), { url, description, secret, filters: normalised });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return c.json({ error: "Invalid filter", details: err.message }, 400);
+    }
+    throw err;
+  }
+
+  const { subscription, token } = created;
+  c.header("Location", `/v1/webhooks/${subscription.id}`);
+  return c.json({ data: { ...toSubscription(subscription), secret: subscription.secret, token } }, 201);
+});
+
+app.openapi(getWebhook, async (c) => {
+  const token = bearerToken(c);
+  if (!token) return missingToken(c);
+
+  const subscription = await getWebhookSubscription(getDb(c.env), c.req.valid("param").webhookId, token);
+  if (!subscription) {
+    return c.json({ error: "Webhook not found" } as const, 404);
+  }
+  return c.json({ data: toSubscription(subscription) }, 200);
+});
+
+app.openapi(deleteWebhook, async (c) => {
+  const token = bearerToken(c);
+  if (!token) return missingToken(c);
+
+  const db = getDb(c.env);
+  const subscription = await getWebhookSubscription(db, c.req.valid("param").webhookId, token);
+  if (!subscription) {
+    return c.json({ error: "Webhook not found" } as const, 404);
+  }
+  await deleteWebhookSubscription(db, subscription.id);
+  return c.body(null, 204);
+});
+
+app.openapi(testWebhook, async (c) => {
+  const token = bearerToken(c);
+  if (!token) return missingToken(c);
+
+  const db = getDb(c.env);
+  const subscription = await getWebhookSubscription(db, c.req.valid("param").webhookId, token);
+  if (!subscription) {
+    return c.json({ error: "Webhook not found" } as const, 404);
+  }
+  const delivery = await sendTestWebhook(db, subscription);
+  return c.json({ data: toDelivery(delivery) }, 200);
+});
+
+app.openapi(listDeliveries, async (c) => {
+  const token = bearerToken(c);
+  if (!token) return missingToken(c);
+
+  const { status, limit } = c.req.valid("query");
+  const db = getDb(c.env);
+  const subscription = await getWebhookSubscription(db, c.req.valid("param").webhookId, token);
+  if (!subscription) {
+    return c.json({ error: "Webhook not found" } as const, 404);
+  }
+  const deliveries = await listWebhookDeliveries(db, subscription.id, { status, limit });
+  return c.json({ data: deliveries.map(toDelivery) }, 200);
+});
+
+export default app;
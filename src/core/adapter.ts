@@ -1,4 +1,4 @@
-import type { OpenAPIHono } from "@hono/zod-openapi";
+import type { OpenAPIHono, z } from "@hono/zod-openapi";
 import type { Db } from "../db/client";
 
 // ---------------------------------------------------------------------------
@@ -78,8 +78,10 @@ export interface AdapterContext {
   r2: R2Bucket;
   cache: KVNamespace;
   log: (...args: unknown[]) => void;
+  /** Id of the ingest_log row for the current scheduler run, if any. */
+  ingestLogId?: string;
 
-  /** Store a row in api_data. Returns the generated id. */
+  /** Store a row in api_data. Returns the generated id. Throws if the payload fails a rejecting schema. */
   storeApiData(
     adapterId: string,
     payloadType: string,
@@ -87,7 +89,7 @@ export interface AdapterContext {
     options?: ApiDataInput,
   ): Promise<string>;
 
-  /** Batch-insert multiple rows into api_data in a single query. Returns the generated ids. */
+  /** Batch-insert multiple rows into api_data in a single query. Returns the generated ids (rejected payloads are skipped). */
   storeBatchApiData(
     adapterId: string,
     payloadType: string,
@@ -99,6 +101,12 @@ export interface AdapterContext {
 
   /** Upsert a location into the shared locations table. */
   registerLocation(loc: LocationInput): Promise<void>;
+
+  /**
+   * Capture a full JSON snapshot of upstream state (stored in R2, indexed in
+   * D1 by run). Unchanged data reuses the previous body in R2. Returns the snapshot id.
+   */
+  storeSnapshot(adapterId: string, snapshotType: string, data: unknown): Promise<string>;
 }
 
 // ---------------------------------------------------------------------------
@@ -123,6 +131,22 @@ export interface AdapterFeatures {
   hasLocations?: boolean;
 }
 
+/** Organisation that publishes the upstream data, for the DCAT/CKAN catalog. */
+export interface AdapterPublisher {
+  /** e.g. "Instituto Português do Mar e da Atmosfera (IPMA)". */
+  name: string;
+  /** Home page of the organisation. */
+  url?: string;
+}
+
+/** License under which the upstream data is republished. */
+export interface DatasetLicense {
+  /** SPDX-style id, used as CKAN `license_id`, e.g. "CC-BY-4.0". */
+  id: string;
+  title: string;
+  url: string;
+}
+
 /**
  * Adapter definition. Conventions (not enforced):
  *
@@ -159,6 +183,23 @@ export interface AdapterDefinition {
    * Not enforced — locationId remains optional in data types.
    */
   features?: AdapterFeatures;
+  /**
+   * Optional Zod schema for each payload type this adapter stores, keyed by
+   * payload_type. `storeApiData` / `storeBatchApiData` check payloads against
+   * it, and generic endpoints (/v1/search, realtime, location data) document
+   * the typed payload in OpenAPI.
+   */
+  payloadSchemas?: Record<string, z.ZodType>;
+  /**
+   * What happens to a payload that fails its schema: `"reject"` (default)
+   * drops it — a single `storeApiData` call throws — and `"flag"` stores it
+   * with the `payload-invalido` tag so it can be found via `?tags=`.
+   */
+  payloadValidation?: "reject" | "flag";
+  /** Optional publisher of the upstream data, shown in /v1/catalog. */
+  publisher?: AdapterPublisher;
+  /** Optional data license for /v1/catalog. Defaults to CC BY 4.0. */
+  license?: DatasetLicense;
   /**
    * Optional: custom OpenAPIHono sub-app with adapter-specific routes.
    * Auto-mounted at `/v1/{adapter.id}/...` so routes appear in the
@@ -0,0 +1,275 @@
+import { and, asc, count, desc, eq, isNotNull, sql, type SQL } from "drizzle-orm";
+import type { Db } from "../db/client";
+import { apiData, locations } from "../db/schema";
+import { numericPayloadField, payloadPath } from "../api/filters";
+import { ValidationError } from "./errors";
+
+// ---------------------------------------------------------------------------
+// Grouping
+// ---------------------------------------------------------------------------
+
+/** Maximum number of payload fields per aggregation. */
+export const MAX_AGGREGATE_FIELDS = 5;
+
+/** Maximum number of percentiles per aggregation. */
+export const MAX_PERCENTILES = 10;
+
+export const DEFAULT_PERCENTILES = [50, 90];
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * How records are grouped:
+ * - `location` — api_data.location_id
+ * - `location.<path>` — a field of the location's metadata, e.g. `location.idDistrito`
+ * - `tag` — each tag of the record (a record counts once per tag)
+ * - `hourOfDay` — hour of the timestamp, "00"–"23" (UTC)
+ * - `day` — date of the timestamp, "YYYY-MM-DD" (UTC)
+ */
+export type AggregateGroupBy =
+  | { kind: "location" }
+  | { kind: "locationMetadata"; path: string }
+  | { kind: "tag" }
+  | { kind: "hourOfDay" }
+  | { kind: "day" };
+
+export const AGGREGATE_GROUP_PATTERN =
+  /^(location|tag|hourOfDay|day|location\.[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*)$/;
+
+/** @throws ValidationError for an unknown grouping. */
+export function parseGroupBy(groupBy: string): AggregateGroupBy {
+  if (!AGGREGATE_GROUP_PATTERN.test(groupBy)) {
+    throw new ValidationError(
+      `Invalid groupBy '${groupBy}' (expected location, location.<field>, tag, hourOfDay or day)`,
+    );
+  }
+  if (groupBy.startsWith("location.")) {
+    return { kind: "locationMetadata", path: groupBy.slice("location.".length) };
+  }
+  return { kind: groupBy as "location" | "tag" | "hourOfDay" | "day" };
+}
+
+/** Parse a comma-separated list of payload field paths. */
+export function parseFieldList(list: string): string[] {
+  const fields = [...new Set(list.split(",").map((f) => f.trim()).filter(Boolean))];
+  if (fields.length === 0) {
+    throw new ValidationError("At least one field is required");
+  }
+  if (fields.length > MAX_AGGREGATE_FIELDS) {
+    throw new ValidationError(`At most ${MAX_AGGREGATE_FIELDS} fields are allowed`);
+  }
+  const invalid = fields.find((f) => !FIELD_PATTERN.test(f));
+  if (invalid) {
+    throw new ValidationError(`Invalid field path '${invalid}'`);
+  }
+  return fields;
+}
+
+/** Parse a comma-separated list of integer percentiles between 0 and 100. */
+export function parsePercentiles(list: string | undefined): number[] {
+  if (list === undefined) return DEFAULT_PERCENTILES;
+  const values = list.split(",").map((p) => p.trim()).filter(Boolean);
+  if (values.length > MAX_PERCENTILES) {
+    throw new ValidationError(`At most ${MAX_PERCENTILES} percentiles are allowed`);
+  }
+  const percentiles = values.map((p) => {
+    const n = Number(p);
+    if (!/^\d{1,3}$/.test(p) || n > 100) {
+      throw new ValidationError(`Invalid percentile '${p}' (expected an integer between 0 and 100)`);
+    }
+    return n;
+  });
+  return [...new Set(percentiles)].sort((a, b) => a - b);
+}
+
+/** Group key as text; null for records without one (no location, missing metadata field). */
+function groupKeyExpr(groupBy: AggregateGroupBy): SQL<string | null> {
+  switch (groupBy.kind) {
+    case "location":
+      return sql<string | null>`${apiData.locationId}`;
+    case "locationMetadata":
+      return sql<string | null>`cast(json_extract(${locations.metadata}, ${payloadPath(groupBy.path)}) as text)`;
+    case "tag":
+      return sql<string | null>`je.value`;
+    case "hourOfDay":
+      return sql<string>`strftime('%H', ${apiData.timestamp}, 'unixepoch')`;
+    case "day":
+      return sql<string>`strftime('%Y-%m-%d', ${apiData.timestamp}, 'unixepoch')`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+export interface FieldStats {
+  count: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  /** Population standard deviation. */
+  stddev: number | null;
+  /** Keyed `p<percentile>`, e.g. `p50`. */
+  percentiles: Record<string, number | null>;
+}
+
+export interface AggregateGroup {
+  group: string | null;
+  fields: Record<string, FieldStats>;
+}
+
+export interface AggregateQuery {
+  /** Conditions on api_data (adapter, payload type, time range, tags, where). */
+  conditions: SQL[];
+  fields: string[];
+  groupBy: AggregateGroupBy;
+  percentiles: number[];
+}
+
+function emptyStats(percentiles: number[]): FieldStats {
+  return {
+    count: 0,
+    mean: null,
+    min: null,
+    max: null,
+    stddev: null,
+    percentiles: Object.fromEntries(percentiles.map((p) => [`p${p}`, null])),
+  };
+}
+
+/**
+ * Statistics of one numeric field per group, in a single query. A window
+ * pass ranks each value within its group and attaches the group mean and
+ * size; the outer aggregate then reads min/max/mean, the variance around
+ * the exact mean (two-pass, no cancellation), and for each percentile the
+ * two ranked values it falls between. Percentiles interpolate linearly
+ * between those closest ranks, as numpy's default does.
+ */
+async function fieldStats(
+  db: Db,
+  query: AggregateQuery,
+  field: string,
+): Promise<Map<string | null, FieldStats>> {
+  const value = numericPayloadField(field);
+  const key = groupKeyExpr(query.groupBy);
+
+  let base = db
+    .select({
+      key: key.as("key"),
+      x: sql<number>`${value}`.as("x"),
+      rn: sql<number>`row_number() over (partition by ${key} order by ${value})`.as("rn"),
+      n: sql<number>`count(*) over (partition by ${key})`.as("n"),
+      m: sql<number>`avg(${value}) over (partition by ${key})`.as("m"),
+    })
+    .from(apiData)
+    .$dynamic();
+  if (query.groupBy.kind === "locationMetadata") {
+    base = base.leftJoin(locations, eq(locations.id, apiData.locationId));
+  } else if (query.groupBy.kind === "tag") {
+    base = base.innerJoin(sql`json_each(${apiData.tags}) as je`, sql`true`);
+  }
+  const ranked = base.where(and(...query.conditions, isNotNull(value))).as("ranked");
+
+  // Percentile p sits at 0-based rank (n - 1) * p / 100; integer division gives the lower rank
+  const bounds: Record<string, SQL.Aliased<number | null>> = {};
+  for (const p of query.percentiles) {
+    const lower = sql.raw(`((n - 1) * ${p}) / 100`);
+    bounds[`lo${p}`] = sql<number | null>`max(case when ${ranked.rn} - 1 = ${lower} then ${ranked.x} end)`.as(`lo${p}`);
+    bounds[`hi${p}`] = sql<number | null>`max(case when ${ranked.rn} - 1 = ${lower} + 1 then ${ranked.x} end)`.as(`hi${p}`);
+  }
+
+  const rows = await db
+    .select({
+      key: ranked.key,
+      count: count().as("count"),
+      mean: sql<number>`avg(${ranked.x})`.as("mean"),
+      min: sql<number>`min(${ranked.x})`.as("min"),
+      max: sql<number>`max(${ranked.x})`.as("max"),
+      variance: sql<number>`avg((${ranked.x} - ${ranked.m}) * (${ranked.x} - ${ranked.m}))`.as("variance"),
+      ...bounds,
+    })
+    .from(ranked)
+    .groupBy(sql`${ranked.key}`)
+    .orderBy(asc(sql`${ranked.key}`));
+
+  const stats = new Map<string | null, FieldStats>();
+  for (const row of rows) {
+    const r = row as typeof row & Record<string, number | null>;
+    const percentiles: Record<string, number | null> = {};
+    for (const p of query.percentiles) {
+      const lo = r[`lo${p}`];
+      const hi = r[`hi${p}`];
+      const fraction = (((r.count - 1) * p) % 100) / 100;
+      percentiles[`p${p}`] =
+        lo === null ? null : fraction === 0 || hi === null ? Number(lo) : Number(lo) + fraction * (Number(hi) - Number(lo));
+    }
+    stats.set(r.key, {
+      count: r.count,
+      mean: Number(r.mean),
+      min: Number(r.min),
+      max: Number(r.max),
+      stddev: Math.sqrt(Math.max(0, Number(r.variance))),
+      percentiles,
+    });
+  }
+  return stats;
+}
+
+/**
+ * Aggregate numeric payload fields of api_data per group: count, mean,
+ * min, max, standard deviation and percentiles. Records where a field is
+ * missing or not numeric are left out of that field's statistics only.
+ * Groups are ordered by key, records without a key (null) first.
+ */
+export async function aggregate(db: Db, query: AggregateQuery): Promise<AggregateGroup[]> {
+  const perField = await Promise.all(query.fields.map((field) => fieldStats(db, query, field)));
+
+  const keys = [...new Set(perField.flatMap((stats) => [...stats.keys()]))].sort((a, b) =>
+    a === b ? 0 : a === null ? -1 : b === null ? 1 : a < b ? -1 : 1,
+  );
+
+  return keys.map((group) => ({
+    group,
+    fields: Object.fromEntries(
+      query.fields.map((field, i) => [field, perField[i].get(group) ?? emptyStats(query.percentiles)]),
+    ),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Tag usage
+// ---------------------------------------------------------------------------
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Most used tags of each dataset in the selection, most frequent first
+ * (ties by tag), at most `max` per dataset. Keyed `<adapterId>:<payloadType>`.
+ */
+export async function tagCounts(db: Db, where: SQL | undefined, max: number): Promise<Map<string, TagCount[]>> {
+  // One row per (record, tag) via json_each; records without tags produce no rows
+  const rows = await db
+    .select({
+      apiSource: apiData.apiSource,
+      payloadType: apiData.payloadType,
+      tag: sql<string>`je.value`.as("tag"),
+      count: count().as("count"),
+    })
+    .from(apiData)
+    .innerJoin(sql`json_each(${apiData.tags}) as je`, sql`true`)
+    .where(where)
+    .groupBy(apiData.apiSource, apiData.payloadType, sql`tag`)
+    .orderBy(desc(sql`count`), asc(sql`tag`));
+
+  const byDataset = new Map<string, TagCount[]>();
+  for (const r of rows) {
+    const key = `${r.apiSource}:${r.payloadType}`;
+    const list = byDataset.get(key) ?? [];
+    if (list.length < max) list.push({ tag: r.tag, count: r.count });
+    byDataset.set(key, list);
+  }
+  return byDataset;
+}
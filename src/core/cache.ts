@@ -1,36 +1,64 @@
 import type { Context, Next } from "hono";
+import { responseFormat } from "./formats";
+
+/** Response headers kept with a cached body, by their KV metadata field. */
+const CACHED_HEADERS = {
+  contentDisposition: "Content-Disposition",
+  lastModified: "Last-Modified",
+  // Pagination of CSV lists, see csvResponse in ./formats
+  link: "Link",
+  totalCount: "X-Total-Count",
+  nextCursor: "X-Next-Cursor",
+} as const;
+
+interface CacheMetadata extends Partial<Record<keyof typeof CACHED_HEADERS, string>> {
+  contentType?: string;
+}
 
 /**
  * KV-based cache middleware.
  *
- * Caches JSON responses in Cloudflare KV with a configurable TTL.
- * The cache key is derived from the full request URL.
+ * Caches JSON, CSV, XML and iCalendar responses in Cloudflare KV with a
+ * configurable TTL. The cache key is derived from the negotiated format and
+ * the full request URL, so `Accept: text/csv` and JSON requests for the same
+ * URL never share an entry. The response content type, file name,
+ * `Last-Modified` and pagination headers are kept as KV metadata.
  *
  * On HIT: returns cached body with `Cache-Control` and `Vary` headers so
  * browsers / CDN proxies also cache the response.
  */
 export function kvCache(opts: { ttlSeconds: number; prefix?: string }) {
   return async (c: Context<{ Bindings: Env }>, next: Next) => {
-    const key = `${opts.prefix ?? "cache"}:${c.req.url}`;
+    const key = `${opts.prefix ?? "cache"}:${responseFormat(c)}:${c.req.url}`;
 
     // Try to read from cache
-    const cached = await c.env.CACHE.get(key, "text");
-    if (cached) {
+    const cached = await c.env.CACHE.getWithMetadata<CacheMetadata>(key, "text");
+    if (cached.value) {
       c.header("X-Cache", "HIT");
-      c.header("Content-Type", "application/json");
+      c.header("Content-Type", cached.metadata?.contentType ?? "application/json");
+      for (const [field, header] of Object.entries(CACHED_HEADERS)) {
+        const value = cached.metadata?.[field as keyof typeof CACHED_HEADERS];
+        if (value) c.header(header, value);
+      }
       c.header("Cache-Control", `public, max-age=${opts.ttlSeconds}`);
       c.header("Vary", "Accept");
-      return c.body(cached);
+      return c.body(cached.value);
     }
 
     // Miss – run handler
     await next();
 
-    // Only cache successful JSON responses
-    if (c.res.ok && c.res.headers.get("content-type")?.includes("json")) {
+    // Only cache successful JSON / CSV / XML / iCalendar responses
+    const contentType = c.res.headers.get("content-type");
+    if (c.res.ok && contentType && /json|csv|xml|calendar/.test(contentType)) {
       const body = await c.res.clone().text();
+      const metadata: CacheMetadata = { contentType };
+      for (const [field, header] of Object.entries(CACHED_HEADERS)) {
+        const value = c.res.headers.get(header);
+        if (value) metadata[field as keyof typeof CACHED_HEADERS] = value;
+      }
       c.executionCtx.waitUntil(
-        c.env.CACHE.put(key, body, { expirationTtl: opts.ttlSeconds }),
+        c.env.CACHE.put(key, body, { expirationTtl: opts.ttlSeconds, metadata }),
       );
       c.header("X-Cache", "MISS");
     }
@@ -58,3 +86,94 @@ export function cacheControl(maxAge: number, staleWhileRevalidate?: number) {
     }
   };
 }
+
+// ---------------------------------------------------------------------------
+// Conditional GET (ETag / Last-Modified)
+// ---------------------------------------------------------------------------
+
+/**
+ * Response types never hashed into an ETag: streams (SSE, NDJSON) and
+ * binaries (Parquet, stored files). Every other body is, unless the route
+ * sets its own ETag or calls `skipBodyEtag`.
+ */
+const UNHASHED_CONTENT_TYPES =
+  /^(text\/event-stream|application\/(x-ndjson|vnd\.apache\.parquet|octet-stream|pdf|zip|gzip)|image\/|audio\/|video\/)/i;
+
+declare module "hono" {
+  interface ContextVariableMap {
+    skipBodyEtag: boolean;
+  }
+}
+
+/**
+ * Keep `conditionalGet` from hashing this response — for streamed bodies
+ * of a type that is otherwise hashed, such as a CSV export.
+ */
+export function skipBodyEtag(c: Context) {
+  c.set("skipBodyEtag", true);
+}
+
+/**
+ * Set `Last-Modified` from the newest of `dates` — typically the
+ * `scrapedAt` of the rows in the response. No-op when there are none.
+ */
+export function setLastModified(c: Context, dates: Iterable<Date | null | undefined>) {
+  let newest: Date | null = null;
+  for (const date of dates) {
+    if (date && (!newest || date > newest)) newest = date;
+  }
+  if (newest) c.header("Last-Modified", newest.toUTCString());
+}
+
+/** Strong ETag: the first 128 bits of the body's SHA-256, in hex. */
+async function bodyEtag(res: Response): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await res.clone().arrayBuffer());
+  const hex = [...new Uint8Array(digest, 0, 16)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `"${hex}"`;
+}
+
+/** `If-None-Match` uses the weak comparison (RFC 9110 §13.1.2). */
+function etagMatches(ifNoneMatch: string, etag: string): boolean {
+  if (ifNoneMatch.trim() === "*") return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Conditional GET middleware.
+ *
+ * Adds a strong `ETag` to successful GET responses that lack one (hashing
+ * the body — so KV cache hits get the same tag as the original response)
+ * and answers `304 Not Modified` when `If-None-Match` matches it, or — only
+ * without `If-None-Match` — when `If-Modified-Since` is not older than the
+ * response's `Last-Modified` (see `setLastModified`).
+ */
+export function conditionalGet() {
+  return async (c: Context, next: Next) => {
+    await next();
+    if ((c.req.method !== "GET" && c.req.method !== "HEAD") || c.res.status !== 200) return;
+
+    let etag = c.res.headers.get("ETag");
+    if (!etag && !c.get("skipBodyEtag") && !UNHASHED_CONTENT_TYPES.test(c.res.headers.get("Content-Type") ?? "")) {
+      etag = await bodyEtag(c.res);
+      c.res.headers.set("ETag", etag);
+    }
+
+    const ifNoneMatch = c.req.header("If-None-Match");
+    const ifModifiedSince = c.req.header("If-Modified-Since");
+    const lastModified = c.res.headers.get("Last-Modified");
+    const notModified =
+      ifNoneMatch !== undefined ? !!etag && etagMatches(ifNoneMatch, etag)
+      : ifModifiedSince !== undefined && lastModified !== null
+        ? Date.parse(lastModified) <= Date.parse(ifModifiedSince)
+        : false;
+    if (!notModified) return;
+
+    // Keep validators, caching and CORS headers; drop the body and its headers
+    const headers = new Headers(c.res.headers);
+    for (const name of ["Content-Type", "Content-Length", "Content-Encoding", "Content-Disposition"]) headers.delete(name);
+    await c.res.body?.cancel();
+    c.res = undefined;
+    c.res = new Response(null, { status: 304, headers });
+  };
+}
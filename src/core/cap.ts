@@ -0,0 +1,125 @@
+import type { Context } from "hono";
+import { xmlEscape } from "./formats";
+import { setLastModified } from "./cache";
+
+// ---------------------------------------------------------------------------
+// Common Alerting Protocol 1.2 (OASIS) — one <alert> with one <info> block
+// ---------------------------------------------------------------------------
+
+export const CAP_MEDIA_TYPE = "application/cap+xml";
+export const CAP_CONTENT_TYPE = `${CAP_MEDIA_TYPE}; charset=utf-8`;
+
+const CAP_NS = "urn:oasis:names:tc:emergency:cap:1.2";
+
+export type CapCategory = "Geo" | "Met" | "Safety" | "Security" | "Rescue" | "Fire" | "Health" | "Env" | "Transport" | "Infra" | "CBRNE" | "Other";
+export type CapUrgency = "Immediate" | "Expected" | "Future" | "Past" | "Unknown";
+export type CapSeverity = "Extreme" | "Severe" | "Moderate" | "Minor" | "Unknown";
+export type CapCertainty = "Observed" | "Likely" | "Possible" | "Unlikely" | "Unknown";
+
+/** `valueName` / `value` pair used by CAP parameters and geocodes. */
+export interface CapValue {
+  valueName: string;
+  value: string;
+}
+
+export interface CapArea {
+  areaDesc: string;
+  /** Centre and radius in km; radius 0 marks a point. */
+  circles: Array<{ latitude: number; longitude: number; radiusKm: number }>;
+  geocodes: CapValue[];
+}
+
+export interface CapInfo {
+  category: CapCategory;
+  event: string;
+  urgency: CapUrgency;
+  severity: CapSeverity;
+  certainty: CapCertainty;
+  /** CAP date-times, see `capDateTime`. */
+  onset?: string;
+  expires?: string;
+  senderName: string;
+  headline: string;
+  description: string;
+  web?: string;
+  parameters: CapValue[];
+  areas: CapArea[];
+}
+
+/** An earlier message, as written in `<references>`. */
+export interface CapReference {
+  sender: string;
+  identifier: string;
+  sent: Date;
+}
+
+export interface CapAlert {
+  /** Unique per sender and never reused — the record's GUID. */
+  identifier: string;
+  sender: string;
+  sent: Date;
+  /** Earlier alerts this one updates, oldest first; when present the alert is sent as an Update. */
+  references?: CapReference[];
+  info: CapInfo;
+}
+
+/**
+ * CAP date-time: ISO 8601 with an explicit offset and no fractional seconds.
+ * CAP forbids "Z", so UTC is written "+00:00".
+ */
+export function capDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "+00:00");
+}
+
+function valueXml(tag: string, v: CapValue, indent: string): string {
+  return `${indent}<${tag}>\n${indent}  <valueName>${xmlEscape(v.valueName)}</valueName>\n${indent}  <value>${xmlEscape(v.value)}</value>\n${indent}</${tag}>\n`;
+}
+
+function areaXml(area: CapArea): string {
+  let xml = "    <area>\n";
+  xml += `      <areaDesc>${xmlEscape(area.areaDesc)}</areaDesc>\n`;
+  for (const c of area.circles) xml += `      <circle>${c.latitude},${c.longitude} ${c.radiusKm}</circle>\n`;
+  for (const g of area.geocodes) xml += valueXml("geocode", g, "      ");
+  return xml + "    </area>\n";
+}
+
+/** Serialise an alert; elements follow the order required by the CAP 1.2 schema. */
+export function capAlertXml(alert: CapAlert): string {
+  const { info, references = [] } = alert;
+  let xml = `<?xml version="1.0" encoding="utf-8"?>\n`;
+  xml += `<alert xmlns="${CAP_NS}">\n`;
+  xml += `  <identifier>${xmlEscape(alert.identifier)}</identifier>\n`;
+  xml += `  <sender>${xmlEscape(alert.sender)}</sender>\n`;
+  xml += `  <sent>${capDateTime(alert.sent)}</sent>\n`;
+  xml += "  <status>Actual</status>\n";
+  xml += `  <msgType>${references.length > 0 ? "Update" : "Alert"}</msgType>\n`;
+  xml += "  <scope>Public</scope>\n";
+  if (references.length > 0) {
+    const list = references.map((r) => `${r.sender},${r.identifier},${capDateTime(r.sent)}`).join(" ");
+    xml += `  <references>${xmlEscape(list)}</references>\n`;
+  }
+  xml += "  <info>\n";
+  xml += "    <language>pt-PT</language>\n";
+  xml += `    <category>${info.category}</category>\n`;
+  xml += `    <event>${xmlEscape(info.event)}</event>\n`;
+  xml += `    <urgency>${info.urgency}</urgency>\n`;
+  xml += `    <severity>${info.severity}</severity>\n`;
+  xml += `    <certainty>${info.certainty}</certainty>\n`;
+  if (info.onset) xml += `    <onset>${info.onset}</onset>\n`;
+  if (info.expires) xml += `    <expires>${info.expires}</expires>\n`;
+  xml += `    <senderName>${xmlEscape(info.senderName)}</senderName>\n`;
+  xml += `    <headline>${xmlEscape(info.headline)}</headline>\n`;
+  xml += `    <description>${xmlEscape(info.description)}</description>\n`;
+  if (info.web) xml += `    <web>${xmlEscape(info.web)}</web>\n`;
+  for (const p of info.parameters) xml += valueXml("parameter", p, "    ");
+  for (const area of info.areas) xml += areaXml(area);
+  xml += "  </info>\n";
+  return xml + "</alert>\n";
+}
+
+/** Send a CAP alert with `Last-Modified` from its `sent` time. */
+export function capResponse(c: Context, alert: CapAlert): Response {
+  setLastModified(c, [alert.sent]);
+  c.header("Content-Type", CAP_CONTENT_TYPE);
+  return c.body(capAlertXml(alert), 200);
+}
@@ -0,0 +1,267 @@
+import type { AdapterPublisher, DatasetLicense } from "./adapter";
+import { xmlEscape } from "./formats";
+
+// ---------------------------------------------------------------------------
+// Catalog model — one dataset per (adapter, payloadType)
+// ---------------------------------------------------------------------------
+
+export const JSONLD_CONTENT_TYPE = "application/ld+json";
+export const RDF_XML_CONTENT_TYPE = "application/rdf+xml; charset=utf-8";
+
+export interface CatalogDistribution {
+  /** Fragment appended to the dataset IRI, e.g. "csv". */
+  key: string;
+  title: string;
+  /** EU file-type authority code, e.g. "CSV". */
+  fileType: "JSON" | "CSV" | "GEOJSON";
+  mediaType: string;
+  accessUrl: string;
+}
+
+export interface CatalogDataset {
+  /** CKAN package name, e.g. "tempo-previsao-diaria". */
+  name: string;
+  iri: string;
+  title: string;
+  description: string;
+  keywords: string[];
+  landingPage: string;
+  publisher: AdapterPublisher;
+  license: DatasetLicense;
+  modified: Date | null;
+  temporal: { start: Date; end: Date } | null;
+  bbox: { minLat: number; minLon: number; maxLat: number; maxLon: number } | null;
+  /** JSON Schema / catalog of the payload (dct:conformsTo). */
+  conformsTo: string;
+  distributions: CatalogDistribution[];
+}
+
+export interface Catalog {
+  iri: string;
+  title: string;
+  description: string;
+  homepage: string;
+  publisher: AdapterPublisher;
+  modified: Date | null;
+  datasets: CatalogDataset[];
+}
+
+// ---------------------------------------------------------------------------
+// DCAT-AP as JSON-LD
+// ---------------------------------------------------------------------------
+
+/** Prefixes used by the JSON-LD documents; also the RDF/XML namespaces. */
+const NAMESPACES = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  dcat: "http://www.w3.org/ns/dcat#",
+  dct: "http://purl.org/dc/terms/",
+  foaf: "http://xmlns.com/foaf/0.1/",
+  gsp: "http://www.opengis.net/ont/geosparql#",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+} as const;
+
+const EU_AUTHORITY = "http://publications.europa.eu/resource/authority";
+const IANA_MEDIA_TYPES = "https://www.iana.org/assignments/media-types";
+
+type JsonLdNode = { [key: string]: unknown };
+
+const pt = (text: string) => ({ "@value": text, "@language": "pt" });
+const iri = (id: string) => ({ "@id": id });
+const dateTime = (date: Date) => ({ "@value": date.toISOString(), "@type": "xsd:dateTime" });
+
+function agentNode(agent: AdapterPublisher): JsonLdNode {
+  return {
+    "@type": "foaf:Agent",
+    "foaf:name": agent.name,
+    ...(agent.url ? { "foaf:homepage": iri(agent.url) } : {}),
+  };
+}
+
+/** WKT polygon for a bounding box, as DCAT-AP expects in dcat:bbox. */
+function bboxWkt({ minLat, minLon, maxLat, maxLon }: NonNullable<CatalogDataset["bbox"]>): string {
+  const ring = [
+    [minLon, minLat],
+    [maxLon, minLat],
+    [maxLon, maxLat],
+    [minLon, maxLat],
+    [minLon, minLat],
+  ];
+  return `POLYGON((${ring.map(([lon, lat]) => `${lon} ${lat}`).join(", ")}))`;
+}
+
+function datasetNode(dataset: CatalogDataset): JsonLdNode {
+  const spatial: unknown[] = [iri(`${EU_AUTHORITY}/country/PRT`)];
+  if (dataset.bbox) {
+    spatial.push({ "@type": "dct:Location", "dcat:bbox": { "@value": bboxWkt(dataset.bbox), "@type": "gsp:wktLiteral" } });
+  }
+
+  return {
+    "@id": dataset.iri,
+    "@type": "dcat:Dataset",
+    "dct:identifier": dataset.name,
+    "dct:title": pt(dataset.title),
+    "dct:description": pt(dataset.description),
+    "dcat:keyword": dataset.keywords.map(pt),
+    "dcat:landingPage": iri(dataset.landingPage),
+    "dct:publisher": agentNode(dataset.publisher),
+    "dct:license": iri(dataset.license.url),
+    "dct:language": iri(`${EU_AUTHORITY}/language/POR`),
+    "dct:conformsTo": iri(dataset.conformsTo),
+    "dct:spatial": spatial,
+    ...(dataset.modified ? { "dct:modified": dateTime(dataset.modified) } : {}),
+    ...(dataset.temporal
+      ? {
+          "dct:temporal": {
+            "@type": "dct:PeriodOfTime",
+            "dcat:startDate": dateTime(dataset.temporal.start),
+            "dcat:endDate": dateTime(dataset.temporal.end),
+          },
+        }
+      : {}),
+    "dcat:distribution": dataset.distributions.map((d) => ({
+      "@id": `${dataset.iri}#${d.key}`,
+      "@type": "dcat:Distribution",
+      "dct:title": pt(d.title),
+      "dcat:accessURL": iri(d.accessUrl),
+      "dct:format": iri(`${EU_AUTHORITY}/file-type/${d.fileType}`),
+      "dcat:mediaType": iri(`${IANA_MEDIA_TYPES}/${d.mediaType}`),
+      "dct:license": iri(dataset.license.url),
+    })),
+  };
+}
+
+/** The whole catalog as a DCAT-AP JSON-LD document. */
+export function catalogJsonLd(catalog: Catalog): JsonLdNode {
+  return {
+    "@context": NAMESPACES,
+    "@id": catalog.iri,
+    "@type": "dcat:Catalog",
+    "dct:title": pt(catalog.title),
+    "dct:description": pt(catalog.description),
+    "foaf:homepage": iri(catalog.homepage),
+    "dct:publisher": agentNode(catalog.publisher),
+    "dct:language": iri(`${EU_AUTHORITY}/language/POR`),
+    ...(catalog.modified ? { "dct:modified": dateTime(catalog.modified) } : {}),
+    "dcat:dataset": catalog.datasets.map(datasetNode),
+  };
+}
+
+/** One dataset as a standalone JSON-LD document. */
+export function datasetJsonLd(dataset: CatalogDataset): JsonLdNode {
+  return { "@context": NAMESPACES, ...datasetNode(dataset) };
+}
+
+// ---------------------------------------------------------------------------
+// RDF/XML — written from the JSON-LD above
+// ---------------------------------------------------------------------------
+
+/** Expand a compact "prefix:local" name to a full IRI. */
+function expand(name: string): string {
+  const [prefix, local] = name.split(":");
+  return `${NAMESPACES[prefix as keyof typeof NAMESPACES]}${local}`;
+}
+
+function propertyXml(name: string, value: unknown, indent: string): string {
+  if (value !== null && typeof value === "object") {
+    const v = value as JsonLdNode;
+    if ("@value" in v) {
+      const attr =
+        v["@language"] ? ` xml:lang="${v["@language"]}"`
+        : v["@type"] ? ` rdf:datatype="${expand(v["@type"] as string)}"`
+        : "";
+      return `${indent}<${name}${attr}>${xmlEscape(String(v["@value"]))}</${name}>\n`;
+    }
+    if (Object.keys(v).length === 1 && "@id" in v) {
+      return `${indent}<${name} rdf:resource="${xmlEscape(v["@id"] as string)}"/>\n`;
+    }
+    return `${indent}<${name}>\n${nodeXml(v, `${indent}  `)}${indent}</${name}>\n`;
+  }
+  return `${indent}<${name}>${xmlEscape(String(value))}</${name}>\n`;
+}
+
+function nodeXml(node: JsonLdNode, indent: string): string {
+  const type = (node["@type"] as string | undefined) ?? "rdf:Description";
+  const about = node["@id"] ? ` rdf:about="${xmlEscape(node["@id"] as string)}"` : "";
+  let xml = `${indent}<${type}${about}>\n`;
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    for (const item of Array.isArray(value) ? value : [value]) xml += propertyXml(key, item, `${indent}  `);
+  }
+  return xml + `${indent}</${type}>\n`;
+}
+
+/**
+ * Serialise a JSON-LD document produced by `catalogJsonLd` / `datasetJsonLd`
+ * as RDF/XML. Handles only the shapes those functions emit: compact
+ * property names, nested nodes, `{ "@id" }` references and
+ * `{ "@value", "@type" | "@language" }` literals.
+ */
+export function toRdfXml(document: JsonLdNode): string {
+  const { "@context": _context, ...root } = document;
+  const xmlns = Object.entries(NAMESPACES)
+    .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+    .join("\n  ");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<rdf:RDF\n  ${xmlns}>\n${nodeXml(root, "  ")}</rdf:RDF>\n`;
+}
+
+// ---------------------------------------------------------------------------
+// CKAN Action API (package_list / package_show)
+// ---------------------------------------------------------------------------
+
+const CKAN_FORMATS: Record<CatalogDistribution["fileType"], string> = { JSON: "JSON", CSV: "CSV", GEOJSON: "GeoJSON" };
+
+function slug(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/** A dataset in the shape CKAN's `package_show` returns. */
+export function ckanPackage(dataset: CatalogDataset) {
+  const extras: { key: string; value: string }[] = [];
+  if (dataset.temporal) {
+    extras.push({ key: "temporal_start", value: dataset.temporal.start.toISOString() });
+    extras.push({ key: "temporal_end", value: dataset.temporal.end.toISOString() });
+  }
+  if (dataset.bbox) {
+    const { minLat, minLon, maxLat, maxLon } = dataset.bbox;
+    const polygon = {
+      type: "Polygon",
+      coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]],
+    };
+    extras.push({ key: "spatial", value: JSON.stringify(polygon) });
+  }
+  extras.push({ key: "uri", value: dataset.iri });
+  extras.push({ key: "conforms_to", value: dataset.conformsTo });
+
+  return {
+    id: dataset.name,
+    name: dataset.name,
+    title: dataset.title,
+    notes: dataset.description,
+    url: dataset.landingPage,
+    type: "dataset",
+    state: "active",
+    private: false,
+    license_id: dataset.license.id,
+    license_title: dataset.license.title,
+    license_url: dataset.license.url,
+    organization: { name: slug(dataset.publisher.name), title: dataset.publisher.name },
+    metadata_modified: dataset.modified?.toISOString() ?? null,
+    tags: dataset.keywords.map((name) => ({ name })),
+    num_tags: dataset.keywords.length,
+    resources: dataset.distributions.map((d) => ({
+      id: `${dataset.name}-${d.key}`,
+      package_id: dataset.name,
+      name: d.title,
+      format: CKAN_FORMATS[d.fileType],
+      mimetype: d.mediaType,
+      url: d.accessUrl,
+    })),
+    num_resources: dataset.distributions.length,
+    extras,
+  };
+}
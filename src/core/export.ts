@@ -0,0 +1,517 @@
+import { and, asc, count, desc, eq, gte, lt, lte, sql, type SQL } from "drizzle-orm";
+import { ByteWriter, ParquetWriter, schemaFromColumnData, type BasicType } from "hyparquet-writer";
+import type { Db } from "../db/client";
+import { getDb } from "../db/client";
+import { apiData, exportJobs } from "../db/schema";
+import { compileTagFilters, compileWhereList } from "../api/filters";
+import { afterCursor } from "../api/cursor";
+import { csvLine } from "./formats";
+import { sha256 } from "./storage";
+
+// ---------------------------------------------------------------------------
+// Formats & filters
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = ["ndjson", "csv", "parquet"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv; charset=utf-8",
+  parquet: "application/vnd.apache.parquet",
+};
+
+/** api_data selection of an export — the same filters as /v1/search. */
+export interface ExportFilters {
+  adapterId?: string;
+  payloadType?: string;
+  locationId?: string;
+  from?: string;
+  to?: string;
+  tags?: string;
+  anyTags?: string;
+  where?: string[];
+}
+
+/**
+ * Exports up to this many rows stream straight to the client; larger ones
+ * are written to R2 by the scheduler and downloaded later.
+ */
+export const EXPORT_STREAM_MAX_ROWS = 50_000;
+
+/** How long a finished export stays in R2. */
+const EXPORT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** A running export not finished after this long is considered crashed. */
+const EXPORT_STALE_SECONDS = 20 * 60;
+
+/** Rows per D1 query while exporting. */
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Most recent rows whose payloads decide the CSV / Parquet columns. */
+export const EXPORT_COLUMN_SAMPLE_ROWS = 1000;
+
+/** Rows per Parquet row group. */
+const PARQUET_ROW_GROUP_SIZE = 10_000;
+
+/** R2 multipart part size — every part but the last must have exactly this size. */
+const R2_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Compile export filters to SQL conditions on api_data.
+ * @throws ValidationError for invalid `where` or tag filters.
+ */
+export function exportConditions(filters: ExportFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.adapterId) conditions.push(eq(apiData.apiSource, filters.adapterId));
+  if (filters.payloadType) conditions.push(eq(apiData.payloadType, filters.payloadType));
+  if (filters.locationId) conditions.push(eq(apiData.locationId, filters.locationId));
+  if (filters.from) conditions.push(gte(apiData.timestamp, new Date(filters.from)));
+  if (filters.to) conditions.push(lte(apiData.timestamp, new Date(filters.to)));
+  conditions.push(
+    ...compileTagFilters(filters.tags, filters.anyTags),
+    ...compileWhereList(filters.where),
+  );
+  return conditions;
+}
+
+/** Number of api_data rows an export would contain. */
+export async function countExportRows(db: Db, conditions: SQL[]): Promise<number> {
+  const [{ total }] = await db.select({ total: count() }).from(apiData).where(and(...conditions));
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// Payload columns (CSV / Parquet)
+// ---------------------------------------------------------------------------
+
+interface PayloadColumn {
+  /** Column name, e.g. "payload.data.rcm". */
+  name: string;
+  /** Keys from the payload root to the value. */
+  segments: string[];
+  kind: "number" | "boolean" | "text";
+}
+
+/** Split a json_tree fullkey such as `$.a."b.c".d` into its keys. */
+function parseFullKey(fullkey: string): string[] {
+  const segments: string[] = [];
+  let i = 1; // skip "$"
+  while (i < fullkey.length) {
+    i++; // skip "."
+    if (fullkey[i] === '"') {
+      const end = fullkey.indexOf('"', i + 1);
+      segments.push(fullkey.slice(i + 1, end));
+      i = end + 1;
+    } else {
+      const end = fullkey.indexOf(".", i);
+      segments.push(fullkey.slice(i, end === -1 ? undefined : end));
+      i = end === -1 ? fullkey.length : end;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Every scalar (or array) leaf present in the payloads of the most recent
+ * EXPORT_COLUMN_SAMPLE_ROWS selected rows, so CSV and Parquet get one stable
+ * column per field without walking the whole selection with json_tree. A
+ * field that only older rows have gets no column. Arrays are kept whole as JSON.
+ */
+async function discoverPayloadColumns(db: Db, conditions: SQL[]): Promise<PayloadColumn[]> {
+  const sample = db
+    .select({ payload: apiData.payload })
+    .from(apiData)
+    .where(and(...conditions))
+    .orderBy(desc(apiData.timestamp))
+    .limit(EXPORT_COLUMN_SAMPLE_ROWS)
+    .as("sample");
+  const rows = await db
+    .select({
+      fullkey: sql<string>`j.fullkey`,
+      types: sql<string>`group_concat(distinct j.type)`,
+    })
+    .from(sample)
+    .innerJoin(sql`json_tree(${sample.payload}) as j`, sql`true`)
+    .where(and(sql`j.type != 'object'`, sql`j.fullkey not like '%[%'`))
+    .groupBy(sql`j.fullkey`)
+    .orderBy(sql`j.fullkey`);
+
+  return rows.map((r) => {
+    const segments = parseFullKey(r.fullkey);
+    const types = new Set(r.types.split(","));
+    types.delete("null");
+    const numeric = [...types].every((t) => t === "integer" || t === "real");
+    const boolean = [...types].every((t) => t === "true" || t === "false");
+    return {
+      name: ["payload", ...segments].join("."),
+      segments,
+      kind: types.size > 0 && numeric ? "number" : types.size > 0 && boolean ? "boolean" : "text",
+    };
+  });
+}
+
+function readPath(payload: unknown, segments: string[]): unknown {
+  let value = payload;
+  for (const key of segments) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Value of a payload column, coerced to the column kind (Parquet is strictly typed). */
+function columnValue(payload: unknown, column: PayloadColumn): string | number | boolean | null {
+  const value = readPath(payload, column.segments);
+  if (value === undefined || value === null) return null;
+  if (column.kind === "number") return typeof value === "number" ? value : null;
+  if (column.kind === "boolean") return typeof value === "boolean" ? value : null;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Encoders
+// ---------------------------------------------------------------------------
+
+type ApiDataRow = typeof apiData.$inferSelect;
+
+/** Page through the selection in (timestamp, id) order without OFFSET. */
+async function* selectRows(db: Db, conditions: SQL[]): AsyncGenerator<ApiDataRow[]> {
+  let last: ApiDataRow | undefined;
+  while (true) {
+    const page = await db
+      .select()
+      .from(apiData)
+      .where(and(...conditions, last ? afterCursor({ t: last.timestamp.getTime(), id: last.id }, "asc") : undefined))
+      .orderBy(asc(apiData.timestamp), asc(apiData.id))
+      .limit(EXPORT_PAGE_SIZE);
+    if (page.length > 0) yield page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+    last = page[page.length - 1];
+  }
+}
+
+const BASE_COLUMNS = ["id", "apiSource", "payloadType", "locationId", "timestamp", "scrapedAt", "tags"];
+
+function baseValues(r: ApiDataRow) {
+  return [r.id, r.apiSource, r.payloadType, r.locationId, r.timestamp, r.scrapedAt, r.tags];
+}
+
+/** ByteWriter that hands over its bytes after every Parquet row group. */
+class ChunkedByteWriter extends ByteWriter {
+  chunks: Uint8Array[] = [];
+
+  flush() {
+    this.chunks.push(this.getBytes().slice());
+    this.index = 0;
+  }
+
+  finish() {
+    this.flush();
+  }
+
+  take(): Uint8Array[] {
+    const chunks = this.chunks;
+    this.chunks = [];
+    return chunks;
+  }
+}
+
+/** Progress of a running export. */
+export interface ExportProgress {
+  rows: number;
+}
+
+/**
+ * Encode the selection as a stream of byte chunks. Only one page of rows
+ * (or one Parquet row group) is held in memory at a time.
+ */
+export async function* exportChunks(
+  db: Db,
+  conditions: SQL[],
+  format: ExportFormat,
+  progress: ExportProgress = { rows: 0 },
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  if (format === "ndjson") {
+    for await (const page of selectRows(db, conditions)) {
+      progress.rows += page.length;
+      yield encoder.encode(
+        page
+          .map((r) =>
+            JSON.stringify({
+              id: r.id,
+              apiSource: r.apiSource,
+              payloadType: r.payloadType,
+              locationId: r.locationId,
+              timestamp: r.timestamp.toISOString(),
+              payload: JSON.parse(r.payload),
+              tags: r.tags ? JSON.parse(r.tags) : null,
+              scrapedAt: r.scrapedAt.toISOString(),
+            }) + "\n",
+          )
+          .join(""),
+      );
+    }
+    return;
+  }
+
+  const columns = await discoverPayloadColumns(db, conditions);
+
+  if (format === "csv") {
+    yield encoder.encode(csvLine([...BASE_COLUMNS, ...columns.map((c) => c.name)]));
+    for await (const page of selectRows(db, conditions)) {
+      progress.rows += page.length;
+      yield encoder.encode(
+        page
+          .map((r) => {
+            const payload = JSON.parse(r.payload);
+            return csvLine([...baseValues(r), ...columns.map((c) => columnValue(payload, c))]);
+          })
+          .join(""),
+      );
+    }
+    return;
+  }
+
+  // Parquet: buffer one row group, write it, hand its bytes over
+  const kinds: Record<PayloadColumn["kind"], BasicType> = { number: "DOUBLE", boolean: "BOOLEAN", text: "STRING" };
+  const columnTypes: Array<{ name: string; type: BasicType }> = [
+    { name: "id", type: "STRING" },
+    { name: "apiSource", type: "STRING" },
+    { name: "payloadType", type: "STRING" },
+    { name: "locationId", type: "STRING" },
+    { name: "timestamp", type: "TIMESTAMP" },
+    { name: "scrapedAt", type: "TIMESTAMP" },
+    { name: "tags", type: "STRING" },
+    ...columns.map((c) => ({ name: c.name, type: kinds[c.kind] })),
+  ];
+  const writer = new ChunkedByteWriter();
+  const parquet = new ParquetWriter({
+    writer,
+    schema: schemaFromColumnData({ columnData: columnTypes.map((c) => ({ ...c, data: [] })) }),
+  });
+
+  let group: unknown[][] = columnTypes.map(() => []);
+  const writeGroup = async () => {
+    if (group[0].length === 0) return;
+    await parquet.write({
+      columnData: columnTypes.map((c, i) => ({ name: c.name, data: group[i], type: c.type })),
+      rowGroupSize: PARQUET_ROW_GROUP_SIZE,
+    });
+    group = columnTypes.map(() => []);
+  };
+
+  for await (const page of selectRows(db, conditions)) {
+    progress.rows += page.length;
+    for (const r of page) {
+      const payload = JSON.parse(r.payload);
+      const values = [...baseValues(r), ...columns.map((c) => columnValue(payload, c))];
+      values.forEach((v, i) => group[i].push(v));
+    }
+    if (group[0].length >= PARQUET_ROW_GROUP_SIZE) {
+      await writeGroup();
+      yield* writer.take();
+    }
+  }
+  await writeGroup();
+  await parquet.finish();
+  yield* writer.take();
+}
+
+/** Wrap `exportChunks` in a ReadableStream for a streaming HTTP response. */
+export function exportStream(db: Db, conditions: SQL[], format: ExportFormat): ReadableStream<Uint8Array> {
+  const chunks = exportChunks(db, conditions, format);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Export jobs (large exports written to R2)
+// ---------------------------------------------------------------------------
+
+export type ExportJob = typeof exportJobs.$inferSelect;
+
+/** Key order and empty values must not produce different hashes for the same export. */
+function normaliseFilters(filters: ExportFilters): ExportFilters {
+  const keys = Object.keys(filters).sort() as Array<keyof ExportFilters>;
+  return Object.fromEntries(
+    keys
+      .filter((k) => filters[k] !== undefined && filters[k] !== "" && !(Array.isArray(filters[k]) && filters[k].length === 0))
+      .map((k) => [k, k === "where" ? [...filters.where!].sort() : filters[k]]),
+  );
+}
+
+/**
+ * Return the live export job for this format and selection, creating a
+ * pending one if none exists. Identical requests share the same file.
+ */
+export async function findOrCreateExportJob(
+  db: Db,
+  format: ExportFormat,
+  filters: ExportFilters,
+): Promise<ExportJob> {
+  const normalised = normaliseFilters(filters);
+  const queryHash = await sha256(JSON.stringify({ format, filters: normalised }));
+  const now = new Date();
+
+  const [existing] = await db
+    .select()
+    .from(exportJobs)
+    .where(
+      and(
+        eq(exportJobs.queryHash, queryHash),
+        gte(exportJobs.expiresAt, now),
+        sql`${exportJobs.status} != 'error'`,
+      ),
+    )
+    .limit(1);
+  if (existing) return existing;
+
+  const job: ExportJob = {
+    id: crypto.randomUUID(),
+    queryHash,
+    format,
+    filters: JSON.stringify(normalised),
+    status: "pending",
+    rowCount: null,
+    sizeBytes: null,
+    r2Key: null,
+    error: null,
+    createdAt: now,
+    startedAt: null,
+    finishedAt: null,
+    expiresAt: new Date(now.getTime() + EXPORT_TTL_SECONDS * 1000),
+  };
+  await db.insert(exportJobs).values(job);
+  return job;
+}
+
+/** Upload a chunk stream to R2 in equally-sized multipart parts. */
+async function uploadChunks(
+  r2: R2Bucket,
+  key: string,
+  contentType: string,
+  chunks: AsyncGenerator<Uint8Array>,
+): Promise<number> {
+  const upload = await r2.createMultipartUpload(key, { httpMetadata: { contentType } });
+  const parts: R2UploadedPart[] = [];
+  let buffer = new Uint8Array(R2_PART_SIZE);
+  let filled = 0;
+  let size = 0;
+
+  try {
+    for await (const chunk of chunks) {
+      size += chunk.byteLength;
+      let offset = 0;
+      while (offset < chunk.byteLength) {
+        const n = Math.min(R2_PART_SIZE - filled, chunk.byteLength - offset);
+        buffer.set(chunk.subarray(offset, offset + n), filled);
+        filled += n;
+        offset += n;
+        if (filled === R2_PART_SIZE) {
+          parts.push(await upload.uploadPart(parts.length + 1, buffer));
+          buffer = new Uint8Array(R2_PART_SIZE);
+          filled = 0;
+        }
+      }
+    }
+    if (filled > 0 || parts.length === 0) {
+      parts.push(await upload.uploadPart(parts.length + 1, buffer.slice(0, filled)));
+    }
+    await upload.complete(parts);
+  } catch (err) {
+    await upload.abort();
+    throw err;
+  }
+  return size;
+}
+
+/** Run one export job to completion, recording the outcome on its row. */
+async function runExportJob(env: Env, db: Db, job: ExportJob): Promise<void> {
+  const format = job.format as ExportFormat;
+  const r2Key = `exports/${job.id}.${format}`;
+  const progress: ExportProgress = { rows: 0 };
+
+  try {
+    const conditions = exportConditions(JSON.parse(job.filters) as ExportFilters);
+    const sizeBytes = await uploadChunks(
+      env.DOCUMENTS,
+      r2Key,
+      EXPORT_CONTENT_TYPES[format],
+      exportChunks(db, conditions, format, progress),
+    );
+    await db
+      .update(exportJobs)
+      .set({ status: "ready", rowCount: progress.rows, sizeBytes, r2Key, finishedAt: new Date() })
+      .where(eq(exportJobs.id, job.id));
+    console.log(`[export] ✓ ${job.id} (${progress.rows} rows, ${sizeBytes} bytes)`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await db
+      .update(exportJobs)
+      .set({ status: "error", error: message, finishedAt: new Date() })
+      .where(eq(exportJobs.id, job.id));
+    console.error(`[export] ✗ ${job.id} failed:`, message);
+  }
+}
+
+/**
+ * Scheduler entry point: drop expired exports, requeue crashed ones and run
+ * the oldest pending job. One job per invocation keeps each run well inside
+ * the cron time limit.
+ */
+export async function processExportJobs(env: Env): Promise<void> {
+  const db = getDb(env);
+  const now = new Date();
+
+  const expired = await db
+    .select({ id: exportJobs.id, r2Key: exportJobs.r2Key })
+    .from(exportJobs)
+    .where(lt(exportJobs.expiresAt, now));
+  if (expired.length > 0) {
+    const keys = expired.flatMap((e) => (e.r2Key ? [e.r2Key] : []));
+    if (keys.length > 0) await env.DOCUMENTS.delete(keys);
+    await db.delete(exportJobs).where(lt(exportJobs.expiresAt, now));
+  }
+
+  await db
+    .update(exportJobs)
+    .set({ status: "pending", startedAt: null })
+    .where(
+      and(
+        eq(exportJobs.status, "running"),
+        lt(exportJobs.startedAt, new Date(now.getTime() - EXPORT_STALE_SECONDS * 1000)),
+      ),
+    );
+
+  const [job] = await db
+    .select()
+    .from(exportJobs)
+    .where(eq(exportJobs.status, "pending"))
+    .orderBy(asc(exportJobs.createdAt))
+    .limit(1);
+  if (!job) return;
+
+  // Claim the job; a concurrent run that got here first wins
+  const claimed = await db
+    .update(exportJobs)
+    .set({ status: "running", startedAt: now })
+    .where(and(eq(exportJobs.id, job.id), eq(exportJobs.status, "pending")));
+  if (claimed.meta.changes === 0) return;
+
+  await runExportJob(env, db, job);
+}
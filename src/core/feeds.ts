@@ -0,0 +1,164 @@
+import type { Context } from "hono";
+import type { AdapterPublisher } from "./adapter";
+import { responseFormat, xmlEscape } from "./formats";
+import { setLastModified } from "./cache";
+
+// ---------------------------------------------------------------------------
+// Feed model — rendered as Atom 1.0 (RFC 4287) or RSS 2.0
+// ---------------------------------------------------------------------------
+
+export const ATOM_CONTENT_TYPE = "application/atom+xml; charset=utf-8";
+export const RSS_CONTENT_TYPE = "application/rss+xml; charset=utf-8";
+
+export type FeedFormat = "atom" | "rss";
+
+/** Entries per feed — feed readers poll, so only the most recent are listed. */
+export const FEED_MAX_ENTRIES = 50;
+
+export interface FeedEntry {
+  /** Stable GUID, see `entryId`. */
+  id: string;
+  title: string;
+  /** Plain text. */
+  summary: string;
+  link: string;
+  /** Media type of `link` when it is not a web page, e.g. the alerts of a CAP index. */
+  linkType?: string;
+  published: Date;
+  /** When this version of the entry was stored. */
+  updated: Date;
+  categories: string[];
+  point?: { latitude: number; longitude: number } | null;
+  enclosure?: { url: string; type: string; length: number | null };
+}
+
+export interface Feed {
+  title: string;
+  subtitle: string;
+  /** Absolute URL of the feed itself, query included; also the Atom feed id. */
+  selfUrl: string;
+  /** HTML page the feed is about (the upstream source). */
+  link: string;
+  author: AdapterPublisher;
+  entries: FeedEntry[];
+}
+
+/**
+ * GUID for a stored record: api_data and document ids never change once
+ * written, so readers never see the same item twice.
+ */
+export function entryId(kind: "api_data" | "document", id: string): string {
+  return `urn:pt-apis:${kind}:${id}`;
+}
+
+/** Latest `updated` of the entries, or null for an empty feed. */
+function feedUpdated(feed: Feed): Date | null {
+  let latest: Date | null = null;
+  for (const entry of feed.entries) {
+    if (!latest || entry.updated > latest) latest = entry.updated;
+  }
+  return latest;
+}
+
+const GEORSS_NS = "http://www.georss.org/georss";
+
+function georssPoint(entry: FeedEntry, indent: string): string {
+  return entry.point ? `${indent}<georss:point>${entry.point.latitude} ${entry.point.longitude}</georss:point>\n` : "";
+}
+
+// ---------------------------------------------------------------------------
+// Atom
+// ---------------------------------------------------------------------------
+
+function atomEntry(entry: FeedEntry): string {
+  let xml = "  <entry>\n";
+  xml += `    <id>${xmlEscape(entry.id)}</id>\n`;
+  xml += `    <title>${xmlEscape(entry.title)}</title>\n`;
+  const linkType = entry.linkType ? ` type="${xmlEscape(entry.linkType)}"` : "";
+  xml += `    <link rel="alternate"${linkType} href="${xmlEscape(entry.link)}"/>\n`;
+  xml += `    <published>${entry.published.toISOString()}</published>\n`;
+  xml += `    <updated>${entry.updated.toISOString()}</updated>\n`;
+  xml += `    <summary type="text">${xmlEscape(entry.summary)}</summary>\n`;
+  for (const term of entry.categories) xml += `    <category term="${xmlEscape(term)}"/>\n`;
+  if (entry.enclosure) {
+    const { url, type, length } = entry.enclosure;
+    xml += `    <link rel="enclosure" type="${xmlEscape(type)}" href="${xmlEscape(url)}"${length !== null ? ` length="${length}"` : ""}/>\n`;
+  }
+  xml += georssPoint(entry, "    ");
+  return xml + "  </entry>\n";
+}
+
+export function atomXml(feed: Feed): string {
+  // An empty feed still needs <updated>; "now" is the honest answer
+  const updated = feedUpdated(feed) ?? new Date();
+  let xml = `<?xml version="1.0" encoding="utf-8"?>\n`;
+  xml += `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:georss="${GEORSS_NS}" xml:lang="pt">\n`;
+  xml += `  <id>${xmlEscape(feed.selfUrl)}</id>\n`;
+  xml += `  <title>${xmlEscape(feed.title)}</title>\n`;
+  xml += `  <subtitle>${xmlEscape(feed.subtitle)}</subtitle>\n`;
+  xml += `  <link rel="self" type="application/atom+xml" href="${xmlEscape(feed.selfUrl)}"/>\n`;
+  xml += `  <link rel="alternate" type="text/html" href="${xmlEscape(feed.link)}"/>\n`;
+  xml += `  <updated>${updated.toISOString()}</updated>\n`;
+  xml += `  <author>\n    <name>${xmlEscape(feed.author.name)}</name>\n`;
+  if (feed.author.url) xml += `    <uri>${xmlEscape(feed.author.url)}</uri>\n`;
+  xml += `  </author>\n`;
+  xml += `  <generator>Portugal Public Data API</generator>\n`;
+  for (const entry of feed.entries) xml += atomEntry(entry);
+  return xml + "</feed>\n";
+}
+
+// ---------------------------------------------------------------------------
+// RSS 2.0 — entry `updated` has no RSS element; pubDate carries `published`
+// ---------------------------------------------------------------------------
+
+function rssEntry(entry: FeedEntry): string {
+  let xml = "    <item>\n";
+  xml += `      <title>${xmlEscape(entry.title)}</title>\n`;
+  xml += `      <link>${xmlEscape(entry.link)}</link>\n`;
+  xml += `      <description>${xmlEscape(entry.summary)}</description>\n`;
+  xml += `      <guid isPermaLink="false">${xmlEscape(entry.id)}</guid>\n`;
+  xml += `      <pubDate>${entry.published.toUTCString()}</pubDate>\n`;
+  for (const term of entry.categories) xml += `      <category>${xmlEscape(term)}</category>\n`;
+  if (entry.enclosure) {
+    const { url, type, length } = entry.enclosure;
+    xml += `      <enclosure url="${xmlEscape(url)}" length="${length ?? 0}" type="${xmlEscape(type)}"/>\n`;
+  }
+  xml += georssPoint(entry, "      ");
+  return xml + "    </item>\n";
+}
+
+export function rssXml(feed: Feed): string {
+  const updated = feedUpdated(feed);
+  let xml = `<?xml version="1.0" encoding="utf-8"?>\n`;
+  xml += `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:georss="${GEORSS_NS}">\n`;
+  xml += "  <channel>\n";
+  xml += `    <title>${xmlEscape(feed.title)}</title>\n`;
+  xml += `    <link>${xmlEscape(feed.link)}</link>\n`;
+  xml += `    <description>${xmlEscape(feed.subtitle)}</description>\n`;
+  xml += "    <language>pt-PT</language>\n";
+  if (updated) xml += `    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>\n`;
+  xml += `    <atom:link href="${xmlEscape(feed.selfUrl)}" rel="self" type="application/rss+xml"/>\n`;
+  xml += `    <generator>Portugal Public Data API</generator>\n`;
+  for (const entry of feed.entries) xml += rssEntry(entry);
+  return xml + "  </channel>\n</rss>\n";
+}
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+/** RSS with `?format=rss` or `Accept: application/rss+xml`; Atom otherwise. */
+export function feedFormat(c: Context): FeedFormat {
+  return responseFormat(c) === "rss" ? "rss" : "atom";
+}
+
+/** Send a feed in the negotiated format, with `Last-Modified` from its newest entry. */
+export function feedResponse(c: Context, feed: Feed): Response {
+  setLastModified(c, feed.entries.map((e) => e.updated));
+  if (feedFormat(c) === "rss") {
+    c.header("Content-Type", RSS_CONTENT_TYPE);
+    return c.body(rssXml(feed), 200);
+  }
+  c.header("Content-Type", ATOM_CONTENT_TYPE);
+  return c.body(atomXml(feed), 200);
+}
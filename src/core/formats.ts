@@ -0,0 +1,220 @@
+import type { Context } from "hono";
+import { z } from "@hono/zod-openapi";
+
+// ---------------------------------------------------------------------------
+// CSV encoding (RFC 4180)
+// ---------------------------------------------------------------------------
+
+export const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+
+/**
+ * Encode one CSV field. Objects and arrays are written as JSON text,
+ * null/undefined as an empty field; fields with separators, quotes or line
+ * breaks are quoted.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value)
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Encode one CSV record, including the CRLF terminator. */
+export function csvLine(values: unknown[]): string {
+  return values.map(csvField).join(",") + "\r\n";
+}
+
+/** Value at a dotted path (`payload.data.rcm`); undefined when a segment is missing. */
+function valueAt(record: Record<string, unknown>, path: string): unknown {
+  let value: unknown = record;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Column paths of a declared payload schema under `prefix`, in declaration
+ * order: nested objects become `prefix.<path>` columns, anything else
+ * (arrays, records, unions) one column written as JSON.
+ */
+export function schemaColumns(schema: z.ZodType, prefix: string): string[] {
+  let inner: z.ZodType = schema;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodDefault) {
+    inner = inner.unwrap() as z.ZodType;
+  }
+  if (!(inner instanceof z.ZodObject)) return [prefix];
+  return Object.entries(inner.shape as Record<string, z.ZodType>).flatMap(([key, field]) =>
+    schemaColumns(field, `${prefix}.${key}`),
+  );
+}
+
+/**
+ * Encode rows as a CSV document with a header line. The header is `columns`
+ * — dotted paths into each row — so every page of a list has the same
+ * columns whatever its rows contain; a path that holds an object is
+ * written as JSON.
+ */
+export function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  return csvLine(columns) + rows.map((row) => csvLine(columns.map((col) => valueAt(row, col)))).join("");
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON (RFC 7946)
+// ---------------------------------------------------------------------------
+
+export const GEOJSON_CONTENT_TYPE = "application/geo+json";
+
+export interface GeoJsonPoint {
+  type: "Point";
+  /** [longitude, latitude] */
+  coordinates: [number, number];
+}
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  id: string;
+  /** null for records without coordinates. */
+  geometry: GeoJsonPoint | null;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+  [member: string]: unknown;
+}
+
+function coordinate(value: unknown): number | null {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/** Point from latitude/longitude values (numbers or numeric strings); null if either is missing or out of range. */
+export function toPoint(latitude: unknown, longitude: unknown): GeoJsonPoint | null {
+  const lat = coordinate(latitude);
+  const lon = coordinate(longitude);
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { type: "Point", coordinates: [lon, lat] };
+}
+
+/** Point from the `latitude` / `longitude` fields of a payload (sismo, risco-incendio, …). */
+export function payloadPoint(payload: Record<string, unknown>): GeoJsonPoint | null {
+  return toPoint(payload.latitude, payload.longitude);
+}
+
+/**
+ * Build a FeatureCollection. `members` are written next to `features`
+ * (RFC 7946 foreign members), e.g. pagination.
+ */
+export function featureCollection(
+  features: GeoJsonFeature[],
+  members: Record<string, unknown> = {},
+): GeoJsonFeatureCollection {
+  return { type: "FeatureCollection", features, ...members };
+}
+
+// ---------------------------------------------------------------------------
+// XML (RDF/XML catalog, Atom and RSS feeds)
+// ---------------------------------------------------------------------------
+
+/** Escape text for XML element content and double-quoted attributes. */
+export function xmlEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// ---------------------------------------------------------------------------
+// Content negotiation
+// ---------------------------------------------------------------------------
+
+export type ResponseFormat = "json" | "csv" | "geojson" | "jsonld" | "rdf" | "atom" | "rss";
+
+const FORMAT_MEDIA_TYPES: Record<ResponseFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  geojson: "application/geo+json",
+  jsonld: "application/ld+json",
+  rdf: "application/rdf+xml",
+  atom: "application/atom+xml",
+  rss: "application/rss+xml",
+};
+
+/** Quality (`q=`) given to a media type in an `Accept` header; 0 if absent. */
+function acceptQuality(accept: string, mediaType: string): number {
+  for (const range of accept.split(",")) {
+    const [media, ...params] = range.split(";").map((p) => p.trim().toLowerCase());
+    if (media !== mediaType) continue;
+    const q = params.find((p) => p.startsWith("q="));
+    return q ? Number(q.slice(2)) || 0 : 1;
+  }
+  return 0;
+}
+
+/**
+ * `?format=` takes precedence over the `Accept` header. Another format (CSV,
+ * GeoJSON, JSON-LD, RDF/XML, Atom, RSS) is chosen when its media type is accepted at
+ * least as strongly as `application/json`; otherwise JSON. Routes only act on the formats they
+ * declare and answer JSON for the rest.
+ */
+export function responseFormat(c: Context): ResponseFormat {
+  const format = c.req.query("format");
+  if (format) return Object.hasOwn(FORMAT_MEDIA_TYPES, format) ? (format as ResponseFormat) : "json";
+
+  const accept = c.req.header("Accept") ?? "";
+  let best: ResponseFormat = "json";
+  let bestQuality = acceptQuality(accept, FORMAT_MEDIA_TYPES.json);
+  for (const candidate of ["csv", "geojson", "jsonld", "rdf", "atom", "rss"] as const) {
+    const q = acceptQuality(accept, FORMAT_MEDIA_TYPES[candidate]);
+    if (q > 0 && (q > bestQuality || (best === "json" && q === bestQuality))) {
+      best = candidate;
+      bestQuality = q;
+    }
+  }
+  return best;
+}
+
+/** Pagination of a CSV page — CSV has no room for it, so it travels in headers. */
+export interface CsvPagination {
+  /** Sent as `X-Total-Count` when counted. */
+  total: number | null;
+  /**
+   * Query parameters that turn the request URL into the next page (null
+   * removes one), sent as `Link: <…>; rel="next"`; null on the last page.
+   * A `cursor` is also sent as `X-Next-Cursor`.
+   */
+  next: Record<string, string | null> | null;
+}
+
+function paginationHeaders(c: Context, pagination: CsvPagination): void {
+  if (pagination.total !== null) c.header("X-Total-Count", String(pagination.total));
+  if (!pagination.next) return;
+  const url = new URL(c.req.url);
+  for (const [name, value] of Object.entries(pagination.next)) {
+    if (value === null) url.searchParams.delete(name);
+    else url.searchParams.set(name, value);
+  }
+  c.header("Link", `<${url.toString()}>; rel="next"`);
+  if (pagination.next.cursor) c.header("X-Next-Cursor", pagination.next.cursor);
+}
+
+/** Send rows as a CSV attachment with the given columns, see `toCsv`. */
+export function csvResponse(
+  c: Context,
+  rows: Record<string, unknown>[],
+  columns: string[],
+  fileName: string,
+  pagination?: CsvPagination,
+): Response {
+  if (pagination) paginationHeaders(c, pagination);
+  c.header("Content-Type", CSV_CONTENT_TYPE);
+  c.header("Content-Disposition", `attachment; filename="${fileName}"`);
+  return c.body(toCsv(rows, columns), 200);
+}
+
+/** Send a FeatureCollection as `application/geo+json`. */
+export function geoJsonResponse(c: Context, collection: GeoJsonFeatureCollection) {
+  return c.json(collection, 200, { "Content-Type": GEOJSON_CONTENT_TYPE });
+}
@@ -0,0 +1,154 @@
+import { and, between, sql, type SQL } from "drizzle-orm";
+import type { Db } from "../db/client";
+import { locations } from "../db/schema";
+
+// ---------------------------------------------------------------------------
+// Spatial grid — locations.grid_lat / grid_lon
+// ---------------------------------------------------------------------------
+
+/**
+ * Size of a grid cell in degrees (~55 km north–south). Cells are numbered
+ * from the south-west corner of the world, so every cell index is >= 0.
+ * Migration 0007 backfills existing rows with the same formula.
+ */
+export const GRID_CELL_DEGREES = 0.5;
+
+function cellIndex(degrees: number, offset: number): number {
+  return Math.floor((degrees + offset) / GRID_CELL_DEGREES);
+}
+
+/** Grid cell of a coordinate pair; nulls when the location has no coordinates. */
+export function gridCell(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined,
+): { gridLat: number | null; gridLon: number | null } {
+  if (latitude == null || longitude == null) return { gridLat: null, gridLon: null };
+  return { gridLat: cellIndex(latitude, 90), gridLon: cellIndex(longitude, 180) };
+}
+
+// ---------------------------------------------------------------------------
+// Distances and bounding boxes
+// ---------------------------------------------------------------------------
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Half the Earth's circumference — no two points are further apart. */
+export const MAX_DISTANCE_KM = Math.PI * EARTH_RADIUS_KM;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in kilometres (haversine formula). */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export interface BoundingBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+/**
+ * Smallest lat/lon box containing every point within `radiusKm` of the
+ * centre. Near the poles, or for very large radii, it widens to all
+ * longitudes. Boxes are clamped at the antimeridian rather than wrapped.
+ */
+export function boundingBoxAround(latitude: number, longitude: number, radiusKm: number): BoundingBox {
+  const dLat = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const minLat = Math.max(-90, latitude - dLat);
+  const maxLat = Math.min(90, latitude + dLat);
+  const widest = Math.max(Math.abs(minLat), Math.abs(maxLat));
+  if (widest >= 90) return { minLon: -180, minLat, maxLon: 180, maxLat };
+
+  const dLon = dLat / Math.cos(toRadians(widest));
+  return {
+    minLon: Math.max(-180, longitude - dLon),
+    minLat,
+    maxLon: Math.min(180, longitude + dLon),
+    maxLat,
+  };
+}
+
+/**
+ * Locations inside a bounding box. The grid rows are listed explicitly
+ * (bound as a single JSON array) so SQLite probes `loc_grid_idx` once per
+ * row with a range on `grid_lon`, instead of scanning every location.
+ */
+export function withinBoundingBox(box: BoundingBox): SQL {
+  const south = gridCell(box.minLat, box.minLon);
+  const north = gridCell(box.maxLat, box.maxLon);
+  const rows: number[] = [];
+  for (let r = south.gridLat!; r <= north.gridLat!; r++) rows.push(r);
+
+  return and(
+    sql`${locations.gridLat} in (select value from json_each(${JSON.stringify(rows)}))`,
+    between(locations.gridLon, south.gridLon!, north.gridLon!),
+    between(locations.latitude, box.minLat, box.maxLat),
+    between(locations.longitude, box.minLon, box.maxLon),
+  )!;
+}
+
+// ---------------------------------------------------------------------------
+// Distance-ranked location lookups
+// ---------------------------------------------------------------------------
+
+export interface RankedLocation {
+  row: typeof locations.$inferSelect;
+  /** Rounded to the metre. */
+  distanceKm: number;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** First radius tried by `nearestLocations`; it grows 4× per round. */
+const NEAREST_START_RADIUS_KM = 25;
+
+/**
+ * Locations matching `conditions` within `radiusKm` of the point, closest
+ * first. The bounding box narrows the candidates through the grid index;
+ * haversine does the rest.
+ */
+export async function locationsWithinRadius(
+  db: Db,
+  conditions: SQL[],
+  point: GeoPoint,
+  radiusKm: number,
+): Promise<RankedLocation[]> {
+  const candidates = await db
+    .select()
+    .from(locations)
+    .where(and(...conditions, withinBoundingBox(boundingBoxAround(point.latitude, point.longitude, radiusKm))));
+
+  return candidates
+    .map((row) => ({ row, distanceKm: haversineKm(point.latitude, point.longitude, row.latitude!, row.longitude!) }))
+    .filter((r) => r.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm || (a.row.id < b.row.id ? -1 : 1))
+    .map((r) => ({ row: r.row, distanceKm: Math.round(r.distanceKm * 1000) / 1000 }));
+}
+
+/**
+ * At least the `n` locations matching `conditions` closest to the point
+ * (fewer if there are fewer), closest first. The search radius grows until
+ * enough are found.
+ */
+export async function nearestLocations(
+  db: Db,
+  conditions: SQL[],
+  point: GeoPoint,
+  n: number,
+): Promise<RankedLocation[]> {
+  let radiusKm = NEAREST_START_RADIUS_KM;
+  while (true) {
+    const ranked = await locationsWithinRadius(db, conditions, point, radiusKm);
+    if (ranked.length >= n || radiusKm >= MAX_DISTANCE_KM) return ranked;
+    radiusKm = Math.min(radiusKm * 4, MAX_DISTANCE_KM);
+  }
+}
@@ -0,0 +1,113 @@
+import type { Context } from "hono";
+import { setLastModified } from "./cache";
+
+// ---------------------------------------------------------------------------
+// iCalendar (RFC 5545) — a published VCALENDAR of VEVENTs
+// ---------------------------------------------------------------------------
+
+export const ICAL_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+/** How often calendar apps are asked to refresh a subscribed calendar. */
+const REFRESH_INTERVAL = "PT30M";
+
+export interface CalendarEvent {
+  /** Stable across updates, so a changed event replaces the one already in the calendar. */
+  uid: string;
+  /** Incremented each time the event changes. */
+  sequence: number;
+  start: Date;
+  end: Date;
+  /** When this version of the event was stored. */
+  updated: Date;
+  summary: string;
+  description: string;
+  location?: string;
+  point?: { latitude: number; longitude: number } | null;
+  url?: string;
+  categories: string[];
+}
+
+export interface Calendar {
+  name: string;
+  description: string;
+  events: CalendarEvent[];
+}
+
+/** UTC date-time, e.g. 20261020T152947Z. */
+function icalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function icalText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets without splitting UTF-8 characters (§3.1). */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${icalText(event.uid)}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${icalDateTime(event.updated)}`,
+    `LAST-MODIFIED:${icalDateTime(event.updated)}`,
+    `DTSTART:${icalDateTime(event.start)}`,
+    `DTEND:${icalDateTime(event.end)}`,
+    `SUMMARY:${icalText(event.summary)}`,
+    `DESCRIPTION:${icalText(event.description)}`,
+  ];
+  if (event.location) lines.push(`LOCATION:${icalText(event.location)}`);
+  if (event.point) lines.push(`GEO:${event.point.latitude};${event.point.longitude}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories.length > 0) lines.push(`CATEGORIES:${event.categories.map(icalText).join(",")}`);
+  // Informational events: they should not mark the user as busy
+  lines.push("TRANSP:TRANSPARENT", "STATUS:CONFIRMED", "END:VEVENT");
+  return lines;
+}
+
+export function icalCalendar(calendar: Calendar): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PT APIs//Portugal Public Data API//PT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `NAME:${icalText(calendar.name)}`,
+    `X-WR-CALNAME:${icalText(calendar.name)}`,
+    `DESCRIPTION:${icalText(calendar.description)}`,
+    `X-WR-CALDESC:${icalText(calendar.description)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...calendar.events.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** Send a calendar as a `.ics` download, with `Last-Modified` from its newest event. */
+export function icsResponse(c: Context, calendar: Calendar, filename: string): Response {
+  setLastModified(c, calendar.events.map((e) => e.updated));
+  c.header("Content-Type", ICAL_CONTENT_TYPE);
+  c.header("Content-Disposition", `inline; filename="${filename}"`);
+  return c.body(icalCalendar(calendar), 200);
+}
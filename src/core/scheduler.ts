@@ -7,6 +7,9 @@ import {
   logIngestSuccess,
   logIngestError,
 } from "./storage";
+import { processExportJobs } from "./export";
+import { processWebhooks } from "./webhooks";
+import { notifyStream } from "./stream";
 import { sources } from "../db/schema";
 import { eq } from "drizzle-orm";
 
@@ -53,6 +56,20 @@ function shouldRun(
   }
 }
 
+/**
+ * Nominal interval between runs for each frequency, in seconds.
+ * Used by the API to judge how stale the latest value of a source is.
+ */
+export const FREQUENCY_SECONDS: Record<CronFrequency, number> = {
+  every_minute: 60,
+  every_5_minutes: 5 * 60,
+  every_15_minutes: 15 * 60,
+  hourly: 60 * 60,
+  every_6_hours: 6 * 60 * 60,
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+};
+
 // ---------------------------------------------------------------------------
 // Scheduled handler
 // ---------------------------------------------------------------------------
@@ -68,15 +85,29 @@ export async function handleScheduled(
   const hour = now.getUTCHours();
   const dayOfWeek = now.getUTCDay();
 
+  const runs: Promise<void>[] = [];
   for (const adapter of registry.getAll()) {
     for (const schedule of adapter.schedules) {
       if (shouldRun(schedule.frequency, controller.cron, minute, hour, dayOfWeek)) {
-        ctx.waitUntil(
-          runAdapter(adapter.id, schedule.description, schedule.handler, env, db),
-        );
+        runs.push(runAdapter(adapter.id, schedule.description, schedule.handler, env, db));
       }
     }
   }
+  runs.forEach((run) => ctx.waitUntil(run));
+
+  // Webhooks: match the rows this run inserted, then deliver them and any retries due
+  ctx.waitUntil(
+    Promise.allSettled(runs)
+      .then(() => processWebhooks(env))
+      .catch((err) => console.error("[webhooks] Failed to process webhooks:", err)),
+  );
+
+  // Large api_data exports are written to R2 outside the request
+  if (controller.cron === "* * * * *") {
+    ctx.waitUntil(
+      processExportJobs(env).catch((err) => console.error("[export] Failed to process exports:", err)),
+    );
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -90,8 +121,8 @@ async function runAdapter(
   env: Env,
   db: ReturnType<typeof getDb>,
 ): Promise<void> {
-  const adapterCtx = createAdapterContext(env, db);
   const logId = await logIngestStart(db, adapterId);
+  const adapterCtx = createAdapterContext(env, db, logId);
 
   console.log(`[scheduler] Running "${adapterId}" – ${description}`);
 
@@ -109,4 +140,7 @@ async function runAdapter(
     await logIngestError(db, logId, message);
     console.error(`[scheduler] ✗ "${adapterId}" failed:`, message);
   }
+
+  // One hub round-trip per run, not per write; rows stored before a failure are sent too
+  await notifyStream(env);
 }
@@ -0,0 +1,60 @@
+import { sql } from "drizzle-orm";
+import type { Db } from "../db/client";
+
+// ---------------------------------------------------------------------------
+// Full-text search index (FTS5 virtual table `search_index`, migration 0005)
+// ---------------------------------------------------------------------------
+
+/**
+ * What a `search_index` row points at. `ref_id` holds the id of the row in
+ * api_data, documents or locations respectively.
+ */
+export type SearchIndexKind = "api_data" | "document" | "location";
+
+// The statements below copy rows into the index. They read the source row
+// back with INSERT … SELECT so they can run in the same `db.batch()` as the
+// write itself — an api_data row skipped by the dedup index is simply not
+// found, and nothing is indexed for it. Only text values of JSON are indexed.
+
+/** Index an api_data row: location name as title, payload text as body. */
+export function indexApiData(db: Db, id: string) {
+  return db.run(sql`
+    insert into search_index (kind, ref_id, adapter_id, payload_type, title, body)
+    select 'api_data', a.id, a.api_source, a.payload_type, l.name,
+      (select group_concat(j.value, ' ') from json_tree(a.payload) j where j.type = 'text')
+    from api_data a left join locations l on l.id = a.location_id
+    where a.id = ${id}
+  `);
+}
+
+/** Index a document: file name as title, content type and metadata text as body. */
+export function indexDocument(db: Db, id: string) {
+  return db.run(sql`
+    insert into search_index (kind, ref_id, adapter_id, payload_type, title, body)
+    select 'document', d.id, d.adapter_id, null, d.name,
+      d.content_type || ' ' || coalesce((select group_concat(j.value, ' ') from json_tree(d.metadata) j where j.type = 'text'), '')
+    from documents d
+    where d.id = ${id}
+  `);
+}
+
+/**
+ * Replace the index entry of a location (locations are upserted).
+ * Location entries use rowid = -locations.search_rowid (migration 0011): the
+ * column is set once on insert and, unlike the implicit rowid of a table with
+ * a TEXT primary key, survives VACUUM. The old entry is deleted by rowid
+ * without scanning the index, and negative rowids never meet the positive
+ * ones FTS5 assigns to api_data and document entries.
+ */
+export function reindexLocation(db: Db, id: string) {
+  return [
+    db.run(sql`delete from search_index where rowid = -(select search_rowid from locations where id = ${id})`),
+    db.run(sql`
+      insert into search_index (rowid, kind, ref_id, adapter_id, payload_type, title, body)
+      select -l.search_rowid, 'location', l.id, null, null, l.name,
+        l.type || ' ' || coalesce((select group_concat(j.value, ' ') from json_tree(l.metadata) j where j.type = 'text'), '')
+      from locations l
+      where l.id = ${id}
+    `),
+  ] as const;
+}
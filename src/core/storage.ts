@@ -1,10 +1,11 @@
-import { eq } from "drizzle-orm";
+import { and, desc, eq, sql } from "drizzle-orm";
 import type { Db } from "../db/client";
 import {
   apiData,
   documents,
   locations,
   ingestLog,
+  snapshots,
 } from "../db/schema";
 import type {
   ApiDataInput,
@@ -12,6 +13,10 @@ import type {
   LocationInput,
   AdapterContext,
 } from "./adapter";
+import { indexApiData, indexDocument, reindexLocation } from "./search-index";
+import { gridCell } from "./geo";
+import { registry } from "./registry";
+import { ValidationError } from "./errors";
 
 // ---------------------------------------------------------------------------
 // Content hashing (deduplication)
@@ -21,7 +26,7 @@ import type {
  * Compute a SHA-256 hex digest of a string.
  * Used to fingerprint payloads so duplicate data is silently skipped.
  */
-async function sha256(input: string): Promise<string> {
+export async function sha256(input: string): Promise<string> {
   const data = new TextEncoder().encode(input);
   const buf = await crypto.subtle.digest("SHA-256", data);
   return Array.from(new Uint8Array(buf))
@@ -67,45 +72,128 @@ async function withRetry<T>(fn: () => Promise<T>, label: string): Promise<T> {
 // Location registration
 // ---------------------------------------------------------------------------
 
-/** Upsert a location into the shared locations table. */
+/**
+ * Next locations.search_rowid, taken once when a location is first inserted
+ * and kept by later upserts, so its search_index entry can always be found.
+ */
+const nextSearchRowid = sql<number>`(select coalesce(max(${locations.searchRowid}), 0) + 1 from ${locations})`;
+
+/**
+ * Upsert a location into the shared locations table.
+ * Adapters register the same locations on every run, so unchanged rows are
+ * skipped — this also keeps the search index from being rewritten each time.
+ */
 export async function registerLocation(
   db: Db,
   loc: LocationInput,
 ): Promise<void> {
+  const row = {
+    name: loc.name,
+    latitude: loc.latitude ?? null,
+    longitude: loc.longitude ?? null,
+    type: loc.type,
+    metadata: loc.metadata ? JSON.stringify(loc.metadata) : null,
+    ...gridCell(loc.latitude, loc.longitude),
+  };
+
+  const [current] = await db.select().from(locations).where(eq(locations.id, loc.id)).limit(1);
+  if (
+    current &&
+    current.name === row.name &&
+    current.latitude === row.latitude &&
+    current.longitude === row.longitude &&
+    current.type === row.type &&
+    current.metadata === row.metadata
+  ) {
+    return;
+  }
+
   await withRetry(
     () =>
-      db
-        .insert(locations)
-        .values({
-          id: loc.id,
-          name: loc.name,
-          latitude: loc.latitude ?? null,
-          longitude: loc.longitude ?? null,
-          type: loc.type,
-          metadata: loc.metadata ? JSON.stringify(loc.metadata) : null,
-        })
-        .onConflictDoUpdate({
-          target: locations.id,
-          set: {
-            name: loc.name,
-            latitude: loc.latitude ?? null,
-            longitude: loc.longitude ?? null,
-            type: loc.type,
-            metadata: loc.metadata ? JSON.stringify(loc.metadata) : null,
-          },
-        }),
+      db.batch([
+        db
+          .insert(locations)
+          .values({ id: loc.id, ...row, searchRowid: nextSearchRowid })
+          .onConflictDoUpdate({ target: locations.id, set: row }),
+        ...reindexLocation(db, loc.id),
+      ]),
     "registerLocation",
   );
 }
 
+// ---------------------------------------------------------------------------
+// Payload validation
+// ---------------------------------------------------------------------------
+
+/** Tag added to payloads that failed their schema under `payloadValidation: "flag"`. */
+export const INVALID_PAYLOAD_TAG = "payload-invalido";
+
+/**
+ * Check a payload against the schema its adapter declares for the payload
+ * type. Returns null when it is valid or no schema is declared, otherwise
+ * the first problem found (e.g. "magnitude: Invalid input: expected number").
+ */
+function payloadProblem(adapterId: string, payloadType: string, payload: unknown): string | null {
+  const schema = registry.get(adapterId)?.payloadSchemas?.[payloadType];
+  if (!schema) return null;
+  const result = schema.safeParse(payload);
+  if (result.success) return null;
+  const [issue] = result.error.issues;
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+function validationPolicy(adapterId: string): "reject" | "flag" {
+  return registry.get(adapterId)?.payloadValidation ?? "reject";
+}
+
+function withInvalidTag(options: ApiDataInput | undefined): ApiDataInput {
+  return { ...options, tags: [...(options?.tags ?? []), INVALID_PAYLOAD_TAG] };
+}
+
 // ---------------------------------------------------------------------------
 // ApiData storage
 // ---------------------------------------------------------------------------
 
+/**
+ * Next api_data.seq, evaluated inside each INSERT. D1 runs one write at a
+ * time, so seq grows in commit order and a reader never sees a row before
+ * one with a lower seq — which is what makes /v1/changes cursors safe to
+ * resume. Duplicates skipped by onConflictDoNothing take no seq.
+ */
+const nextSeq = sql<number>`(select coalesce(max(${apiData.seq}), 0) + 1 from ${apiData})`;
+
+/** An api_data row as sent by the change feeds: /v1/changes, /v1/stream and webhooks. */
+export interface ChangeRecord {
+  seq: number;
+  id: string;
+  apiSource: string;
+  payloadType: string;
+  locationId: string | null;
+  timestamp: string;
+  scrapedAt: string;
+  payload: Record<string, unknown>;
+  tags: string[] | null;
+}
+
+export function changeRecord(row: typeof apiData.$inferSelect): ChangeRecord {
+  return {
+    seq: row.seq!,
+    id: row.id,
+    apiSource: row.apiSource,
+    payloadType: row.payloadType,
+    locationId: row.locationId,
+    timestamp: row.timestamp.toISOString(),
+    scrapedAt: row.scrapedAt.toISOString(),
+    payload: JSON.parse(row.payload) as Record<string, unknown>,
+    tags: row.tags ? (JSON.parse(row.tags) as string[]) : null,
+  };
+}
+
 /**
  * Store a row in api_data.
  * Duplicate payloads (same source + type + content hash) are silently skipped.
  * Returns the id of the inserted (or already-existing) row.
+ * @throws ValidationError if the payload fails its schema and the adapter rejects invalid payloads.
  */
 export async function storeApiData(
   db: Db,
@@ -114,6 +202,14 @@ export async function storeApiData(
   payload: unknown,
   options?: ApiDataInput,
 ): Promise<string> {
+  const problem = payloadProblem(adapterId, payloadType, payload);
+  if (problem) {
+    if (validationPolicy(adapterId) === "reject") {
+      throw new ValidationError(`Invalid "${payloadType}" payload from "${adapterId}": ${problem}`);
+    }
+    options = withInvalidTag(options);
+  }
+
   const now = new Date();
   const timestamp = options?.timestamp ?? now;
   const scrapedAt = options?.scrapedAt ?? now;
@@ -123,22 +219,26 @@ export async function storeApiData(
 
   await withRetry(
     () =>
-      db
-        .insert(apiData)
-        .values({
-          id,
-          apiSource: adapterId,
-          payloadType,
-          timestamp,
-          locationId: options?.locationId ?? null,
-          payload: payloadJson,
-          tags: options?.tags ? JSON.stringify(options.tags) : null,
-          contentHash,
-          scrapedAt,
-        })
-        .onConflictDoNothing({
-          target: [apiData.apiSource, apiData.payloadType, apiData.contentHash],
-        }),
+      db.batch([
+        db
+          .insert(apiData)
+          .values({
+            id,
+            apiSource: adapterId,
+            payloadType,
+            timestamp,
+            locationId: options?.locationId ?? null,
+            payload: payloadJson,
+            tags: options?.tags ? JSON.stringify(options.tags) : null,
+            contentHash,
+            scrapedAt,
+            seq: nextSeq,
+          })
+          .onConflictDoNothing({
+            target: [apiData.apiSource, apiData.payloadType, apiData.contentHash],
+          }),
+        indexApiData(db, id),
+      ]),
     "storeApiData",
   );
 
@@ -146,9 +246,10 @@ export async function storeApiData(
 }
 
 /**
- * Maximum number of single-row INSERT statements per db.batch() call.
- * Each INSERT has 9 variables (one per column), so 50 × 9 = 450 vars max
- * across the batch – well within D1/SQLite limits even on local miniflare.
+ * Maximum number of rows per db.batch() call.
+ * Each row is one INSERT with 9 variables (one per column) plus a one-variable
+ * search index statement, so 50 × 10 = 500 vars max across the batch – well
+ * within D1/SQLite limits even on local miniflare.
  */
 const BATCH_STMT_LIMIT = 50;
 
@@ -157,14 +258,32 @@ const BATCH_STMT_LIMIT = 50;
  * Uses individual single-row INSERT statements grouped via db.batch()
  * to avoid hitting per-statement SQL variable limits on miniflare.
  * Duplicate payloads (same source + type + content hash) are silently skipped.
- * Returns the ids of all attempted rows.
+ * Payloads failing the adapter's schema are dropped or flagged first (see
+ * `payloadValidation`). Returns the ids of all attempted rows.
  */
 export async function storeBatchApiData(
   db: Db,
   adapterId: string,
   payloadType: string,
-  items: Array<{ payload: unknown; options?: ApiDataInput }>,
+  allItems: Array<{ payload: unknown; options?: ApiDataInput }>,
 ): Promise<string[]> {
+  const policy = validationPolicy(adapterId);
+  const items: typeof allItems = [];
+  const problems: string[] = [];
+  for (const item of allItems) {
+    const problem = payloadProblem(adapterId, payloadType, item.payload);
+    if (!problem) {
+      items.push(item);
+      continue;
+    }
+    problems.push(problem);
+    if (policy === "flag") items.push({ ...item, options: withInvalidTag(item.options) });
+  }
+  if (problems.length > 0) {
+    console.warn(
+      `[storage] ${problems.length} invalid "${payloadType}" payload(s) from "${adapterId}" ${policy === "flag" ? "flagged" : "rejected"}; first: ${problems[0]}`,
+    );
+  }
   if (items.length === 0) return [];
 
   const now = new Date();
@@ -188,26 +307,30 @@ export async function storeBatchApiData(
       tags: item.options?.tags ? JSON.stringify(item.options.tags) : null,
       contentHash: hashes[i],
       scrapedAt,
+      seq: nextSeq,
     };
   });
 
-  // Use single-row inserts with onConflictDoNothing for dedup
+  // Use single-row inserts with onConflictDoNothing for dedup, each followed
+  // by its search index statement (a no-op for skipped duplicates)
   await withRetry(async () => {
-    const makeStmt = (row: (typeof rows)[number]) =>
+    const makeStmts = (row: (typeof rows)[number]) => [
       db
         .insert(apiData)
         .values(row)
         .onConflictDoNothing({
           target: [apiData.apiSource, apiData.payloadType, apiData.contentHash],
-        });
+        }),
+      indexApiData(db, row.id),
+    ];
 
     if (rows.length <= BATCH_STMT_LIMIT) {
-      const statements = rows.map(makeStmt);
+      const statements = rows.flatMap(makeStmts);
       await db.batch(statements as unknown as [typeof statements[0], ...typeof statements]);
     } else {
       for (let i = 0; i < rows.length; i += BATCH_STMT_LIMIT) {
         const chunk = rows.slice(i, i + BATCH_STMT_LIMIT);
-        const statements = chunk.map(makeStmt);
+        const statements = chunk.flatMap(makeStmts);
         await db.batch(statements as unknown as [typeof statements[0], ...typeof statements]);
       }
     }
@@ -248,21 +371,90 @@ export async function uploadDocument(
   const sizeBytes = head?.size ?? null;
 
   // Record in D1
-  await db.insert(documents).values({
-    id: docId,
-    adapterId,
-    name: doc.name,
-    contentType: doc.contentType,
-    r2Key,
-    locationId: doc.locationId ?? null,
-    sizeBytes,
-    metadata: doc.metadata ? JSON.stringify(doc.metadata) : null,
-    capturedAt: new Date(),
-  });
+  await db.batch([
+    db.insert(documents).values({
+      id: docId,
+      adapterId,
+      name: doc.name,
+      contentType: doc.contentType,
+      r2Key,
+      locationId: doc.locationId ?? null,
+      sizeBytes,
+      metadata: doc.metadata ? JSON.stringify(doc.metadata) : null,
+      capturedAt: new Date(),
+    }),
+    indexDocument(db, docId),
+  ]);
 
   return docId;
 }
 
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot bodies are stored as documents (marked by `snapshotType` in their
+ * metadata) but listed under /snapshots; document listings, feeds and search
+ * leave them out with this condition.
+ */
+export const notSnapshotDocument = sql`json_extract(${documents.metadata}, '$.snapshotType') is null`;
+
+/**
+ * Capture a full JSON snapshot of upstream state.
+ * The body is uploaded to R2 as a document; the snapshot row indexes it by
+ * adapter, type and the ingest run that captured it. When the body matches
+ * the latest snapshot of the same type it is not uploaded again: the new row
+ * points at the existing document, so every run still has its snapshot.
+ * Returns the snapshot id.
+ */
+export async function storeSnapshot(
+  db: Db,
+  r2: R2Bucket,
+  adapterId: string,
+  snapshotType: string,
+  data: unknown,
+  ingestLogId?: string,
+): Promise<string> {
+  const capturedAt = new Date();
+  const json = JSON.stringify(data);
+  const contentHash = await sha256(json);
+
+  const [latest] = await db
+    .select({ documentId: snapshots.documentId, contentHash: snapshots.contentHash })
+    .from(snapshots)
+    .where(and(eq(snapshots.adapterId, adapterId), eq(snapshots.snapshotType, snapshotType)))
+    .orderBy(desc(snapshots.capturedAt))
+    .limit(1);
+
+  const documentId =
+    latest?.contentHash === contentHash
+      ? latest.documentId
+      : await uploadDocument(db, r2, adapterId, {
+          name: `${snapshotType}-${capturedAt.toISOString().replace(/[:.]/g, "-")}.json`,
+          contentType: "application/json",
+          data: new TextEncoder().encode(json).buffer as ArrayBuffer,
+          metadata: { snapshotType, ...(ingestLogId ? { ingestLogId } : {}) },
+        });
+
+  const id = crypto.randomUUID();
+  await withRetry(
+    () =>
+      db.insert(snapshots).values({
+        id,
+        adapterId,
+        snapshotType,
+        ingestLogId: ingestLogId ?? null,
+        documentId,
+        contentHash,
+        capturedAt,
+      }),
+    "storeSnapshot",
+  );
+
+  return id;
+}
+
 // ---------------------------------------------------------------------------
 // Ingest log helpers
 // ---------------------------------------------------------------------------
@@ -316,15 +508,24 @@ export async function logIngestError(
 // Context factory
 // ---------------------------------------------------------------------------
 
-/** Build an AdapterContext from the Worker env. */
-export function createAdapterContext(env: Env, db: Db): AdapterContext {
+/**
+ * Build an AdapterContext from the Worker env.
+ * `ingestLogId` links snapshots to the scheduler run that captured them.
+ */
+export function createAdapterContext(
+  env: Env,
+  db: Db,
+  ingestLogId?: string,
+): AdapterContext {
   return {
     env,
     db,
+    ingestLogId,
     r2: env.DOCUMENTS,
     cache: env.CACHE,
     log: (...args: unknown[]) => console.log("[adapter]", ...args),
 
+    // /v1/stream clients are notified once the run ends, see runAdapter
     storeApiData: (adapterId, payloadType, payload, options) =>
       storeApiData(db, adapterId, payloadType, payload, options),
 
@@ -335,5 +536,8 @@ export function createAdapterContext(env: Env, db: Db): AdapterContext {
       uploadDocument(db, env.DOCUMENTS, adapterId, doc),
 
     registerLocation: (loc) => registerLocation(db, loc),
+
+    storeSnapshot: (adapterId, snapshotType, data) =>
+      storeSnapshot(db, env.DOCUMENTS, adapterId, snapshotType, data, ingestLogId),
   };
 }
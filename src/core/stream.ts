@@ -0,0 +1,260 @@
+import { DurableObject } from "cloudflare:workers";
+import { and, asc, eq, gt, lte, max, type SQL } from "drizzle-orm";
+import { getDb, type Db } from "../db/client";
+import { apiData } from "../db/schema";
+import { allTagsCondition, parseTagList } from "../api/filters";
+import { changeRecord, type ChangeRecord } from "./storage";
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+/** Server-side filters of a /v1/stream connection. */
+export interface StreamFilters {
+  adapterId?: string;
+  payloadType?: string;
+  locationId?: string;
+  tags: string[];
+}
+
+/** Highest Last-Event-ID gap replayed on reconnect; further behind, use /v1/changes. */
+export const STREAM_REPLAY_MAX = 1000;
+
+/** Comment line sent to every client at this interval so proxies keep the connection open. */
+const HEARTBEAT_MS = 15_000;
+
+/** Reconnection delay suggested to EventSource clients. */
+const RETRY_MS = 5_000;
+
+/** Connections one hub accepts. */
+const STREAM_MAX_CLIENTS = 1000;
+
+/** Events queued for a client that stopped reading before it is dropped. */
+const STREAM_MAX_QUEUED = 1000;
+
+/** New rows read from D1 per query when fanning out. */
+const STREAM_READ_PAGE = 500;
+
+function streamConditions(filters: StreamFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.adapterId) conditions.push(eq(apiData.apiSource, filters.adapterId));
+  if (filters.payloadType) conditions.push(eq(apiData.payloadType, filters.payloadType));
+  if (filters.locationId) conditions.push(eq(apiData.locationId, filters.locationId));
+  conditions.push(...allTagsCondition(filters.tags));
+  return conditions;
+}
+
+/** The same filters as `streamConditions`, on a record already read. */
+function matches(filters: StreamFilters, record: ChangeRecord): boolean {
+  return (
+    (!filters.adapterId || record.apiSource === filters.adapterId) &&
+    (!filters.payloadType || record.payloadType === filters.payloadType) &&
+    (!filters.locationId || record.locationId === filters.locationId) &&
+    filters.tags.every((tag) => record.tags?.includes(tag))
+  );
+}
+
+/** Connection URL understood by `StreamHub.fetch`. */
+export function streamHubUrl(filters: StreamFilters, lastEventId: number | null): string {
+  const params = new URLSearchParams();
+  if (filters.adapterId) params.set("adapterId", filters.adapterId);
+  if (filters.payloadType) params.set("payloadType", filters.payloadType);
+  if (filters.locationId) params.set("locationId", filters.locationId);
+  if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+  if (lastEventId !== null) params.set("lastEventId", String(lastEventId));
+  return `https://stream-hub/connect?${params}`;
+}
+
+/** One SSE event per record; the id is api_data.seq, so Last-Event-ID resumes after it. */
+function sseEvent(record: ChangeRecord): string {
+  return `id: ${record.seq}\nevent: api_data\ndata: ${JSON.stringify(record)}\n\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Durable Object
+// ---------------------------------------------------------------------------
+
+interface StreamClient {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  filters: StreamFilters;
+  /** Live records held back while the client's replay is read. */
+  pending: ChangeRecord[] | null;
+  /**
+   * The client's Last-Event-ID (0 without one). Live records up to it are
+   * skipped: an id ahead of the hub's cursor means the client already has them.
+   */
+  after: number;
+}
+
+/**
+ * Fans newly ingested api_data rows out to /v1/stream clients.
+ *
+ * A single instance holds every open connection. Storage calls `notify`
+ * after each commit; the hub then reads the rows past its cursor from D1 in
+ * seq order rather than trusting what was just written, so concurrent
+ * adapter runs still reach clients in commit order and a Last-Event-ID is
+ * exactly a /v1/changes position.
+ */
+export class StreamHub extends DurableObject<Env> {
+  private readonly clients = new Set<StreamClient>();
+  private readonly encoder = new TextEncoder();
+  /** Highest seq fanned out; null while nobody is connected. */
+  private cursor: number | null = null;
+  /** Cursor reads and moves run one at a time. */
+  private queue: Promise<unknown> = Promise.resolve();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  private get db(): Db {
+    return getDb(this.env);
+  }
+
+  private serialise<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Called after api_data commits: send every row inserted since the last call. */
+  async notify(): Promise<void> {
+    if (this.clients.size === 0) return;
+    await this.serialise(async () => {
+      while (this.cursor !== null) {
+        const rows = await this.db
+          .select()
+          .from(apiData)
+          .where(gt(apiData.seq, this.cursor))
+          .orderBy(asc(apiData.seq))
+          .limit(STREAM_READ_PAGE);
+        // Everyone may have left while reading; the next client starts afresh
+        if (rows.length === 0 || this.cursor === null) return;
+
+        for (const row of rows) {
+          const record = changeRecord(row);
+          for (const client of this.clients) {
+            if (record.seq <= client.after || !matches(client.filters, record)) continue;
+            if (client.pending) client.pending.push(record);
+            else this.write(client, sseEvent(record));
+          }
+        }
+        this.cursor = rows[rows.length - 1].seq!;
+        if (rows.length < STREAM_READ_PAGE) return;
+      }
+    });
+  }
+
+  /**
+   * Open an SSE connection. Records after `lastEventId` up to the hub's
+   * cursor are replayed from D1 first; live records arriving meanwhile are
+   * held and sent right after, so nothing is skipped or repeated. Live
+   * records up to a `lastEventId` ahead of the cursor are never sent.
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (this.clients.size >= STREAM_MAX_CLIENTS) {
+      return Response.json({ error: "Too many stream connections" }, { status: 503, headers: { "Retry-After": "60" } });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const filters: StreamFilters = {
+      adapterId: params.get("adapterId") ?? undefined,
+      payloadType: params.get("payloadType") ?? undefined,
+      locationId: params.get("locationId") ?? undefined,
+      tags: parseTagList(params.get("tags") ?? undefined),
+    };
+    const lastEventId = params.has("lastEventId") ? Number(params.get("lastEventId")) : null;
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const client: StreamClient = { writer: writable.getWriter(), filters, pending: [], after: lastEventId ?? 0 };
+
+    // Join at the current cursor; everything after it reaches the client live
+    const joinedAt = await this.serialise(async () => {
+      if (this.cursor === null) {
+        const [{ head }] = await this.db.select({ head: max(apiData.seq) }).from(apiData);
+        this.cursor = head ?? 0;
+      }
+      this.clients.add(client);
+      return this.cursor;
+    });
+
+    let replay: ChangeRecord[] = [];
+    if (lastEventId !== null && lastEventId < joinedAt) {
+      const rows = await this.db
+        .select()
+        .from(apiData)
+        .where(and(gt(apiData.seq, lastEventId), lte(apiData.seq, joinedAt), ...streamConditions(filters)))
+        .orderBy(asc(apiData.seq))
+        .limit(STREAM_REPLAY_MAX + 1);
+      if (rows.length > STREAM_REPLAY_MAX) {
+        this.drop(client);
+        return Response.json(
+          {
+            error: "Too far behind",
+            details: `More than ${STREAM_REPLAY_MAX} records since Last-Event-ID ${lastEventId}; catch up with /v1/changes and reconnect`,
+          },
+          { status: 409 },
+        );
+      }
+      replay = rows.map(changeRecord);
+    }
+
+    this.write(client, `retry: ${RETRY_MS}\n: connected\n\n`);
+    for (const record of [...replay, ...client.pending!]) this.write(client, sseEvent(record));
+    client.pending = null;
+    this.startHeartbeat();
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  }
+
+  /** Queue text for a client; clients that went away or stopped reading are dropped. */
+  private write(client: StreamClient, text: string): void {
+    if ((client.writer.desiredSize ?? 0) < -STREAM_MAX_QUEUED) {
+      this.drop(client);
+      return;
+    }
+    client.writer.write(this.encoder.encode(text)).catch(() => this.drop(client));
+  }
+
+  private drop(client: StreamClient): void {
+    if (!this.clients.delete(client)) return;
+    client.writer.abort().catch(() => {});
+    if (this.clients.size === 0) {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+      this.heartbeat = null;
+      this.cursor = null;
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) this.write(client, ": heartbeat\n\n");
+    }, HEARTBEAT_MS);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Worker side
+// ---------------------------------------------------------------------------
+
+/** The single hub instance. */
+export function streamHub(env: Env) {
+  return env.STREAM_HUB.get(env.STREAM_HUB.idFromName("api_data"));
+}
+
+/**
+ * Tell the hub that api_data rows were committed. Best effort: a failed
+ * notification only delays events until the next one, and clients can
+ * always resume from their Last-Event-ID.
+ */
+export async function notifyStream(env: Env): Promise<void> {
+  try {
+    await streamHub(env).notify();
+  } catch (err) {
+    console.error("[stream] Failed to notify hub:", err instanceof Error ? err.message : err);
+  }
+}
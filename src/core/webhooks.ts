@@ -0,0 +1,500 @@
+import { and, asc, desc, eq, gt, lt, lte, max, sql, type SQL } from "drizzle-orm";
+import type { Db } from "../db/client";
+import { getDb } from "../db/client";
+import { apiData, webhookDeliveries, webhookSubscriptions } from "../db/schema";
+import { compileTagFilters, compileWhereList } from "../api/filters";
+import { changeRecord, sha256 } from "./storage";
+
+// ---------------------------------------------------------------------------
+// Subscriptions & filters
+// ---------------------------------------------------------------------------
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export type WebhookEvent = "api_data.created" | "ping";
+export type WebhookDeliveryStatus = "pending" | "sending" | "delivered" | "failed";
+
+/** api_data rows a subscription receives — the same filters as /v1/search. */
+export interface WebhookFilters {
+  adapterId?: string;
+  payloadType?: string;
+  locationId?: string;
+  tags?: string;
+  anyTags?: string;
+  where?: string[];
+}
+
+/** Request headers of every delivery. */
+export const WEBHOOK_HEADERS = {
+  id: "X-Webhook-Id",
+  event: "X-Webhook-Event",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+/** Attempts per delivery before it is given up as failed. */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Delay before the first retry; doubled after every failed attempt (1 min … 64 min). */
+const WEBHOOK_RETRY_BASE_SECONDS = 60;
+
+/** A subscription is disabled after this many consecutive failed deliveries. */
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 5;
+
+/** Time the receiving endpoint has to answer. */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** New rows matched per subscription and scheduler run; the rest wait for the next run. */
+const WEBHOOK_MATCHES_PER_RUN = 100;
+
+/** Delivery attempts per scheduler run — each one is a subrequest. */
+const WEBHOOK_ATTEMPTS_PER_RUN = 25;
+
+/** A delivery still "sending" after this long is considered crashed and retried. */
+const WEBHOOK_SENDING_STALE_SECONDS = 5 * 60;
+
+/** Finished deliveries are kept in the log for this long. */
+const WEBHOOK_LOG_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Single-row inserts per db.batch(), as in storage.ts. */
+const BATCH_STMT_LIMIT = 50;
+
+/**
+ * Compile subscription filters to SQL conditions on api_data.
+ * @throws ValidationError for invalid `where` or tag filters.
+ */
+export function webhookConditions(filters: WebhookFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.adapterId) conditions.push(eq(apiData.apiSource, filters.adapterId));
+  if (filters.payloadType) conditions.push(eq(apiData.payloadType, filters.payloadType));
+  if (filters.locationId) conditions.push(eq(apiData.locationId, filters.locationId));
+  conditions.push(
+    ...compileTagFilters(filters.tags, filters.anyTags),
+    ...compileWhereList(filters.where),
+  );
+  return conditions;
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Random signing secret for subscriptions created without one. */
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * Random management token of a subscription. Only its SHA-256 is stored:
+ * 256 random bits need no salt, unlike a secret a caller picks.
+ */
+function generateWebhookToken(): string {
+  return `whtok_${toHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * `X-Webhook-Signature` value: HMAC-SHA256 of `<timestamp>.<body>` keyed
+ * with the subscription secret, as `sha256=<hex>`. Signing the timestamp
+ * lets receivers reject replayed requests.
+ */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(mac)}`;
+}
+
+/** Highest api_data.seq, or 0 on an empty table. */
+async function currentSeq(db: Db): Promise<number> {
+  const [{ head }] = await db.select({ head: max(apiData.seq) }).from(apiData);
+  return head ?? 0;
+}
+
+/**
+ * Register a subscription. It only receives rows inserted from now on.
+ * Returns it with its management token, which is not stored and cannot be
+ * recovered later.
+ * @throws ValidationError for invalid filters.
+ */
+export async function createWebhookSubscription(
+  db: Db,
+  input: { url: string; description?: string; filters: WebhookFilters; secret?: string },
+): Promise<{ subscription: WebhookSubscription; token: string }> {
+  webhookConditions(input.filters);
+  const token = generateWebhookToken();
+
+  const subscription: WebhookSubscription = {
+    id: crypto.randomUUID(),
+    url: input.url,
+    description: input.description ?? null,
+    secret: input.secret ?? generateWebhookSecret(),
+    tokenHash: await sha256(token),
+    filters: JSON.stringify(input.filters),
+    status: "active",
+    lastSeq: await currentSeq(db),
+    consecutiveFailures: 0,
+    disabledReason: null,
+    createdAt: new Date(),
+    disabledAt: null,
+  };
+  await db.insert(webhookSubscriptions).values(subscription);
+  return { subscription, token };
+}
+
+/** The subscription, if it exists and `token` is its management token. */
+export async function getWebhookSubscription(
+  db: Db,
+  id: string,
+  token: string,
+): Promise<WebhookSubscription | null> {
+  const [subscription] = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, id))
+    .limit(1);
+  return subscription && subscription.tokenHash === (await sha256(token)) ? subscription : null;
+}
+
+/** Remove a subscription and its delivery log. */
+export async function deleteWebhookSubscription(db: Db, id: string): Promise<void> {
+  await db.batch([
+    db.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id)),
+    db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Event bodies
+// ---------------------------------------------------------------------------
+
+type ApiDataRow = typeof apiData.$inferSelect;
+
+function eventBody(
+  deliveryId: string,
+  subscriptionId: string,
+  event: WebhookEvent,
+  row: ApiDataRow | null,
+  createdAt: Date,
+): string {
+  return JSON.stringify({
+    id: deliveryId,
+    event,
+    subscriptionId,
+    createdAt: createdAt.toISOString(),
+    data: row && changeRecord(row),
+  });
+}
+
+function newDelivery(
+  subscriptionId: string,
+  event: WebhookEvent,
+  row: ApiDataRow | null,
+  now: Date,
+): WebhookDelivery {
+  const id = crypto.randomUUID();
+  return {
+    id,
+    subscriptionId,
+    event,
+    // Pings only carry a sample; the unique index is for matched rows
+    apiDataId: event === "api_data.created" ? row!.id : null,
+    body: eventBody(id, subscriptionId, event, row, now),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    createdAt: now,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Matching new api_data rows
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue a delivery for every row inserted since the subscription's
+ * `lastSeq` that passes its filters, then advance `lastSeq`. Rows are read
+ * up to `head` only, so rows committed while matching are left for the
+ * next run. A run that crashes between the two steps re-matches the same
+ * rows; the (subscription, row) unique index drops the duplicates.
+ */
+async function matchSubscription(db: Db, subscription: WebhookSubscription, head: number): Promise<number> {
+  const filters = JSON.parse(subscription.filters) as WebhookFilters;
+  const rows = await db
+    .select()
+    .from(apiData)
+    .where(
+      and(
+        gt(apiData.seq, subscription.lastSeq),
+        lte(apiData.seq, head),
+        ...webhookConditions(filters),
+      ),
+    )
+    .orderBy(asc(apiData.seq))
+    .limit(WEBHOOK_MATCHES_PER_RUN);
+
+  const now = new Date();
+  for (let i = 0; i < rows.length; i += BATCH_STMT_LIMIT) {
+    const statements = rows.slice(i, i + BATCH_STMT_LIMIT).map((row) =>
+      db
+        .insert(webhookDeliveries)
+        .values(newDelivery(subscription.id, "api_data.created", row, now))
+        .onConflictDoNothing(),
+    );
+    await db.batch(statements as unknown as [(typeof statements)[0], ...typeof statements]);
+  }
+
+  const position = rows.length === WEBHOOK_MATCHES_PER_RUN ? rows[rows.length - 1].seq! : head;
+  await db
+    .update(webhookSubscriptions)
+    .set({ lastSeq: position })
+    .where(and(eq(webhookSubscriptions.id, subscription.id), lt(webhookSubscriptions.lastSeq, position)));
+  return rows.length;
+}
+
+/** Match the rows inserted since the last run against every active subscription. */
+export async function matchWebhookSubscriptions(db: Db): Promise<void> {
+  const head = await currentSeq(db);
+  const subscriptions = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.status, "active"), lt(webhookSubscriptions.lastSeq, head)));
+
+  for (const subscription of subscriptions) {
+    try {
+      const matched = await matchSubscription(db, subscription, head);
+      if (matched > 0) console.log(`[webhooks] ${matched} new row(s) for ${subscription.id}`);
+    } catch (err) {
+      console.error(`[webhooks] Failed to match ${subscription.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/** Delay before attempt `attempts + 1`. */
+function retryDelaySeconds(attempts: number): number {
+  return WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1);
+}
+
+/** POST the delivery body, signed. Returns the HTTP status, or the network error. */
+async function post(
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+): Promise<{ status: number | null; error: string | null }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "pt-apis-webhooks/1.0",
+        [WEBHOOK_HEADERS.id]: delivery.id,
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: await signWebhook(subscription.secret, timestamp, delivery.body),
+      },
+      body: delivery.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+    return res.ok ? { status: res.status, error: null } : { status: res.status, error: `HTTP ${res.status}` };
+  } catch (err) {
+    return { status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Make one attempt and record it. Failed `api_data.created` deliveries are
+ * retried with exponential backoff; when one is given up the subscription's
+ * failure count goes up and, at the threshold, the subscription is
+ * disabled. Pings are attempted once and never count as failures.
+ */
+async function attemptDelivery(
+  db: Db,
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+): Promise<WebhookDelivery> {
+  const { status, error } = await post(subscription, delivery);
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+
+  let outcome: Pick<WebhookDelivery, "status" | "nextAttemptAt">;
+  if (!error) {
+    outcome = { status: "delivered", nextAttemptAt: null };
+  } else if (delivery.event === "ping" || attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    outcome = { status: "failed", nextAttemptAt: null };
+  } else {
+    outcome = { status: "pending", nextAttemptAt: new Date(now.getTime() + retryDelaySeconds(attempts) * 1000) };
+  }
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    ...outcome,
+    attempts,
+    lastAttemptAt: now,
+    responseStatus: status,
+    error,
+  };
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: updated.status,
+      attempts,
+      nextAttemptAt: updated.nextAttemptAt,
+      lastAttemptAt: now,
+      responseStatus: status,
+      error,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  if (updated.status === "delivered" && subscription.consecutiveFailures > 0) {
+    await db
+      .update(webhookSubscriptions)
+      .set({ consecutiveFailures: 0 })
+      .where(eq(webhookSubscriptions.id, subscription.id));
+  } else if (updated.status === "failed" && delivery.event !== "ping") {
+    const [{ consecutiveFailures }] = await db
+      .update(webhookSubscriptions)
+      .set({ consecutiveFailures: sql`${webhookSubscriptions.consecutiveFailures} + 1` })
+      .where(eq(webhookSubscriptions.id, subscription.id))
+      .returning({ consecutiveFailures: webhookSubscriptions.consecutiveFailures });
+    if (consecutiveFailures >= WEBHOOK_DISABLE_AFTER_FAILURES) {
+      await db
+        .update(webhookSubscriptions)
+        .set({
+          status: "disabled",
+          disabledAt: now,
+          disabledReason: `${consecutiveFailures} consecutive deliveries failed; last error: ${error}`,
+        })
+        .where(and(eq(webhookSubscriptions.id, subscription.id), eq(webhookSubscriptions.status, "active")));
+      console.warn(`[webhooks] Disabled ${subscription.id} after ${consecutiveFailures} failed deliveries`);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Requeue crashed attempts, then attempt the deliveries that are due, oldest
+ * first. Deliveries of disabled subscriptions stay queued until the
+ * subscription is re-enabled by a successful test.
+ */
+export async function deliverPendingWebhooks(db: Db): Promise<void> {
+  const now = new Date();
+
+  await db
+    .update(webhookDeliveries)
+    .set({ status: "pending" })
+    .where(
+      and(
+        eq(webhookDeliveries.status, "sending"),
+        lt(webhookDeliveries.lastAttemptAt, new Date(now.getTime() - WEBHOOK_SENDING_STALE_SECONDS * 1000)),
+      ),
+    );
+
+  const due = await db
+    .select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        eq(webhookSubscriptions.status, "active"),
+      ),
+    )
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(WEBHOOK_ATTEMPTS_PER_RUN);
+
+  await Promise.all(
+    due.map(async ({ delivery, subscription }) => {
+      // Claim the delivery; a concurrent run that got here first wins
+      const claimed = await db
+        .update(webhookDeliveries)
+        .set({ status: "sending", lastAttemptAt: now })
+        .where(and(eq(webhookDeliveries.id, delivery.id), eq(webhookDeliveries.status, "pending")));
+      if (claimed.meta.changes === 0) return;
+      await attemptDelivery(db, subscription, delivery);
+    }),
+  );
+}
+
+/**
+ * Send a `ping` right away, carrying the most recent row the subscription
+ * would match (or `data: null`). A successful ping re-enables a disabled
+ * subscription, so its queued deliveries resume.
+ */
+export async function sendTestWebhook(db: Db, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const [sample] = await db
+    .select()
+    .from(apiData)
+    .where(and(...webhookConditions(JSON.parse(subscription.filters) as WebhookFilters)))
+    .orderBy(desc(apiData.seq))
+    .limit(1);
+
+  const delivery = newDelivery(subscription.id, "ping", sample ?? null, new Date());
+  await db.insert(webhookDeliveries).values(delivery);
+  const result = await attemptDelivery(db, subscription, delivery);
+
+  if (result.status === "delivered" && subscription.status === "disabled") {
+    await db
+      .update(webhookSubscriptions)
+      .set({ status: "active", consecutiveFailures: 0, disabledAt: null, disabledReason: null })
+      .where(eq(webhookSubscriptions.id, subscription.id));
+  }
+  return result;
+}
+
+/** Delivery log of a subscription, newest first. */
+export async function listWebhookDeliveries(
+  db: Db,
+  subscriptionId: string,
+  opts: { status?: WebhookDeliveryStatus; limit: number },
+): Promise<WebhookDelivery[]> {
+  const conditions = [eq(webhookDeliveries.subscriptionId, subscriptionId)];
+  if (opts.status) conditions.push(eq(webhookDeliveries.status, opts.status));
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(opts.limit);
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Called after each scheduler run: drop old log entries, queue deliveries
+ * for the rows the adapters just inserted and attempt the ones due
+ * (new deliveries and retries).
+ */
+export async function processWebhooks(env: Env): Promise<void> {
+  const db = getDb(env);
+
+  await db
+    .delete(webhookDeliveries)
+    .where(
+      and(
+        sql`${webhookDeliveries.status} in ('delivered', 'failed')`,
+        lt(webhookDeliveries.createdAt, new Date(Date.now() - WEBHOOK_LOG_TTL_SECONDS * 1000)),
+      ),
+    );
+
+  await matchWebhookSubscriptions(db);
+  await deliverPendingWebhooks(db);
+}
@@ -28,9 +28,14 @@ export const locations = sqliteTable(
     longitude: real("longitude"),
     type: text("type").notNull(), // "city", "district", "station", "sensor"
     metadata: text("metadata"), // JSON — adapter-specific fields, administrative data, etc.
+    gridLat: integer("grid_lat"), // spatial grid cell (see core/geo.ts); null without coordinates
+    gridLon: integer("grid_lon"),
+    searchRowid: integer("search_rowid"), // search_index entry is at rowid -searchRowid, see core/search-index.ts
   },
   (table) => [
     index("loc_type_idx").on(table.type),
+    index("loc_grid_idx").on(table.gridLat, table.gridLon),
+    uniqueIndex("idx_locations_search_rowid").on(table.searchRowid),
   ],
 );
 
@@ -50,6 +55,7 @@ export const apiData = sqliteTable(
     tags: text("tags"), // JSON array
     contentHash: text("content_hash").notNull(), // SHA-256 hex of payload
     scrapedAt: integer("scraped_at", { mode: "timestamp" }).notNull(),
+    seq: integer("seq"), // insertion sequence, see /v1/changes
   },
   (table) => [
     index("idx_api_data_timestamp").on(table.timestamp),
@@ -58,6 +64,7 @@ export const apiData = sqliteTable(
     index("idx_api_data_source_type").on(table.apiSource, table.payloadType),
     index("idx_api_data_source_type_time").on(table.apiSource, table.payloadType, table.timestamp),
     uniqueIndex("idx_api_data_dedup").on(table.apiSource, table.payloadType, table.contentHash),
+    uniqueIndex("idx_api_data_seq").on(table.seq),
   ],
 );
 
@@ -104,6 +111,111 @@ export const ingestLog = sqliteTable(
   ],
 );
 
+// ---------------------------------------------------------------------------
+// Snapshots  (point-in-time JSON captures of upstream state, body in R2)
+// ---------------------------------------------------------------------------
+
+export const snapshots = sqliteTable(
+  "snapshots",
+  {
+    id: text("id").primaryKey(),
+    adapterId: text("adapter_id").notNull(),
+    snapshotType: text("snapshot_type").notNull(), // e.g. "avisos"
+    ingestLogId: text("ingest_log_id"), // FK to ingest_log.id — the run that captured it
+    documentId: text("document_id").notNull(), // FK to documents.id — JSON body in R2
+    contentHash: text("content_hash").notNull(), // SHA-256 hex of the JSON body
+    capturedAt: integer("captured_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("snap_adapter_type_time_idx").on(table.adapterId, table.snapshotType, table.capturedAt),
+    index("snap_adapter_time_idx").on(table.adapterId, table.capturedAt),
+    index("snap_ingest_log_idx").on(table.ingestLogId),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Exports  (bulk api_data exports written to R2 by the scheduler)
+// ---------------------------------------------------------------------------
+
+export const exportJobs = sqliteTable(
+  "exports",
+  {
+    id: text("id").primaryKey(),
+    queryHash: text("query_hash").notNull(), // SHA-256 of format + normalised filters — reuses identical exports
+    format: text("format").notNull(), // "ndjson" | "csv" | "parquet"
+    filters: text("filters").notNull(), // JSON — ExportFilters
+    status: text("status").notNull(), // "pending" | "running" | "ready" | "error"
+    rowCount: integer("row_count"),
+    sizeBytes: integer("size_bytes"),
+    r2Key: text("r2_key"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    startedAt: integer("started_at", { mode: "timestamp" }),
+    finishedAt: integer("finished_at", { mode: "timestamp" }),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("export_query_hash_idx").on(table.queryHash),
+    index("export_status_created_idx").on(table.status, table.createdAt),
+    index("export_expires_idx").on(table.expiresAt),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Webhooks  (subscriptions matched against new api_data rows by the scheduler)
+// ---------------------------------------------------------------------------
+
+export const webhookSubscriptions = sqliteTable(
+  "webhook_subscriptions",
+  {
+    id: text("id").primaryKey(),
+    url: text("url").notNull(), // HTTPS endpoint receiving the POSTs
+    description: text("description"),
+    secret: text("secret").notNull(), // HMAC-SHA256 signing key
+    tokenHash: text("token_hash").notNull(), // SHA-256 hex of the management token, which is not stored
+    filters: text("filters").notNull(), // JSON — WebhookFilters
+    status: text("status").notNull(), // "active" | "disabled"
+    lastSeq: integer("last_seq").notNull(), // api_data.seq already matched
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0), // deliveries given up since the last success
+    disabledReason: text("disabled_reason"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    disabledAt: integer("disabled_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("webhook_status_idx").on(table.status),
+  ],
+);
+
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    subscriptionId: text("subscription_id").notNull(), // FK to webhook_subscriptions.id
+    event: text("event").notNull(), // "api_data.created" | "ping"
+    apiDataId: text("api_data_id"), // FK to api_data.id — null for pings
+    body: text("body").notNull(), // JSON sent on every attempt, so retries are byte-identical
+    status: text("status").notNull(), // "pending" | "sending" | "delivered" | "failed"
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }),
+    lastAttemptAt: integer("last_attempt_at", { mode: "timestamp" }),
+    responseStatus: integer("response_status"), // HTTP status of the last attempt
+    error: text("error"), // last failure: status line or network error
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("delivery_subscription_created_idx").on(table.subscriptionId, table.createdAt),
+    uniqueIndex("delivery_subscription_data_idx").on(table.subscriptionId, table.apiDataId), // one delivery per matched row
+    index("delivery_status_next_idx").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Search index  (FTS5 virtual table `search_index`)
+// ---------------------------------------------------------------------------
+
+// Drizzle cannot model virtual tables: `search_index` is created by the custom
+// migration 0005_search_index.sql and written through src/core/search-index.ts.
+
 // ---------------------------------------------------------------------------
 // Schema export  (for Drizzle client)
 // ---------------------------------------------------------------------------
@@ -114,4 +226,8 @@ export const dbSchema = {
   apiData,
   documents,
   ingestLog,
+  snapshots,
+  exportJobs,
+  webhookSubscriptions,
+  webhookDeliveries,
 };
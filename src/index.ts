@@ -7,9 +7,21 @@ import "./adapters/index";
 
 // API route modules
 import sourcesApp from "./api/v1/sources";
+import realtimeApp from "./api/v1/realtime";
+import historyApp from "./api/v1/history";
 import documentsApp from "./api/v1/documents";
+import snapshotsApp from "./api/v1/snapshots";
 import searchApp from "./api/v1/search";
+import facetsApp from "./api/v1/facets";
+import aggregateApp from "./api/v1/aggregate";
+import exportApp from "./api/v1/export";
+import changesApp from "./api/v1/changes";
+import streamApp from "./api/v1/stream";
+import webhooksApp from "./api/v1/webhooks";
 import locationsApp from "./api/v1/locations";
+import catalogApp from "./api/v1/catalog";
+import graphqlApp from "./api/graphql";
+import { mountBatch } from "./api/v1/batch";
 import { mountDocs } from "./api/openapi";
 
 // Core
@@ -17,6 +29,7 @@ import { handleScheduled } from "./core/scheduler";
 import { seedSources } from "./adapters/seed";
 import { registry } from "./core/registry";
 import { rateLimit } from "./core/rate-limit";
+import { conditionalGet } from "./core/cache";
 
 // ---------------------------------------------------------------------------
 // App
@@ -32,9 +45,13 @@ app.use("*", async (c, next) => {
 });
 
 // Global middleware
-app.use("*", cors());
+// Pagination headers of CSV lists must be readable from browser scripts
+app.use("*", cors({ origin: "*", exposeHeaders: ["Link", "X-Total-Count", "X-Next-Cursor"] }));
 app.use("*", logger());
 
+// ETag / Last-Modified validators and 304 Not Modified, for core and adapter routes
+app.use("*", conditionalGet());
+
 // Rate limit all /v1/* API routes (100 req/min per IP)
 app.use("/v1/*", rateLimit({ binding: "RATE_LIMITER" }));
 
@@ -54,9 +71,20 @@ app.use("*", async (c, next) => {
 
 // Mount core API routes
 app.route("/", sourcesApp);
+app.route("/", realtimeApp);
+app.route("/", historyApp);
 app.route("/", documentsApp);
+app.route("/", snapshotsApp);
 app.route("/", searchApp);
+app.route("/", facetsApp);
+app.route("/", aggregateApp);
+app.route("/", exportApp);
+app.route("/", changesApp);
+app.route("/", streamApp);
+app.route("/", webhooksApp);
 app.route("/", locationsApp);
+app.route("/", catalogApp);
+app.route("/", graphqlApp);
 
 // Mount custom adapter routes (each adapter's OpenAPIHono sub-app)
 for (const adapter of registry.getAll()) {
@@ -65,6 +93,9 @@ for (const adapter of registry.getAll()) {
   }
 }
 
+// Mount POST /v1/batch (dispatches back into this app)
+mountBatch(app);
+
 // Mount OpenAPI docs + Scalar UI
 mountDocs(app);
 
@@ -95,6 +126,11 @@ app.get("/", (c) => {
       sources: "/v1/sources",
       locations: "/v1/locations",
       search: "/v1/search",
+      graphql: "/graphql",
+      catalog: "/v1/catalog",
+      changes: "/v1/changes",
+      stream: "/v1/stream",
+      webhooks: "/v1/webhooks",
       documentation: "/doc",
       reference: "/reference",
       health: "/health",
@@ -103,9 +139,11 @@ app.get("/", (c) => {
 });
 
 // ---------------------------------------------------------------------------
-// Export: fetch (HTTP) + scheduled (cron)
+// Export: fetch (HTTP) + scheduled (cron) + Durable Objects
 // ---------------------------------------------------------------------------
 
+export { StreamHub } from "./core/stream";
+
 export default {
   fetch: app.fetch,
   async scheduled(
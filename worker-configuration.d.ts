@@ -1,9 +1,10 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 41d75a8736a849cfd907860e0b3dbf59)
-// Runtime types generated with workerd@1.20251217.0 2025-12-17 nodejs_compat
+// Generated by Wrangler by running `wrangler types --env-interface CloudflareBindings` (hash: 124e9eff6288ae77d4a72970c9cc33a0)
+// Runtime types generated with workerd@1.20260205.0 2025-12-17 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "StreamHub";
 	}
 	interface Env {
 		CACHE: KVNamespace;
@@ -12,9 +13,10 @@ declare namespace Cloudflare {
 		RATE_LIMITER: RateLimit;
 		RATE_LIMITER_SEARCH: RateLimit;
 		ASSETS: Fetcher;
+		STREAM_HUB: DurableObjectNamespace<import("./src/index").StreamHub>;
 	}
 }
-interface Env extends Cloudflare.Env {}
+interface CloudflareBindings extends Cloudflare.Env {}
 
 // Begin runtime types
 /*! *****************************************************************************
@@ -1393,6 +1395,12 @@ declare abstract class PromiseRejectionEvent extends Event {
  */
 declare class FormData {
     constructor();
+    /**
+     * The **`append()`** method of the FormData interface appends a new value onto an existing key inside a `FormData` object, or adds the key if it does not already exist.
+     *
+     * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/append)
+     */
+    append(name: string, value: string | Blob): void;
     /**
      * The **`append()`** method of the FormData interface appends a new value onto an existing key inside a `FormData` object, or adds the key if it does not already exist.
      *
@@ -1429,6 +1437,12 @@ declare class FormData {
      * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/has)
      */
     has(name: string): boolean;
+    /**
+     * The **`set()`** method of the FormData interface sets a new value for an existing key inside a `FormData` object, or adds the key/value if it does not already exist.
+     *
+     * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/set)
+     */
+    set(name: string, value: string | Blob): void;
     /**
      * The **`set()`** method of the FormData interface sets a new value for an existing key inside a `FormData` object, or adds the key/value if it does not already exist.
      *
@@ -1755,7 +1769,7 @@ interface Request<CfHostMetadata = unknown, Cf = CfProperties<CfHostMetadata>> e
      * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Request/signal)
      */
     signal: AbortSignal;
-    cf: Cf | undefined;
+    cf?: Cf;
     /**
      * The **`integrity`** read-only property of the Request interface contains the subresource integrity value of the request.
      *
@@ -5509,7 +5523,7 @@ interface Ai_Cf_Qwen_Qwq_32B_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -5775,7 +5789,7 @@ interface Ai_Cf_Mistralai_Mistral_Small_3_1_24B_Instruct_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -5866,7 +5880,7 @@ interface Ai_Cf_Google_Gemma_3_12B_It_Prompt {
      */
     prompt: string;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6025,7 +6039,7 @@ interface Ai_Cf_Google_Gemma_3_12B_It_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6297,7 +6311,7 @@ interface Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_Messages {
     })[];
     response_format?: Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_JSON_Mode;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6527,7 +6541,7 @@ interface Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_Messages_Inner {
     })[];
     response_format?: Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_JSON_Mode;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -7577,7 +7591,7 @@ interface Ai_Cf_Ai4Bharat_Indictrans2_En_Indic_1B_Input {
      */
     text: string | string[];
     /**
-     * Target langauge to translate to
+     * Target language to translate to
      */
     target_language: "asm_Beng" | "awa_Deva" | "ben_Beng" | "bho_Deva" | "brx_Deva" | "doi_Deva" | "eng_Latn" | "gom_Deva" | "gon_Deva" | "guj_Gujr" | "hin_Deva" | "hne_Deva" | "kan_Knda" | "kas_Arab" | "kas_Deva" | "kha_Latn" | "lus_Latn" | "mag_Deva" | "mai_Deva" | "mal_Mlym" | "mar_Deva" | "mni_Beng" | "mni_Mtei" | "npi_Deva" | "ory_Orya" | "pan_Guru" | "san_Deva" | "sat_Olck" | "snd_Arab" | "snd_Deva" | "tam_Taml" | "tel_Telu" | "urd_Arab" | "unr_Deva";
 }
@@ -9437,6 +9451,10 @@ interface D1Meta {
      * The region of the database instance that executed the query.
      */
     served_by_region?: string;
+    /**
+     * The three letters airport code of the colo that executed the query.
+     */
+    served_by_colo?: string;
     /**
      * True if-and-only-if the database instance that executed the query was the primary.
      */
@@ -9525,6 +9543,15 @@ declare abstract class D1PreparedStatement {
 // ignored when `Disposable` is included in the standard lib.
 interface Disposable {
 }
+/**
+ * The returned data after sending an email
+ */
+interface EmailSendResult {
+    /**
+     * The Email Message ID
+     */
+    messageId: string;
+}
 /**
  * An email message that can be sent from a Worker.
  */
@@ -9566,19 +9593,50 @@ interface ForwardableEmailMessage extends EmailMessage {
      * @param headers A [Headers object](https://developer.mozilla.org/en-US/docs/Web/API/Headers).
      * @returns A promise that resolves when the email message is forwarded.
      */
-    forward(rcptTo: string, headers?: Headers): Promise<void>;
+    forward(rcptTo: string, headers?: Headers): Promise<EmailSendResult>;
     /**
      * Reply to the sender of this email message with a new EmailMessage object.
      * @param message The reply message.
      * @returns A promise that resolves when the email message is replied.
      */
-    reply(message: EmailMessage): Promise<void>;
+    reply(message: EmailMessage): Promise<EmailSendResult>;
+}
+/** A file attachment for an email message */
+type EmailAttachment = {
+    disposition: 'inline';
+    contentId: string;
+    filename: string;
+    type: string;
+    content: string | ArrayBuffer | ArrayBufferView;
+} | {
+    disposition: 'attachment';
+    contentId?: undefined;
+    filename: string;
+    type: string;
+    content: string | ArrayBuffer | ArrayBufferView;
+};
+/** An Email Address */
+interface EmailAddress {
+    name: string;
+    email: string;
 }
 /**
  * A binding that allows a Worker to send email messages.
  */
 interface SendEmail {
-    send(message: EmailMessage): Promise<void>;
+    send(message: EmailMessage): Promise<EmailSendResult>;
+    send(builder: {
+        from: string | EmailAddress;
+        to: string | string[];
+        subject: string;
+        replyTo?: string | EmailAddress;
+        cc?: string | string[];
+        bcc?: string | string[];
+        headers?: Record<string, string>;
+        text?: string;
+        html?: string;
+        attachments?: EmailAttachment[];
+    }): Promise<EmailSendResult>;
 }
 declare abstract class EmailEvent extends ExtendableEvent {
     readonly message: ForwardableEmailMessage;
@@ -9611,7 +9669,7 @@ interface Hyperdrive {
     /**
      * Connect directly to Hyperdrive as if it's your database, returning a TCP socket.
      *
-     * Calling this method returns an idential socket to if you call
+     * Calling this method returns an identical socket to if you call
      * `connect("host:port")` using the `host` and `port` fields from this object.
      * Pick whichever approach works better with your preferred DB client library.
      *
@@ -9944,7 +10002,7 @@ declare module "cloudflare:pipelines" {
         protected ctx: ExecutionContext;
         constructor(ctx: ExecutionContext, env: Env);
         /**
-         * run recieves an array of PipelineRecord which can be
+         * run receives an array of PipelineRecord which can be
          * transformed and returned to the pipeline
          * @param records Incoming records from the pipeline to be transformed
          * @param metadata Information about the specific pipeline calling the transformation entrypoint
@@ -10225,6 +10283,7 @@ declare namespace CloudflareWorkersModule {
             timeout?: WorkflowTimeoutDuration | number;
         }): Promise<WorkflowStepEvent<T>>;
     }
+    export type WorkflowInstanceStatus = 'queued' | 'running' | 'paused' | 'errored' | 'terminated' | 'complete' | 'waiting' | 'waitingForPause' | 'unknown';
     export abstract class WorkflowEntrypoint<Env = unknown, T extends Rpc.Serializable<T> | unknown = unknown> implements Rpc.WorkflowEntrypointBranded {
         [Rpc.__WORKFLOW_ENTRYPOINT_BRAND]: never;
         protected ctx: ExecutionContext;
@@ -10418,6 +10477,15 @@ declare namespace TailStream {
         readonly level: "debug" | "error" | "info" | "log" | "warn";
         readonly message: object;
     }
+    interface DroppedEventsDiagnostic {
+        readonly diagnosticsType: "droppedEvents";
+        readonly count: number;
+    }
+    interface StreamDiagnostic {
+        readonly type: 'streamDiagnostic';
+        // To add new diagnostic types, define a new interface and add it to this union type.
+        readonly diagnostic: DroppedEventsDiagnostic;
+    }
     // This marks the worker handler return information.
     // This is separate from Outcome because the worker invocation can live for a long time after
     // returning. For example - Websockets that return an http upgrade response but then continue
@@ -10434,7 +10502,7 @@ declare namespace TailStream {
         readonly type: "attributes";
         readonly info: Attribute[];
     }
-    type EventType = Onset | Outcome | SpanOpen | SpanClose | DiagnosticChannelEvent | Exception | Log | Return | Attributes;
+    type EventType = Onset | Outcome | SpanOpen | SpanClose | DiagnosticChannelEvent | Exception | Log | StreamDiagnostic | Return | Attributes;
     // Context in which this trace event lives.
     interface SpanContext {
         // Single id for the entire top-level invocation
@@ -10448,7 +10516,7 @@ declare namespace TailStream {
         // For Hibernate and Mark this would be the span under which they were emitted.
         // spanId is not set ONLY if:
         //  1. This is an Onset event
-        //  2. We are not inherting any SpanContext. (e.g. this is a cross-account service binding or a new top-level invocation)
+        //  2. We are not inheriting any SpanContext. (e.g. this is a cross-account service binding or a new top-level invocation)
         readonly spanId?: string;
     }
     interface TailEvent<Event extends EventType> {